@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { motion } from 'framer-motion'
 import { Star } from 'lucide-react'
 import toast, { Toaster } from 'react-hot-toast'
@@ -12,42 +12,55 @@ import {
   ManualTextInput,
   StatusIndicator,
   ConversationDisplay,
+  LiveCaption,
+  RedFlagBanner,
   SettingsPanel,
+  GlossaryPanel,
   SaveDialog,
   LoadDialog,
   DeleteDialog,
   MedicalSummaryModal,
-  ConversationSummaryModal
+  ConversationSummaryModal,
+  TranslateCaseDialog,
+  TranscribeRecordingDialog,
+  type StreamingMessage
 } from './components'
 
-import { sanitizeInput, encodeOutput } from './utils/security'
+import { sanitizeInput, encodeOutput, decodeOutput } from './utils/security'
 import { 
   ScreenReader, 
-  createSkipLink
+  createSkipLink,
+  LANGUAGE_NAMES
 } from './utils/accessibility.tsx'
 import { secureStorage, migrateExistingKeys } from './utils/secureStorage'
 import { hipaaCompliance, createPrivacyConsentDialog } from './utils/hipaa'
-import MedicalExtractionService, { type MedicalExtraction } from './utils/medicalExtraction'
+import MedicalExtractionService, { type MedicalExtraction, type FindingSource } from './utils/medicalExtraction'
+import AIService from './utils/aiService'
+import { parsePartialJson } from './utils/streaming'
+import { applyReview, upsertReview, removeReview, type FindingReview, type ReviewKind, type ReviewStatus } from './utils/clinicianReview'
 import { medicalEncryption } from './utils/medicalEncryption'
-
-// Type declarations for Web Speech API
-declare global {
-  interface Window {
-    SpeechRecognition: any
-    webkitSpeechRecognition: any
-  }
-}
-
-interface Message {
-  id: string
-  text: string
-  translatedText: string
-  isDoctor: boolean
-  timestamp: Date
-  language: string
-  rating?: number // 0-5 stars for translation quality
-  translationQuality?: 'poor' | 'fair' | 'good' | 'excellent'
-}
+import TranslationService, {
+  type BatchProgress,
+  type ConsensusMode,
+  type ProviderConfig,
+  type ProviderStatus,
+  type TranslationRequest,
+  type TranslationResponse
+} from './utils/translationService'
+import { HIGH_DIVERGENCE_THRESHOLD, LOW_AGREEMENT_THRESHOLD } from './utils/translationVerification'
+import { translationMemory } from './utils/translationMemory'
+import { textToSpeech, type PlaybackState } from './utils/textToSpeech'
+import { MIN_DETECTION_CONFIDENCE, detectLanguageOffline, type LanguageDetectionMode } from './utils/languageDetection'
+import { assignSpeakers, clusterSpeakers, extractVoiceFeatures, type RecordingSpeakers, type SpeakerClusters } from './utils/speakerDiarization'
+import type { Message } from './hooks/useConversation'
+import { useSpeechRecognition, STOP_PHRASES } from './hooks/useSpeechRecognition'
+import SpeechEngineService, {
+  SpeechEngineError,
+  getSpeechErrorMessage,
+  groupUtterances,
+  type SpeechEngineId,
+  type SpeechSession
+} from './utils/speechEngines'
 
 interface Provider {
   id: string
@@ -56,6 +69,31 @@ interface Provider {
   status: 'available' | 'unavailable'
 }
 
+// Who spoke an utterance and which way to translate it
+interface ResolvedUtterance {
+  source: string
+  target: string
+  isDoctor: boolean
+  detected?: string
+  roleAssignment?: Message['roleAssignment']
+}
+
+// What extraction and the summary depend on: who said what, in the original and the translation
+const conversationKey = (messages: Message[]): string =>
+  JSON.stringify(messages.map(msg => [msg.id, msg.isDoctor, msg.text, msg.translatedText]))
+
+// Speech recognition locale for each base language code
+const SPEECH_LANGUAGE_CODES: Record<string, string> = {
+  'en': 'en-US',
+  'es': 'es-ES', 
+  'pt': 'pt-BR',
+  'fa': 'fa-IR',
+  'ar': 'ar-SA',
+  'zh': 'zh-CN',
+  'fr': 'fr-FR',
+  'de': 'de-DE'
+}
+
 function App() {
   const [isRecording, setIsRecording] = useState(false)
   const [messages, setMessages] = useState<Message[]>([])
@@ -63,14 +101,19 @@ function App() {
   const [sourceLanguage, setSourceLanguage] = useState('en-US') // Source language for speech recognition
   const [isDoctor, setIsDoctor] = useState(true)
   const [showSettings, setShowSettings] = useState(false)
+  const [showGlossary, setShowGlossary] = useState(false)
   const [isOnline] = useState(true)
   const [providers] = useState<Provider[]>([
+    { id: 'local', name: 'Local LLM (OpenAI-compatible)', type: 'local', status: 'available' },
+    { id: 'libretranslate', name: 'LibreTranslate (Self-hosted)', type: 'local', status: 'available' },
     { id: 'openai', name: 'OpenAI GPT-3.5', type: 'cloud', status: 'available' },
     { id: 'mymemory', name: 'MyMemory (Free)', type: 'api', status: 'available' },
     { id: 'google', name: 'Google Translate', type: 'cloud', status: 'available' },
     { id: 'deepl', name: 'DeepL (Free Tier)', type: 'cloud', status: 'available' }
   ])
-  const [selectedProvider, setSelectedProvider] = useState('openai')
+  const [selectedProvider, setSelectedProvider] = useState(
+    () => localStorage.getItem('medical_translator_selected_provider') || 'openai'
+  )
   const [apiKeys, setApiKeys] = useState<Record<string, string>>({})
   const [apiKeyNames, setApiKeyNames] = useState<Record<string, string[]>>({})
   const [selectedApiKey, setSelectedApiKey] = useState<string>('')
@@ -78,6 +121,35 @@ function App() {
   const [newApiKeyName, setNewApiKeyName] = useState<string>('')
   const [showApiKeyInput, setShowApiKeyInput] = useState(false)
   const [showApiKeyDropdown, setShowApiKeyDropdown] = useState(false)
+  const [backTranslationEnabled, setBackTranslationEnabled] = useState(
+    () => localStorage.getItem('medical_translator_back_translation') === 'true'
+  )
+  const [consensusMode, setConsensusMode] = useState<ConsensusMode>(
+    () => (localStorage.getItem('medical_translator_consensus') as ConsensusMode) || 'auto'
+  )
+  const [languageDetectionMode, setLanguageDetectionMode] = useState<LanguageDetectionMode>(
+    () => (localStorage.getItem('medical_translator_language_detection') as LanguageDetectionMode) || 'warn'
+  )
+  const [speechEngine, setSpeechEngine] = useState<SpeechEngineId>(
+    () => SpeechEngineService.getInstance().getSelectedEngineId()
+  )
+  const [speechEngineConfig, setSpeechEngineConfig] = useState<ProviderConfig>(
+    () => SpeechEngineService.getInstance().getEngineConfig('whisper')
+  )
+  const [autoRoleEnabled, setAutoRoleEnabled] = useState(
+    () => localStorage.getItem('medical_translator_auto_role') !== 'false'
+  )
+  const [continuousDictation, setContinuousDictation] = useState(
+    () => localStorage.getItem('medical_translator_continuous_dictation') === 'true'
+  )
+  const [providerConfigs, setProviderConfigs] = useState<Record<string, ProviderConfig>>(
+    () => TranslationService.getInstance().getProviderConfigs()
+  )
+  const [providerStatus, setProviderStatus] = useState<Record<string, ProviderStatus>>(
+    () => TranslationService.getInstance().getProviderStatus()
+  )
+  const [streamingMessage, setStreamingMessage] = useState<StreamingMessage | null>(null)
+  const [playback, setPlayback] = useState<PlaybackState>(() => textToSpeech.getState())
   const [manualText, setManualText] = useState<string>('')
   const [showManualInput, setShowManualInput] = useState(false)
   const [messageRatings, setMessageRatings] = useState<Record<string, number>>({})
@@ -90,11 +162,28 @@ function App() {
   
   // Medical extraction state
   const [medicalExtraction, setMedicalExtraction] = useState<MedicalExtraction | null>(null)
+  // Kept apart from the extraction so re-extracting never overwrites what the clinician reviewed
+  const [clinicianReview, setClinicianReview] = useState<FindingReview[]>([])
+  // The messages extraction and the summary read; a back-translation or rating leaves it unchanged, so they don't re-run
+  const [conversation, setConversation] = useState<Message[]>([])
+  if (conversationKey(conversation) !== conversationKey(messages)) {
+    setConversation(messages)
+  }
+  const patientInputs = useMemo(
+    () => MedicalExtractionService.getExtractionInputs(conversation.filter(msg => !msg.isDoctor)),
+    [conversation]
+  )
   // const [showMedicalSummary, setShowMedicalSummary] = useState(false)
   const [aiStatus, setAiStatus] = useState<'active' | 'inactive' | 'checking'>('checking')
+  const reviewedExtraction = useMemo(
+    () => medicalExtraction && applyReview(medicalExtraction, clinicianReview, { patientInputs, aiAssessed: aiStatus === 'active' }),
+    [medicalExtraction, clinicianReview, patientInputs, aiStatus]
+  )
+  const announcedRedFlagsRef = useRef<Set<string>>(new Set())
   const [aiMode, setAiMode] = useState<'basic' | 'ai'>('basic')
   const [activeModel, setActiveModel] = useState<string>('')
   const [showMedicalSummaryModal, setShowMedicalSummaryModal] = useState(false)
+  const [highlightedSource, setHighlightedSource] = useState<FindingSource | null>(null)
   const [showConversationSummaryModal, setShowConversationSummaryModal] = useState(false)
   
   // Real-time conversation summary state
@@ -114,6 +203,14 @@ function App() {
   const [showSaveDialog, setShowSaveDialog] = useState(false)
   const [showLoadDialog, setShowLoadDialog] = useState(false)
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const [showTranslateCaseDialog, setShowTranslateCaseDialog] = useState(false)
+  const [caseTranslationProgress, setCaseTranslationProgress] = useState<Pick<BatchProgress, 'completed' | 'failed' | 'total'> | null>(null)
+  const [isTranslatingCase, setIsTranslatingCase] = useState(false)
+  const caseTranslationAbortRef = useRef<AbortController | null>(null)
+  const [showTranscribeRecordingDialog, setShowTranscribeRecordingDialog] = useState(false)
+  const [recordingStage, setRecordingStage] = useState<'transcribing' | 'translating' | null>(null)
+  const [recordingProgress, setRecordingProgress] = useState<Pick<BatchProgress, 'completed' | 'failed' | 'total'> | null>(null)
+  const recordingAbortRef = useRef<AbortController | null>(null)
   const [saveMode, setSaveMode] = useState<'new' | 'existing'>('new')
   const [newFileName, setNewFileName] = useState('')
   const [selectedFileToOverwrite, setSelectedFileToOverwrite] = useState('')
@@ -125,6 +222,7 @@ function App() {
     timestamp: string
     messages: Message[]
     medicalExtraction: MedicalExtraction | null
+    clinicianReview?: FindingReview[]
     conversationSummary: any
     encrypted?: boolean
     encryptedData?: string
@@ -136,18 +234,6 @@ function App() {
     const currentSourceBase = sourceLanguage.split('-')[0] // e.g., 'en-US' -> 'en'
     const currentTargetBase = currentLanguage // e.g., 'es'
     
-    // Map short codes to full codes for source language
-    const languageToFullCode: Record<string, string> = {
-      'en': 'en-US',
-      'es': 'es-ES', 
-      'pt': 'pt-BR',
-      'fa': 'fa-IR',
-      'ar': 'ar-SA',
-      'zh': 'zh-CN',
-      'fr': 'fr-FR',
-      'de': 'de-DE'
-    }
-    
     // Map full codes to short codes for target language
     const fullCodeToLanguage: Record<string, string> = {
       'en-US': 'en',
@@ -161,7 +247,7 @@ function App() {
     }
     
     // Swap the languages with proper code conversion
-    setSourceLanguage(languageToFullCode[currentTargetBase] || currentTargetBase)
+    setSourceLanguage(SPEECH_LANGUAGE_CODES[currentTargetBase] || currentTargetBase)
     setCurrentLanguage(fullCodeToLanguage[sourceLanguage] || currentSourceBase)
   }
 
@@ -242,14 +328,23 @@ function App() {
 
   // Function to automatically select the best available API key
   const autoSelectApiKey = () => {
+    // A configured local LLM the user chose stays selected; it needs no key
+    const localConfig = providerConfigs.local || {}
+    if (selectedProvider === 'local' && localConfig.baseUrl && localConfig.model) {
+      setActiveModel(`LOCAL (${localConfig.model})`)
+      return true
+    }
+
     const availableProviders = checkApiKeyAvailability()
     if (availableProviders.length > 0) {
-      // Prefer OpenAI, then Google, then others
+      // Keep the chosen provider when it has a key, else prefer OpenAI, then Google, then others
       const preferredOrder = ['openai', 'google', 'deepl', 'mymemory']
-      const bestProvider = preferredOrder.find(provider => availableProviders.includes(provider)) || availableProviders[0]
+      const bestProvider = availableProviders.includes(selectedProvider)
+        ? selectedProvider
+        : preferredOrder.find(provider => availableProviders.includes(provider)) || availableProviders[0]
       
       setSelectedProvider(bestProvider)
-      const firstKeyName = apiKeyNames[bestProvider][0]
+      const firstKeyName = selectedApiKey.startsWith(`${bestProvider}_`) ? selectedApiKey : apiKeyNames[bestProvider][0]
       setSelectedApiKey(firstKeyName)
       setActiveModel(`${bestProvider.toUpperCase()} (${firstKeyName})`)
       
@@ -304,6 +399,7 @@ function App() {
       timestamp: new Date().toISOString(),
       messages: messages,
       medicalExtraction: medicalExtraction,
+      clinicianReview: clinicianReview,
       conversationSummary: conversationSummary
     }
 
@@ -396,6 +492,7 @@ function App() {
         
         setMessages(messagesWithDates)
         setMedicalExtraction(decryptedData.medicalExtraction)
+        setClinicianReview(decryptedData.clinicianReview || [])
         setConversationSummary(decryptedData.conversationSummary)
         setShowLoadDialog(false)
         setSelectedFileToLoad('')
@@ -428,6 +525,7 @@ function App() {
   const clearConversation = () => {
     setMessages([])
     setMedicalExtraction(null)
+    setClinicianReview([])
     setConversationSummary(null)
     setShowHamburgerMenu(false)
     toast.success('Conversation cleared!')
@@ -655,34 +753,52 @@ function App() {
       toast.error(`Input warnings: ${sanitizationResult.warnings.join(', ')}`)
     }
     
-    const translatedText = await translateText(sanitizationResult.sanitized, currentLanguage)
+    const languages = await resolveLanguages(sanitizationResult.sanitized)
+    const translation = await translateText(sanitizationResult.sanitized, languages.target, languages.source)
+    const translatedText = translation.translatedText
     
     const newMessage: Message = {
       id: Date.now().toString(),
       text: sanitizationResult.sanitized,
       translatedText: encodeOutput(translatedText), // Encode output for XSS protection
-      isDoctor,
+      isDoctor: languages.isDoctor,
       timestamp: new Date(),
-      language: currentLanguage
+      language: languages.target,
+      provider: translation.provider,
+      confidence: translation.confidence,
+      medicalTerms: translation.medicalTerms,
+      usedFallback: translation.fallbackUsed,
+      memoryMatch: translation.memoryMatch,
+      memoryEntryId: translation.memoryEntryId,
+      memorySuggestion: translation.memorySuggestion,
+      translationNotes: translation.notes,
+      consensus: translation.consensus,
+      sourceLanguage: languages.source,
+      detectedLanguage: languages.detected,
+      roleAssignment: languages.roleAssignment
     }
     
     setMessages(prev => [...prev, newMessage])
-    playAudio(translatedText)
+
+    if (backTranslationEnabled && !translation.error) {
+      verifyMessageTranslation(newMessage.id, sanitizationResult.sanitized, translatedText, languages.target, languages.source)
+    }
+    playAudio(translatedText, languages.target, newMessage.id)
     
     // Show rating prompt for patient messages
-    if (!isDoctor) {
+    if (!languages.isDoctor) {
       setShowRatingPrompt(newMessage.id)
       toast.success('Translation complete! Please rate the quality below.', { duration: 4000 })
     }
     
     // Announce translation to screen readers
-    ScreenReader.announceTranslation(manualText, translatedText, currentLanguage)
+    ScreenReader.announceTranslation(manualText, translatedText, languages.target)
     
     // Log translation for audit trail
     hipaaCompliance.logAuditEntry('manual_translation', {
-      sourceLanguage: sourceLanguage,
-      targetLanguage: currentLanguage,
-      isDoctor,
+      sourceLanguage: languages.source,
+      targetLanguage: languages.target,
+      isDoctor: languages.isDoctor,
       messageCount: messages.length + 1
     })
     
@@ -690,249 +806,516 @@ function App() {
     setShowManualInput(false)
   }
 
-  // Medical dictionary for common terms (can be expanded)
-  const medicalDictionary: Record<string, Record<string, string>> = {
-    'en': {
-      'headache': 'سردرد',
-      'stomach pain': 'درد معده',
-      'fever': 'تب',
-      'nausea': 'تهوع',
-      'dizziness': 'سرگیجه',
-      'chest pain': 'درد قفسه سینه',
-      'shortness of breath': 'تنگی نفس',
-      'fatigue': 'خستگی',
-      'cough': 'سرفه',
-      'sore throat': 'گلودرد'
-    },
-    'fa': {
-      'سردرد': 'headache',
-      'درد معده': 'stomach pain',
-      'تب': 'fever',
-      'تهوع': 'nausea',
-      'سرگیجه': 'dizziness',
-      'درد قفسه سینه': 'chest pain',
-      'تنگی نفس': 'shortness of breath',
-      'خستگی': 'fatigue',
-      'سرفه': 'cough',
-      'گلودرد': 'sore throat'
-    },
-    'ar': {
-      'صداع': 'headache',
-      'ألم في المعدة': 'stomach pain',
-      'حمى': 'fever',
-      'غثيان': 'nausea',
-      'دوار': 'dizziness',
-      'ألم في الصدر': 'chest pain',
-      'ضيق في التنفس': 'shortness of breath',
-      'إرهاق': 'fatigue',
-      'سعال': 'cough',
-      'التهاب الحلق': 'sore throat'
+  // Languages of each role; the role switcher swaps them, so they follow the current speaker
+  const getRoleLanguages = () => {
+    const speakerLanguage = sourceLanguage.split('-')[0]
+    return isDoctor
+      ? { doctor: speakerLanguage, patient: currentLanguage }
+      : { doctor: currentLanguage, patient: speakerLanguage }
+  }
+
+  // Check the utterance against the source language before translating; assign the speaker, warn or auto-correct
+  const resolveLanguages = async (text: string): Promise<ResolvedUtterance> => {
+    const source = sourceLanguage.split('-')[0]
+    const target = currentLanguage
+    const unverifiedRole = autoRoleEnabled ? 'uncertain' as const : undefined
+    if (languageDetectionMode === 'off' && !autoRoleEnabled) return { source, target, isDoctor }
+
+    const translationService = TranslationService.getInstance()
+    translationService.syncApiKeys(apiKeys, selectedApiKey)
+    const detection = await translationService.detectLanguage(text, selectedProvider)
+    if (!detection || detection.confidence < MIN_DETECTION_CONFIDENCE || !LANGUAGE_NAMES[detection.language]) {
+      return { source, target, isDoctor, roleAssignment: unverifiedRole }
+    }
+    if (detection.language === source) {
+      return { source, target, isDoctor }
+    }
+
+    const detectedName = LANGUAGE_NAMES[detection.language]
+
+    // The other party's language means the other party is speaking
+    if (autoRoleEnabled && detection.language === target) {
+      const speakerIsDoctor = !isDoctor
+      toast(`Detected ${detectedName} - labelled as ${speakerIsDoctor ? 'doctor' : 'patient'}`, { icon: '🔄' })
+      // Listen in their language from now on; dictation keeps its recognizer language
+      if (!isDictating) {
+        switchRole(speakerIsDoctor)
+      }
+      return { source: target, target: source, isDoctor: speakerIsDoctor, roleAssignment: 'auto' }
     }
+
+    if (languageDetectionMode === 'off') {
+      return { source, target, isDoctor, roleAssignment: unverifiedRole }
+    }
+
+    if (languageDetectionMode === 'warn') {
+      toast.error(`This looks like ${detectedName}, not ${LANGUAGE_NAMES[source] || source}. Check the "Speak in" language.`, { duration: 6000 })
+      ScreenReader.announce(`Language mismatch: input looks like ${detectedName}`, 'assertive')
+      return { source, target, isDoctor, detected: detection.language, roleAssignment: unverifiedRole }
+    }
+
+    // The other speaker answering in the target language is translated back into the source language
+    if (detection.language === target) {
+      toast(`Detected ${detectedName} - translating into ${LANGUAGE_NAMES[source] || source}`, { icon: '🔄' })
+      return { source: target, target: source, isDoctor, detected: detection.language }
+    }
+
+    setSourceLanguage(SPEECH_LANGUAGE_CODES[detection.language] || detection.language)
+    toast(`Detected ${detectedName} - source language switched`, { icon: '🔄' })
+    ScreenReader.announce(`Source language switched to ${detectedName}`)
+    return { source: detection.language, target, isDoctor, detected: detection.language, roleAssignment: unverifiedRole }
   }
 
-  // Function to enhance text with medical dictionary
-  const enhanceTextWithMedicalTerms = (text: string, sourceLang: string, targetLang: string): string => {
-    // For now, return the original text without enhancement to prevent duplication
-    // The medical dictionary can be used for validation but not for text enhancement
-    return text
+  // Relabel a message as the other speaker and retranslate it towards the other party
+  const correctMessageRole = async (messageId: string) => {
+    const message = messages.find(m => m.id === messageId)
+    if (!message) return
+
+    const speakerIsDoctor = !message.isDoctor
+    const roleLanguages = getRoleLanguages()
+    const speakerLanguage = speakerIsDoctor ? roleLanguages.doctor : roleLanguages.patient
+    const listenerLanguage = speakerIsDoctor ? roleLanguages.patient : roleLanguages.doctor
+
+    const translation = await translateText(message.text, listenerLanguage, speakerLanguage)
+    setMessages(prev => prev.map(m => m.id === messageId ? {
+      ...m,
+      isDoctor: speakerIsDoctor,
+      translatedText: encodeOutput(translation.translatedText), // Encode output for XSS protection
+      language: listenerLanguage,
+      sourceLanguage: speakerLanguage,
+      provider: translation.provider,
+      confidence: translation.confidence,
+      medicalTerms: translation.medicalTerms,
+      usedFallback: translation.fallbackUsed,
+      memoryMatch: translation.memoryMatch,
+      memoryEntryId: translation.memoryEntryId,
+      memorySuggestion: translation.memorySuggestion,
+      translationNotes: translation.notes,
+      consensus: translation.consensus,
+      roleAssignment: 'corrected',
+      detectedLanguage: undefined,
+      backTranslation: undefined,
+      divergenceScore: undefined,
+      divergenceReasons: undefined
+    } : m))
+
+    if (backTranslationEnabled && !translation.error) {
+      verifyMessageTranslation(messageId, message.text, translation.translatedText, listenerLanguage, speakerLanguage)
+    }
+
+    const role = speakerIsDoctor ? 'doctor' : 'patient'
+    toast.success(`Message relabelled as ${role} and retranslated`)
+    ScreenReader.announce(`Message relabelled as ${role}`)
+    hipaaCompliance.logAuditEntry('message_role_corrected', null, {
+      dataType: 'conversation',
+      severity: 'low',
+      details: { messageId, role, sourceLanguage: speakerLanguage, targetLanguage: listenerLanguage }
+    })
   }
 
-  // Real translation function for MVP - supports OpenAI and free APIs
-  const translateText = async (text: string, targetLang: string): Promise<string> => {
+  // Build a request for the selected provider; self-hosted providers never fall back to the cloud
+  const buildTranslationRequest = (text: string, targetLang: string, sourceLang?: string): TranslationRequest => {
+    // Determine source language from speech recognition unless detection corrected it
+    const sourceLangCode = sourceLang || sourceLanguage.split('-')[0] // e.g., 'fa-IR' -> 'fa'
+    const isSelfHosted = providers.find(p => p.id === selectedProvider)?.type === 'local'
+    
+    return {
+      text,
+      sourceLanguage: sourceLangCode,
+      targetLanguage: targetLang,
+      context: 'medical',
+      provider: selectedProvider as TranslationRequest['provider'],
+      allowFallback: !isSelfHosted
+    }
+  }
+
+  // Translate through TranslationService so every provider shares one fallback chain
+  const translateText = async (text: string, targetLang: string, sourceLang?: string): Promise<TranslationResponse> => {
+    const translationService = TranslationService.getInstance()
+    translationService.syncApiKeys(apiKeys, selectedApiKey)
+    
+    const request = buildTranslationRequest(text, targetLang, sourceLang)
+
+    // Dosages, allergies and consent are cross-checked by several providers
+    const triggers = MedicalExtractionService.detectHighRiskContent(text)
+    const useConsensus = consensusMode === 'always' || (consensusMode === 'auto' && triggers.length > 0)
+    // Stream single-provider translations into a live bubble; consensus results are compared first
+    let result: TranslationResponse
     try {
-      // Determine source language from speech recognition
-      const sourceLangCode = sourceLanguage.split('-')[0] // e.g., 'fa-IR' -> 'fa'
-      
-      // Enhance text with medical dictionary
-      const enhancedText = enhanceTextWithMedicalTerms(text, sourceLangCode, targetLang)
-      
-      // Check if OpenAI API key is available
-      const openaiKey = selectedApiKey ? apiKeys[selectedApiKey] : null
-      
-      if (openaiKey && selectedProvider === 'openai') {
-        // Use OpenAI API for better translation quality
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${openaiKey}`
-          },
-          body: JSON.stringify({
-            model: 'gpt-3.5-turbo',
-            messages: [
-              {
-                role: 'system',
-                content: `You are a medical translator. Translate the following text from ${sourceLangCode} to ${targetLang}. Keep the translation accurate and medical-appropriate.`
-              },
-                              {
-                  role: 'user',
-                  content: enhancedText
-                }
-            ],
-            max_tokens: 150,
-            temperature: 0.3
-          })
+      if (useConsensus) {
+        result = await translationService.translateWithConsensus(request)
+      } else {
+        setStreamingMessage({ text, partialTranslation: '', isDoctor })
+        result = await translationService.translate({
+          ...request,
+          onPartial: partialTranslation => setStreamingMessage({ text, partialTranslation, isDoctor })
         })
-        
-        const data = await response.json()
-        if (data.choices && data.choices[0]) {
-          return data.choices[0].message.content.trim()
-        }
       }
-      
-      if (selectedProvider === 'mymemory') {
-        // Use MyMemory API directly when selected
-        const response = await fetch(`https://api.mymemory.translated.net/get?q=${encodeURIComponent(enhancedText)}&langpair=${sourceLangCode}|${targetLang}`)
-        const data = await response.json()
-        
-        if (data.responseStatus === 200) {
-          return data.responseData.translatedText
-        }
-      }
-      
-      if (selectedProvider === 'google' && selectedApiKey && apiKeys[selectedApiKey]) {
-        // Use Google Translate API
-        try {
-          const response = await fetch(`https://translation.googleapis.com/language/translate/v2?key=${apiKeys[selectedApiKey]}`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              q: enhancedText,
-              source: sourceLangCode,
-              target: targetLang,
-              format: 'text'
-            })
-          })
-          
-          const data = await response.json()
-          if (data.data && data.data.translations && data.data.translations[0]) {
-            return data.data.translations[0].translatedText
+    } finally {
+      setStreamingMessage(null)
+    }
+    setProviderStatus(translationService.getProviderStatus())
+    
+    if (result.consensus) {
+      result.consensus = { ...result.consensus, triggers }
+    }
+    
+    if (result.error) {
+      console.error('Translation error:', result.error)
+      toast.error('Translation failed. Showing original text.')
+    } else if (result.consensus && result.consensus.agreement < LOW_AGREEMENT_THRESHOLD) {
+      toast.error('Translation providers disagree - review the alternatives before relying on this message', { duration: 6000 })
+      ScreenReader.announce('Translation providers disagree. Review the alternatives.', 'assertive')
+    } else if (result.fallbackUsed && !result.consensus) {
+      toast(`Translated with fallback provider: ${result.provider}`, { icon: '⚠️' })
+    }
+    
+    return result
+  }
+
+  // Back-translate a message and attach its divergence score once the result arrives
+  const verifyMessageTranslation = async (
+    messageId: string,
+    text: string,
+    translatedText: string,
+    targetLang: string,
+    sourceLang?: string
+  ) => {
+    const verification = await TranslationService.getInstance().verifyTranslation(
+      buildTranslationRequest(text, targetLang, sourceLang),
+      translatedText
+    )
+    if (!verification) return
+    
+    const { score, reasons } = verification.divergence
+    setMessages(prev => prev.map(message =>
+      message.id === messageId
+        ? {
+            ...message,
+            backTranslation: encodeOutput(verification.backTranslation),
+            divergenceScore: score,
+            divergenceReasons: reasons
           }
-        } catch (error) {
-          console.error('Google Translate API error:', error)
-        }
+        : message
+    ))
+    
+    if (score >= HIGH_DIVERGENCE_THRESHOLD) {
+      toast.error('Possible mistranslation - verify with patient', { duration: 6000 })
+      ScreenReader.announce('Possible mistranslation detected. Please verify with the patient.', 'assertive')
+    }
+  }
+
+  // Translate the whole conversation into another language (e.g. for a family member) and download it
+  const translateCase = async (targetLang: string) => {
+    if (messages.length === 0) return
+
+    const translationService = TranslationService.getInstance()
+    translationService.syncApiKeys(apiKeys, selectedApiKey)
+    const controller = new AbortController()
+    caseTranslationAbortRef.current = controller
+    setIsTranslatingCase(true)
+    setCaseTranslationProgress({ completed: 0, failed: 0, total: messages.length })
+
+    try {
+      const requests = messages.map(message => ({
+        ...buildTranslationRequest(message.text, targetLang),
+        sourceLanguage: message.sourceLanguage || sourceLanguage.split('-')[0]
+      }))
+      const results = await translationService.batchTranslate(requests, {
+        signal: controller.signal,
+        onProgress: setCaseTranslationProgress
+      })
+      setProviderStatus(translationService.getProviderStatus())
+
+      const failed = results.filter(result => result.error).length
+      const transcript = messages.map((message, index) =>
+        `[${message.timestamp.toLocaleTimeString()}] ${message.isDoctor ? 'Doctor' : 'Patient'}: ${results[index].translatedText}`
+      ).join('\n')
+
+      const url = URL.createObjectURL(new Blob([transcript], { type: 'text/plain;charset=utf-8' }))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `conversation-${targetLang}.txt`
+      link.click()
+      URL.revokeObjectURL(url)
+
+      hipaaCompliance.logAuditEntry('case_translated', null, {
+        dataType: 'conversation',
+        severity: 'medium',
+        details: { targetLanguage: targetLang, messageCount: messages.length, failed }
+      })
+
+      if (controller.signal.aborted) {
+        toast('Case translation cancelled - untranslated messages kept in the original language', { icon: '⚠️' })
+      } else if (failed > 0) {
+        toast.error(`${failed} of ${messages.length} messages could not be translated`)
+      } else {
+        toast.success('Case translated')
+        setShowTranslateCaseDialog(false)
       }
-      
-      if (selectedProvider === 'deepl' && selectedApiKey && apiKeys[selectedApiKey]) {
-        // Use DeepL API
+    } finally {
+      caseTranslationAbortRef.current = null
+      setIsTranslatingCase(false)
+    }
+  }
+
+  // Transcribe an uploaded consult recording and load it as the conversation
+  const transcribeRecording = async (file: File, recordingLanguage: string, speakers: RecordingSpeakers) => {
+    const speechEngines = SpeechEngineService.getInstance()
+    if (!speechEngines.getEngineConfig('whisper').baseUrl) {
+      toast.error('Set up a Whisper server under Settings → Speech Recognition to transcribe recordings')
+      return
+    }
+    if (messages.length > 0 && !window.confirm('Replace the current conversation with the transcribed recording?')) {
+      return
+    }
+
+    const translationService = TranslationService.getInstance()
+    translationService.syncApiKeys(apiKeys, selectedApiKey)
+    const controller = new AbortController()
+    recordingAbortRef.current = controller
+    setRecordingStage('transcribing')
+    setRecordingProgress(null)
+
+    try {
+      const utterances = groupUtterances(await speechEngines.transcribeRecording(file, recordingLanguage, controller.signal))
+        .map(utterance => ({ ...utterance, sanitization: sanitizeInput(utterance.text) }))
+        .filter(utterance => utterance.sanitization.isValid && utterance.sanitization.sanitized)
+      if (utterances.length === 0) {
+        toast.error('No speech found in the recording')
+        return
+      }
+
+      // Speakers decide the translation direction, so assign them first
+      const roleLanguages = getRoleLanguages()
+      const detectedLanguages = utterances.map(utterance => {
+        const detection = detectLanguageOffline(utterance.sanitization.sanitized)
+        return detection && detection.confidence >= MIN_DETECTION_CONFIDENCE ? detection.language : null
+      })
+      let clusters: SpeakerClusters | undefined
+      if (speakers === 'voice') {
         try {
-          const response = await fetch('https://api-free.deepl.com/v2/translate', {
-            method: 'POST',
-            headers: {
-              'Authorization': `DeepL-Auth-Key ${apiKeys[selectedApiKey]}`,
-              'Content-Type': 'application/x-www-form-urlencoded',
-            },
-            body: new URLSearchParams({
-              text: enhancedText,
-              source_lang: sourceLangCode.toUpperCase(),
-              target_lang: targetLang.toUpperCase()
-            })
-          })
-          
-          const data = await response.json()
-          if (data.translations && data.translations[0]) {
-            return data.translations[0].text
-          }
+          clusters = clusterSpeakers(await extractVoiceFeatures(file, utterances))
         } catch (error) {
-          console.error('DeepL API error:', error)
+          console.error('Voice analysis failed:', error)
+          toast.error('Could not analyze voices in this file - assigning speakers by language')
         }
       }
-      
-      // Fallback to MyMemory API if no specific provider selected or API key missing
-      const response = await fetch(`https://api.mymemory.translated.net/get?q=${encodeURIComponent(enhancedText)}&langpair=${sourceLangCode}|${targetLang}`)
-      const data = await response.json()
-      
-      if (data.responseStatus === 200) {
-        return data.responseData.translatedText
-      } else {
-        // Fallback to mock translations for demo
-        const mockTranslations: Record<string, Record<string, string>> = {
-          'en': {
-            'سلام': 'Hello',
-            'چطوری': 'How are you?',
-            'درد دارم': 'I have pain',
-            'سردرد دارم': 'I have a headache',
-            'دلم درد می‌کند': 'My stomach hurts',
-            'احساس سرگیجه می‌کنم': 'I feel dizzy'
-          },
-          'es': {
-            'Hello, how are you feeling today?': 'Hola, ¿cómo se siente hoy?',
-            'Do you have any pain?': '¿Tiene algún dolor?',
-            'Where does it hurt?': '¿Dónde le duele?',
-            'I have a headache': 'Tengo dolor de cabeza',
-            'My stomach hurts': 'Me duele el estómago',
-            'I feel dizzy': 'Me siento mareado',
-            'سلام': 'Hola',
-            'چطوری': '¿Cómo estás?',
-            'درد دارم': 'Tengo dolor',
-            'سردرد دارم': 'Tengo dolor de cabeza',
-            'دلم درد می‌کند': 'Me duele el estómago',
-            'احساس سرگیجه می‌کنم': 'Me siento mareado'
-          },
-          'pt': {
-            'Hello, how are you feeling today?': 'Olá, como você está se sentindo hoje?',
-            'Do you have any pain?': 'Você tem alguma dor?',
-            'Where does it hurt?': 'Onde dói?',
-            'I have a headache': 'Tenho dor de cabeça',
-            'My stomach hurts': 'Meu estômago dói',
-            'I feel dizzy': 'Estou tonto',
-            'سلام': 'Olá',
-            'چطوری': 'Como você está?',
-            'درد دارم': 'Tenho dor',
-            'سردرد دارم': 'Tenho dor de cabeça',
-            'دلم درد می‌کند': 'Meu estômago dói',
-            'احساس سرگیجه می‌کنم': 'Estou tonto'
-          },
-          'fa': {
-            'Hello, how are you feeling today?': 'سلام، امروز چه احساسی دارید؟',
-            'Do you have any pain?': 'آیا درد دارید؟',
-            'Where does it hurt?': 'کجا درد می‌کند؟',
-            'I have a headache': 'سردرد دارم',
-            'My stomach hurts': 'دلم درد می‌کند',
-            'I feel dizzy': 'احساس سرگیجه می‌کنم'
-          },
-          'ar': {
-            'Hello, how are you feeling today?': 'مرحباً، كيف تشعر اليوم؟',
-            'Do you have any pain?': 'هل تشعر بأي ألم؟',
-            'Where does it hurt?': 'أين يؤلمك؟',
-            'I have a headache': 'لدي صداع',
-            'My stomach hurts': 'بطني تؤلمني',
-            'I feel dizzy': 'أشعر بالدوار',
-            'سلام': 'مرحباً',
-            'چطوری': 'كيف حالك؟',
-            'درد دارم': 'لدي ألم',
-            'سردرد دارم': 'لدي صداع',
-            'دلم درد می‌کند': 'بطني تؤلمني',
-            'احساس سرگیجه می‌کنم': 'أشعر بالدوار'
-          },
-          'zh': {
-            'Hello, how are you feeling today?': '你好，今天感觉怎么样？',
-            'Do you have any pain?': '你有疼痛吗？',
-            'Where does it hurt?': '哪里疼？',
-            'I have a headache': '我头痛',
-            'My stomach hurts': '我胃痛',
-            'I feel dizzy': '我感觉头晕',
-            'سلام': '你好',
-            'چطوری': '你好吗？',
-            'درد دارم': '我疼',
-            'سردرد دارم': '我头痛',
-            'دلم درد می‌کند': '我胃痛',
-            'احساس سرگیجه می‌کنم': '我感觉头晕'
-          }
+      const assignments = assignSpeakers(utterances, detectedLanguages, speakers, roleLanguages, clusters)
+      const directions = assignments.map((assignment, index) => {
+        const speakerLanguage = assignment.isDoctor ? roleLanguages.doctor : roleLanguages.patient
+        const listenerLanguage = assignment.isDoctor ? roleLanguages.patient : roleLanguages.doctor
+        const source = detectedLanguages[index] || recordingLanguage || speakerLanguage
+        return { source, target: source === listenerLanguage ? speakerLanguage : listenerLanguage }
+      })
+
+      setRecordingStage('translating')
+      setRecordingProgress({ completed: 0, failed: 0, total: utterances.length })
+      const results = await translationService.batchTranslate(
+        utterances.map((utterance, index) => buildTranslationRequest(utterance.sanitization.sanitized, directions[index].target, directions[index].source)),
+        { signal: controller.signal, onProgress: setRecordingProgress }
+      )
+      setProviderStatus(translationService.getProviderStatus())
+      if (controller.signal.aborted) {
+        toast('Recording import cancelled', { icon: '⚠️' })
+        return
+      }
+
+      // The file was saved when the recording ended
+      const recordedAt = file.lastModified - utterances[utterances.length - 1].end * 1000
+      const recordingMessages: Message[] = utterances.map((utterance, index) => {
+        const translation = results[index]
+        const assignment = assignments[index]
+
+        return {
+          id: `${Date.now()}-${index}`,
+          text: utterance.sanitization.sanitized,
+          translatedText: encodeOutput(translation.translatedText), // Encode output for XSS protection
+          isDoctor: assignment.isDoctor,
+          timestamp: new Date(recordedAt + utterance.start * 1000),
+          language: directions[index].target,
+          provider: translation.provider,
+          confidence: translation.confidence,
+          medicalTerms: translation.medicalTerms,
+          usedFallback: translation.fallbackUsed,
+          memoryMatch: translation.memoryMatch,
+          memoryEntryId: translation.memoryEntryId,
+          memorySuggestion: translation.memorySuggestion,
+          translationNotes: translation.notes,
+          sourceLanguage: directions[index].source,
+          roleAssignment: assignment.method === 'manual' ? undefined : assignment.uncertain ? 'uncertain' : 'auto'
         }
-        return mockTranslations[targetLang]?.[text] || `[Translated: ${text}]`
+      })
+
+      setMessages(recordingMessages)
+      setMedicalExtraction(null)
+      setClinicianReview([])
+      setConversationSummary(null)
+      setShowTranscribeRecordingDialog(false)
+
+      const failed = results.filter(result => result.error).length
+      hipaaCompliance.logAuditEntry('recording_transcribed', null, {
+        dataType: 'conversation',
+        severity: 'medium',
+        details: { sourceLanguage: recordingLanguage || 'auto', speakers, messageCount: recordingMessages.length, failed }
+      })
+
+      if (failed > 0) {
+        toast.error(`Recording loaded - ${failed} of ${recordingMessages.length} utterances could not be translated`)
+      } else {
+        toast.success(`Recording loaded as ${recordingMessages.length} messages`)
       }
     } catch (error) {
-      console.error('Translation error:', error)
-      toast.error('Translation failed. Using fallback.')
-      return `[Translated: ${text}]`
+      if (controller.signal.aborted) {
+        toast('Recording import cancelled', { icon: '⚠️' })
+        return
+      }
+      console.error('Error transcribing recording:', error)
+      toast.error(error instanceof SpeechEngineError ? getSpeechErrorMessage(error, recordingLanguage) : 'Failed to transcribe recording')
+      hipaaCompliance.logAuditEntry('recording_transcription_failed', null, {
+        dataType: 'conversation',
+        severity: 'medium',
+        success: false,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      })
+    } finally {
+      recordingAbortRef.current = null
+      setRecordingStage(null)
     }
   }
 
-  // Store the current recognition instance for cancellation
-  const recognitionRef = useRef<any>(null)
+  // Translate one recognized utterance and add it to the conversation
+  const processTranscript = async (transcript: string, autoPlay = true) => {
+    // Sanitize speech input for security
+    const sanitizationResult = sanitizeInput(transcript)
+
+    if (!sanitizationResult.isValid) {
+      toast.error(`Invalid speech input: ${sanitizationResult.warnings.join(', ')}`)
+      return
+    }
+
+    if (sanitizationResult.warnings.length > 0) {
+      toast.error(`Speech input warnings: ${sanitizationResult.warnings.join(', ')}`)
+    }
+
+    // Translate the sanitized transcript
+    const languages = await resolveLanguages(sanitizationResult.sanitized)
+    const translation = await translateText(sanitizationResult.sanitized, languages.target, languages.source)
+    const translatedText = translation.translatedText
+
+    // Add message to conversation
+    const newMessage: Message = {
+      id: Date.now().toString(),
+      text: sanitizationResult.sanitized,
+      translatedText: encodeOutput(translatedText), // Encode output for XSS protection
+      isDoctor: languages.isDoctor,
+      timestamp: new Date(),
+      language: languages.target,
+      provider: translation.provider,
+      confidence: translation.confidence,
+      medicalTerms: translation.medicalTerms,
+      usedFallback: translation.fallbackUsed,
+      memoryMatch: translation.memoryMatch,
+      memoryEntryId: translation.memoryEntryId,
+      memorySuggestion: translation.memorySuggestion,
+      translationNotes: translation.notes,
+      consensus: translation.consensus,
+      sourceLanguage: languages.source,
+      detectedLanguage: languages.detected,
+      roleAssignment: languages.roleAssignment
+    }
+
+    setMessages(prev => [...prev, newMessage])
+
+    if (backTranslationEnabled && !translation.error) {
+      verifyMessageTranslation(newMessage.id, sanitizationResult.sanitized, translatedText, languages.target, languages.source)
+    }
+
+    // Auto-play the translated text
+    if (autoPlay) {
+      playAudio(translatedText, languages.target, newMessage.id)
+    }
+
+    // Show rating prompt for patient messages
+    if (!languages.isDoctor) {
+      setShowRatingPrompt(newMessage.id)
+      toast.success('Translation complete! Please rate the quality below.', { duration: 4000 })
+    }
+
+    // Announce translation to screen readers
+    ScreenReader.announceTranslation(sanitizationResult.sanitized, translatedText, languages.target)
+
+    // Log speech translation for audit trail
+    hipaaCompliance.logAuditEntry('speech_translation', {
+      sourceLanguage: languages.source,
+      targetLanguage: languages.target,
+      isDoctor: languages.isDoctor,
+      messageCount: messages.length + 1
+    })
+  }
+
+  // Continuous dictation - each finalized segment becomes its own message
+  const { isDictating, interimTranscript, startDictation, stopDictation } = useSpeechRecognition()
+  const processTranscriptRef = useRef(processTranscript)
+  const transcriptQueueRef = useRef<Promise<void>>(Promise.resolve())
+
+  useEffect(() => {
+    processTranscriptRef.current = processTranscript
+  })
+
+  const toggleDictation = useCallback(() => {
+    if (isDictating) {
+      stopDictation()
+      return
+    }
+
+    startDictation(sourceLanguage, (segment) => {
+      // Translate segments in order, even when the speaker outpaces the provider
+      transcriptQueueRef.current = transcriptQueueRef.current
+        .then(() => processTranscriptRef.current(segment, false)) // Playback would be picked up by the open mic
+        .catch(error => console.error('Failed to process dictated segment:', error))
+    })
+    toast.success(`Dictating in ${sourceLanguage}... Say "${STOP_PHRASES[sourceLanguage.split('-')[0]] || STOP_PHRASES.en}" or press Space to stop`)
+  }, [isDictating, sourceLanguage, startDictation, stopDictation])
+
+  // The recognizer is bound to one language, so stop when it changes
+  useEffect(() => {
+    stopDictation()
+  }, [sourceLanguage, stopDictation])
+
+  // Space toggles dictation hands-free, except while typing or on focused controls
+  useEffect(() => {
+    if (!continuousDictation) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || event.repeat) return
+      const target = event.target as HTMLElement | null
+      if (target?.closest('input, textarea, select, button, [contenteditable="true"]')) return
+
+      event.preventDefault()
+      toggleDictation()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [continuousDictation, toggleDictation])
+
+  const changeContinuousDictation = (enabled: boolean) => {
+    if (!enabled) stopDictation()
+    setContinuousDictation(enabled)
+    localStorage.setItem('medical_translator_continuous_dictation', String(enabled))
+  }
+
+  const handleMicClick = () => {
+    if (continuousDictation) {
+      toggleDictation()
+    } else {
+      startRecording()
+    }
+  }
+
+  // Store the current recognition session for cancellation
+  const recognitionRef = useRef<SpeechSession | null>(null)
 
   const startRecording = async () => {
     try {
@@ -942,30 +1325,23 @@ function App() {
         return
       }
 
-      // Start new recording
-      if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
-        const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition
-        const recognition = new SpeechRecognition()
-        
-        recognition.lang = sourceLanguage
-        recognition.continuous = false
-        recognition.interimResults = false
-        
-        // Store reference for cancellation
-        recognitionRef.current = recognition
-        
-        recognition.onstart = () => {
+      // Start new recording with the configured speech-to-text engine
+      const engine = SpeechEngineService.getInstance().getEngine()
+      if (!engine.isSupported()) {
+        toast.error(`${engine.name} is not supported in this browser`)
+        return
+      }
+
+      recognitionRef.current = engine.start({ language: sourceLanguage, continuous: false }, {
+        onStart: () => {
           setIsRecording(true)
           toast.success(`Listening in ${sourceLanguage}... Click mic again to stop!`)
-          console.log('Speech recognition started with language:', sourceLanguage)
+          console.log('Speech recognition started with language:', sourceLanguage, 'engine:', engine.id)
           
           // Announce recording status to screen readers
           ScreenReader.announceRecordingStatus(true, sourceLanguage)
-        }
-        
-        recognition.onresult = async (event: any) => {
-          const transcript = event.results[0][0].transcript
-          
+        },
+        onFinal: async (transcript) => {
           console.log('Transcript:', transcript)
           
           setIsRecording(false)
@@ -973,86 +1349,23 @@ function App() {
           toast.dismiss()
           
           toast.success('Processing audio...')
-          
-          // Sanitize speech input for security
-          const sanitizationResult = sanitizeInput(transcript)
-          
-          if (!sanitizationResult.isValid) {
-            toast.error(`Invalid speech input: ${sanitizationResult.warnings.join(', ')}`)
-            return
-          }
-          
-          if (sanitizationResult.warnings.length > 0) {
-            toast.error(`Speech input warnings: ${sanitizationResult.warnings.join(', ')}`)
-          }
-          
-          // Translate the sanitized transcript
-          const translatedText = await translateText(sanitizationResult.sanitized, currentLanguage)
-          
-          // Add message to conversation
-          const newMessage: Message = {
-            id: Date.now().toString(),
-            text: sanitizationResult.sanitized,
-            translatedText: encodeOutput(translatedText), // Encode output for XSS protection
-            isDoctor,
-            timestamp: new Date(),
-            language: currentLanguage
-          }
-          
-          setMessages(prev => [...prev, newMessage])
-          
-          // Auto-play the translated text
-          playAudio(translatedText)
-          
-          // Show rating prompt for patient messages
-          if (!isDoctor) {
-            setShowRatingPrompt(newMessage.id)
-            toast.success('Translation complete! Please rate the quality below.', { duration: 4000 })
-          }
-          
-          // Announce translation to screen readers
-          ScreenReader.announceTranslation(sanitizationResult.sanitized, translatedText, currentLanguage)
-          
-          // Log speech translation for audit trail
-          hipaaCompliance.logAuditEntry('speech_translation', {
-            sourceLanguage: sourceLanguage,
-            targetLanguage: currentLanguage,
-            isDoctor,
-            messageCount: messages.length + 1
-          })
-        }
-        
-        recognition.onerror = (event: any) => {
+          await processTranscript(transcript)
+        },
+        onError: (error) => {
           setIsRecording(false)
           recognitionRef.current = null
           toast.dismiss()
-          const errorMessages: Record<string, string> = {
-            'no-speech': 'No speech detected. Please speak clearly.',
-            'audio-capture': 'Microphone access denied. Please allow microphone access.',
-            'not-allowed': 'Microphone access denied. Please allow microphone access.',
-            'network': 'Network error. Please check your connection.',
-            'service-not-allowed': 'Speech recognition not available in this browser.',
-            'bad-grammar': 'Speech recognition error. Please try again.',
-            'language-not-supported': `Speech recognition not supported for ${sourceLanguage}. Try switching to English.`
-          }
-          const errorMsg = errorMessages[event.error] || 'Speech recognition failed. Please try again.'
-          toast.error(errorMsg)
-          console.error('Speech recognition error:', event.error)
-        }
-        
-        recognition.onend = () => {
+          toast.error(getSpeechErrorMessage(error, sourceLanguage))
+          console.error('Speech recognition error:', error.code, error.message)
+        },
+        onEnd: () => {
           setIsRecording(false)
           recognitionRef.current = null
           
           // Announce recording stopped to screen readers
           ScreenReader.announceRecordingStatus(false, sourceLanguage)
         }
-        
-        recognition.start()
-        
-      } else {
-        toast.error('Speech recognition not supported in this browser')
-      }
+      })
       
     } catch (error) {
       console.error('Error starting speech recognition:', error)
@@ -1066,40 +1379,20 @@ function App() {
 
     // Removed processAudio function - now using direct speech recognition
 
-  const playAudio = (text: string) => {
-    if ('speechSynthesis' in window) {
-      // Cancel any ongoing speech synthesis to prevent conflicts
-      speechSynthesis.cancel()
-      
-      const utterance = new SpeechSynthesisUtterance(text)
-      const languageMap: Record<string, string> = {
-        'es': 'es-ES',
-        'pt': 'pt-BR',
-        'fa': 'fa-IR',
-        'ar': 'ar-SA',
-        'zh': 'zh-CN',
-        'fr': 'fr-FR',
-        'de': 'de-DE'
-      }
-      utterance.lang = languageMap[currentLanguage] || 'en-US'
-      utterance.rate = 0.9
-      
-      // Add error handling and logging
-      utterance.onerror = (event) => {
-        console.error('Speech synthesis error:', event)
-      }
-      
-      utterance.onend = () => {
-        console.log('Speech synthesis completed for text:', text.substring(0, 50) + '...')
-      }
-      
-      speechSynthesis.speak(utterance)
-      console.log('Playing audio for text:', text.substring(0, 50) + '...', 'Language:', utterance.lang)
-    }
+  // Read a translation aloud now, in the language it was translated into
+  const playAudio = (text: string, language: string = currentLanguage, messageId?: string) => {
+    textToSpeech.speak(text, language, messageId)
+  }
+
+  // Read every translation in order
+  const readConversation = () => {
+    textToSpeech.stop()
+    messages.forEach(message => textToSpeech.enqueue(decodeOutput(message.translatedText), message.language, message.id))
   }
 
   const clearMessages = () => {
     setMessages([])
+    setClinicianReview([])
     setMessageRatings({})
     setShowRatingPrompt(null)
     toast.success('Conversation cleared')
@@ -1114,6 +1407,13 @@ function App() {
   const handleRating = (messageId: string, rating: number) => {
     setMessageRatings(prev => ({ ...prev, [messageId]: rating }))
     
+    // Feed the rating back into the translation memory so well-rated entries are preferred
+    const ratedMessage = messages.find(msg => msg.id === messageId)
+    if (ratedMessage?.memoryEntryId) {
+      translationMemory.recordRating(ratedMessage.memoryEntryId, rating, ratedMessage.rating)
+        .catch(error => console.warn('Failed to record rating in translation memory:', error))
+    }
+    
     // Update message with rating
     setMessages(prev => prev.map(msg => 
       msg.id === messageId 
@@ -1155,6 +1455,22 @@ function App() {
   // Check AI availability
   const checkAiAvailability = useCallback(async () => {
     try {
+      // A configured local LLM runs summaries and extraction on-site, so PHI never leaves the network
+      if (selectedProvider === 'local') {
+        const localConfig = providerConfigs.local || {}
+        if (localConfig.baseUrl && localConfig.model) {
+          // Only a local_* key goes to the LAN server, as in TranslationService.syncApiKeys; never a cloud key
+          const localKeyName = selectedApiKey.startsWith('local_')
+            ? selectedApiKey
+            : Object.keys(apiKeys).find(keyName => keyName.startsWith('local_'))
+          AIService.getInstance().initialize(localKeyName ? apiKeys[localKeyName] || '' : '', localConfig)
+          setAiStatus('active')
+        } else {
+          setAiStatus('inactive')
+        }
+        return
+      }
+
       // Check if selected provider is a cloud model that supports AI
       const cloudProviders = ['openai', 'google', 'deepl']
       const isCloudProvider = cloudProviders.includes(selectedProvider)
@@ -1168,6 +1484,7 @@ function App() {
       const hasApiKey = selectedApiKey && apiKeys[selectedApiKey] && apiKeys[selectedApiKey].trim() !== ''
       
       if (hasApiKey) {
+        AIService.getInstance().initialize(apiKeys[selectedApiKey])
         setAiStatus('active')
       } else {
         setAiStatus('inactive')
@@ -1176,20 +1493,36 @@ function App() {
       console.error('Error checking AI availability:', error)
       setAiStatus('inactive')
     }
-  }, [apiKeys, selectedProvider, selectedApiKey])
+  }, [apiKeys, selectedProvider, selectedApiKey, providerConfigs])
 
   // Update AI status when API keys or provider changes
   useEffect(() => {
     checkAiAvailability()
   }, [checkAiAvailability])
 
-  // Real-time conversation summary with AI
-  const generateConversationSummary = async (messages: Message[]) => {
+  // Follow the playback queue to show which message is being read
+  useEffect(() => textToSpeech.subscribe(setPlayback), [])
+
+  // Refresh provider health so breakers re-close in the UI after their cooldown
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setProviderStatus(TranslationService.getInstance().getProviderStatus())
+    }, 10000)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Real-time conversation summary with AI; onPartial receives the summary parsed so far while it streams
+  const generateConversationSummary = async (
+    messages: Message[],
+    onPartial?: (summary: NonNullable<typeof conversationSummary>) => void,
+    signal?: AbortSignal
+  ) => {
     try {
-      if (!selectedApiKey || !apiKeys[selectedApiKey]) {
+      if (aiStatus !== 'active') {
         return null
       }
 
+      const aiService = AIService.getInstance()
       const conversationText = messages.map(msg => `${msg.isDoctor ? 'Doctor' : 'Patient'}: ${msg.text}`).join('\n')
 
       // Detect doctor's language based on current role
@@ -1238,55 +1571,45 @@ Provide a focused, actionable summary for clinical decision-making in ${doctorLa
       hipaaCompliance.logAuditEntry('ai_summary_request', { messageCount: messages.length, doctorLanguage }, {
         dataType: 'summary',
         severity: 'medium',
-        details: { provider: selectedProvider, model: 'gpt-3.5-turbo' }
+        details: { provider: selectedProvider, model: aiService.getModel() }
       })
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKeys[selectedApiKey]}`
-        },
-        body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
-          messages: [
-            { role: 'system', content: 'You are a medical AI assistant specializing in real-time conversation analysis.' },
-            { role: 'user', content: summaryPrompt }
-          ],
-          temperature: 0.2,
-          max_tokens: 800
-        })
-      })
+      // Parse AI response; partial reads JSON that is still streaming
+      const toSummary = (content: string, partial = false) => {
+        const summary = partial ? parsePartialJson(content) : JSON.parse(content)
+        if (!summary) return null
+
+        return {
+          keyPoints: summary.keyPoints || [],
+          medicalFindings: summary.medicalFindings || [],
+          recommendations: summary.recommendations || [],
+          urgency: summary.urgency || 'routine',
+          nextSteps: summary.nextSteps || [],
+          confidence: summary.confidence || 0.7,
+          lastUpdated: new Date()
+        }
+      }
 
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.error('AI summary generation failed:', response.status, errorText)
-        
-        // Log AI failure for audit
-        hipaaCompliance.logAuditEntry('ai_summary_failed', null, {
-          dataType: 'summary',
-          severity: 'high',
-          success: false,
-          errorMessage: `HTTP ${response.status}: ${errorText}`
+      let parsedLines = 0
+      const aiResponse = await aiService.complete([
+        { role: 'system', content: 'You are a medical AI assistant specializing in real-time conversation analysis.' },
+        { role: 'user', content: summaryPrompt }
+      ], {
+        temperature: 0.2,
+        maxTokens: 800,
+        signal,
+        onContent: onPartial && (content => {
+          const lines = content.split('\n').length - 1
+          if (lines <= parsedLines) return
+          parsedLines = lines
+          const partial = toSummary(content, true)
+          if (partial) onPartial(partial)
         })
-        
-        throw new Error(`AI summary generation failed: ${response.status}`)
-      }
+      })
 
-      const data = await response.json()
-      const aiResponse = data.choices[0].message.content.trim()
-      
-      // Parse AI response
-      const summary = JSON.parse(aiResponse)
-      
-      const result = {
-        keyPoints: summary.keyPoints || [],
-        medicalFindings: summary.medicalFindings || [],
-        recommendations: summary.recommendations || [],
-        urgency: summary.urgency || 'routine',
-        nextSteps: summary.nextSteps || [],
-        confidence: summary.confidence || 0.7,
-        lastUpdated: new Date()
+      const result = toSummary(aiResponse)
+      if (!result) {
+        throw new Error('AI summary returned no data')
       }
 
       // Log successful AI response for audit
@@ -1298,6 +1621,8 @@ Provide a focused, actionable summary for clinical decision-making in ${doctorLa
       
       return result
     } catch (error) {
+      // Superseded by a newer run, not a failure
+      if (signal?.aborted) return null
       console.error('AI conversation summary failed:', error)
       
       // Log AI error for audit
@@ -1316,8 +1641,13 @@ Provide a focused, actionable summary for clinical decision-making in ${doctorLa
     }
   }
 
-  // AI-powered medical extraction
-    const extractMedicalWithAI = async (messages: Message[]) => {
+  // AI-powered medical extraction; onPartial receives the extraction parsed so far while it streams.
+  // Returns null when the signal aborts it
+  const extractMedicalWithAI = async (
+    messages: Message[],
+    onPartial?: (extraction: MedicalExtraction) => void,
+    signal?: AbortSignal
+  ): Promise<MedicalExtraction | null> => {
     try {
       const conversationText = messages.map(msg => `${msg.isDoctor ? 'Doctor' : 'Patient'}: ${msg.text}`).join('\n')
 
@@ -1371,7 +1701,7 @@ Provide a focused, actionable summary for clinical decision-making in ${doctorLa
   },
   "currentSituation": {
     "chiefComplaint": "primary reason for current visit",
-    "presentingSymptoms": ["current symptoms that brought patient in"],
+    "presentingSymptoms": ["current symptoms that brought patient in, excluding any the patient denies"],
     "acuteIssues": ["new or worsening problems"],
     "recentChanges": ["recent changes in health status"],
     "painLevel": number (1-10 scale, 0 if no pain mentioned),
@@ -1431,113 +1761,116 @@ Return a comprehensive JSON object with all medical information intelligently ca
       console.log('📝 Analysis Prompt:', analysisPrompt)
       console.log('💬 Conversation:', conversationText)
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKeys[selectedApiKey]}`
-        },
-        body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: analysisPrompt }
-          ],
-          temperature: 0.1,
-          max_tokens: 1500
+      // Map the response JSON onto the extraction; partial reads JSON that is still streaming
+      const toMedicalExtraction = (content: string, partial = false): MedicalExtraction | null => {
+        const extraction = partial ? parsePartialJson(content) : JSON.parse(content)
+        if (!extraction) return null
+
+        // Process intelligently categorized response
+        return {
+          // Legacy fields for backward compatibility
+          painLevel: Math.min(Math.max(extraction.currentSituation?.painLevel || extraction.painLevel || 0, 0), 10),
+          symptoms: Array.isArray(extraction.currentSituation?.presentingSymptoms) ? extraction.currentSituation.presentingSymptoms : (Array.isArray(extraction.symptoms) ? extraction.symptoms : []),
+          medications: Array.isArray(extraction.ongoingCare?.medications) ? extraction.ongoingCare.medications : (Array.isArray(extraction.medications) ? extraction.medications : []),
+          medicalHistory: {
+            conditions: Array.isArray(extraction.patientBackground?.chronicConditions) ? extraction.patientBackground.chronicConditions : (Array.isArray(extraction.medicalHistory?.conditions) ? extraction.medicalHistory.conditions : []),
+            surgeries: Array.isArray(extraction.patientBackground?.pastMedicalHistory) ? extraction.patientBackground.pastMedicalHistory.filter((item: string) => item.toLowerCase().includes('surgery') || item.toLowerCase().includes('operation')) : (Array.isArray(extraction.medicalHistory?.surgeries) ? extraction.medicalHistory.surgeries : []),
+            allergies: Array.isArray(extraction.patientBackground?.allergies) ? extraction.patientBackground.allergies : (Array.isArray(extraction.medicalHistory?.allergies) ? extraction.medicalHistory.allergies : []),
+            familyHistory: Array.isArray(extraction.patientBackground?.familyHistory) ? extraction.patientBackground.familyHistory : (Array.isArray(extraction.medicalHistory?.familyHistory) ? extraction.medicalHistory.familyHistory : []),
+            lifestyle: Array.isArray(extraction.patientBackground?.lifestyle) ? extraction.patientBackground.lifestyle : (Array.isArray(extraction.medicalHistory?.lifestyle) ? extraction.medicalHistory.lifestyle : [])
+          },
+          vitalSigns: {
+            bloodPressure: extraction.ongoingCare?.vitalSigns?.bloodPressure || extraction.vitalSigns?.bloodPressure || undefined,
+            temperature: extraction.ongoingCare?.vitalSigns?.temperature || extraction.vitalSigns?.temperature || undefined,
+            heartRate: extraction.ongoingCare?.vitalSigns?.heartRate || extraction.vitalSigns?.heartRate || undefined,
+            weight: extraction.ongoingCare?.vitalSigns?.weight || extraction.vitalSigns?.weight || undefined,
+            height: extraction.ongoingCare?.vitalSigns?.height || extraction.vitalSigns?.height || undefined
+          },
+          diagnosis: Array.isArray(extraction.assessmentAndPlan?.diagnosis) ? extraction.assessmentAndPlan.diagnosis : (Array.isArray(extraction.diagnosis) ? extraction.diagnosis : []),
+          severity: ['low', 'medium', 'high', 'critical'].includes(extraction.assessmentAndPlan?.severity) ? extraction.assessmentAndPlan.severity : (['low', 'medium', 'high', 'critical'].includes(extraction.severity) ? extraction.severity : 'low'),
+          recommendations: Array.isArray(extraction.assessmentAndPlan?.recommendations) ? extraction.assessmentAndPlan.recommendations : (Array.isArray(extraction.recommendations) ? extraction.recommendations : []),
+          urgency: ['routine', 'urgent', 'emergency'].includes(extraction.assessmentAndPlan?.urgency) ? extraction.assessmentAndPlan.urgency : (['routine', 'urgent', 'emergency'].includes(extraction.urgency) ? extraction.urgency : 'routine'),
+          confidence: Math.min(Math.max(extraction.confidence || 0.5, 0), 1),
+
+          // New AI-powered intelligent categorization
+          patientBackground: {
+            currentMedications: Array.isArray(extraction.patientBackground?.currentMedications) ? extraction.patientBackground.currentMedications : [],
+            allergies: Array.isArray(extraction.patientBackground?.allergies) ? extraction.patientBackground.allergies : [],
+            pastMedicalHistory: Array.isArray(extraction.patientBackground?.pastMedicalHistory) ? extraction.patientBackground.pastMedicalHistory : [],
+            familyHistory: Array.isArray(extraction.patientBackground?.familyHistory) ? extraction.patientBackground.familyHistory : [],
+            lifestyle: Array.isArray(extraction.patientBackground?.lifestyle) ? extraction.patientBackground.lifestyle : [],
+            chronicConditions: Array.isArray(extraction.patientBackground?.chronicConditions) ? extraction.patientBackground.chronicConditions : []
+          },
+          currentSituation: {
+            chiefComplaint: extraction.currentSituation?.chiefComplaint || '',
+            presentingSymptoms: Array.isArray(extraction.currentSituation?.presentingSymptoms) ? extraction.currentSituation.presentingSymptoms : [],
+            acuteIssues: Array.isArray(extraction.currentSituation?.acuteIssues) ? extraction.currentSituation.acuteIssues : [],
+            recentChanges: Array.isArray(extraction.currentSituation?.recentChanges) ? extraction.currentSituation.recentChanges : [],
+            painLevel: Math.min(Math.max(extraction.currentSituation?.painLevel || 0, 0), 10),
+            symptomDuration: extraction.currentSituation?.symptomDuration || ''
+          },
+          ongoingCare: {
+            activeTreatments: Array.isArray(extraction.ongoingCare?.activeTreatments) ? extraction.ongoingCare.activeTreatments : [],
+            medications: Array.isArray(extraction.ongoingCare?.medications) ? extraction.ongoingCare.medications : [],
+            recentDiagnoses: Array.isArray(extraction.ongoingCare?.recentDiagnoses) ? extraction.ongoingCare.recentDiagnoses : [],
+            monitoring: Array.isArray(extraction.ongoingCare?.monitoring) ? extraction.ongoingCare.monitoring : [],
+            vitalSigns: {
+              bloodPressure: extraction.ongoingCare?.vitalSigns?.bloodPressure || undefined,
+              temperature: extraction.ongoingCare?.vitalSigns?.temperature || undefined,
+              heartRate: extraction.ongoingCare?.vitalSigns?.heartRate || undefined,
+              weight: extraction.ongoingCare?.vitalSigns?.weight || undefined,
+              height: extraction.ongoingCare?.vitalSigns?.height || undefined
+            }
+          },
+          assessmentAndPlan: {
+            diagnosis: Array.isArray(extraction.assessmentAndPlan?.diagnosis) ? extraction.assessmentAndPlan.diagnosis : [],
+            differentialDiagnosis: Array.isArray(extraction.assessmentAndPlan?.differentialDiagnosis) ? extraction.assessmentAndPlan.differentialDiagnosis : [],
+            treatmentPlan: Array.isArray(extraction.assessmentAndPlan?.treatmentPlan) ? extraction.assessmentAndPlan.treatmentPlan : [],
+            medicationsPrescribed: Array.isArray(extraction.assessmentAndPlan?.medicationsPrescribed) ? extraction.assessmentAndPlan.medicationsPrescribed : [],
+            recommendations: Array.isArray(extraction.assessmentAndPlan?.recommendations) ? extraction.assessmentAndPlan.recommendations : [],
+            followUp: Array.isArray(extraction.assessmentAndPlan?.followUp) ? extraction.assessmentAndPlan.followUp : [],
+            patientInstructions: Array.isArray(extraction.assessmentAndPlan?.patientInstructions) ? extraction.assessmentAndPlan.patientInstructions : [],
+            severity: ['low', 'medium', 'high', 'critical'].includes(extraction.assessmentAndPlan?.severity) ? extraction.assessmentAndPlan.severity : 'low',
+            urgency: ['routine', 'urgent', 'emergency'].includes(extraction.assessmentAndPlan?.urgency) ? extraction.assessmentAndPlan.urgency : 'routine'
+          }
+        }
+      }
+
+      // The response JSON has one field per line, so re-parse whenever a line completes
+      let parsedLines = 0
+      const aiResponse = await AIService.getInstance().complete([
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: analysisPrompt }
+      ], {
+        temperature: 0.1,
+        maxTokens: 1500,
+        signal,
+        onContent: onPartial && (content => {
+          const lines = content.split('\n').length - 1
+          if (lines <= parsedLines) return
+          parsedLines = lines
+          const partial = toMedicalExtraction(content, true)
+          if (partial) onPartial(partial)
         })
       })
 
-      if (!response.ok) {
-        throw new Error('AI extraction failed')
-      }
-
-      const data = await response.json()
-      const aiResponse = data.choices[0].message.content.trim()
-      
-            // Log the raw LLM response
+      // Log the raw LLM response
       console.log('🤖 AI Medical Extraction - LLM Response:')
       console.log('📄 Raw Response:', aiResponse)
       console.log('🔍 Parsed JSON:', JSON.parse(aiResponse))
 
-      // Parse AI response
-      const extraction = JSON.parse(aiResponse)
-
-      // Process intelligently categorized response
-      const processedExtraction: MedicalExtraction = {
-        // Legacy fields for backward compatibility
-        painLevel: Math.min(Math.max(extraction.currentSituation?.painLevel || extraction.painLevel || 0, 0), 10),
-        symptoms: Array.isArray(extraction.currentSituation?.presentingSymptoms) ? extraction.currentSituation.presentingSymptoms : (Array.isArray(extraction.symptoms) ? extraction.symptoms : []),
-        medications: Array.isArray(extraction.ongoingCare?.medications) ? extraction.ongoingCare.medications : (Array.isArray(extraction.medications) ? extraction.medications : []),
-        medicalHistory: {
-          conditions: Array.isArray(extraction.patientBackground?.chronicConditions) ? extraction.patientBackground.chronicConditions : (Array.isArray(extraction.medicalHistory?.conditions) ? extraction.medicalHistory.conditions : []),
-          surgeries: Array.isArray(extraction.patientBackground?.pastMedicalHistory) ? extraction.patientBackground.pastMedicalHistory.filter((item: string) => item.toLowerCase().includes('surgery') || item.toLowerCase().includes('operation')) : (Array.isArray(extraction.medicalHistory?.surgeries) ? extraction.medicalHistory.surgeries : []),
-          allergies: Array.isArray(extraction.patientBackground?.allergies) ? extraction.patientBackground.allergies : (Array.isArray(extraction.medicalHistory?.allergies) ? extraction.medicalHistory.allergies : []),
-          familyHistory: Array.isArray(extraction.patientBackground?.familyHistory) ? extraction.patientBackground.familyHistory : (Array.isArray(extraction.medicalHistory?.familyHistory) ? extraction.medicalHistory.familyHistory : []),
-          lifestyle: Array.isArray(extraction.patientBackground?.lifestyle) ? extraction.patientBackground.lifestyle : (Array.isArray(extraction.medicalHistory?.lifestyle) ? extraction.medicalHistory.lifestyle : [])
-        },
-        vitalSigns: {
-          bloodPressure: extraction.ongoingCare?.vitalSigns?.bloodPressure || extraction.vitalSigns?.bloodPressure || undefined,
-          temperature: extraction.ongoingCare?.vitalSigns?.temperature || extraction.vitalSigns?.temperature || undefined,
-          heartRate: extraction.ongoingCare?.vitalSigns?.heartRate || extraction.vitalSigns?.heartRate || undefined,
-          weight: extraction.ongoingCare?.vitalSigns?.weight || extraction.vitalSigns?.weight || undefined,
-          height: extraction.ongoingCare?.vitalSigns?.height || extraction.vitalSigns?.height || undefined
-        },
-        diagnosis: Array.isArray(extraction.assessmentAndPlan?.diagnosis) ? extraction.assessmentAndPlan.diagnosis : (Array.isArray(extraction.diagnosis) ? extraction.diagnosis : []),
-        severity: ['low', 'medium', 'high', 'critical'].includes(extraction.assessmentAndPlan?.severity) ? extraction.assessmentAndPlan.severity : (['low', 'medium', 'high', 'critical'].includes(extraction.severity) ? extraction.severity : 'low'),
-        recommendations: Array.isArray(extraction.assessmentAndPlan?.recommendations) ? extraction.assessmentAndPlan.recommendations : (Array.isArray(extraction.recommendations) ? extraction.recommendations : []),
-        urgency: ['routine', 'urgent', 'emergency'].includes(extraction.assessmentAndPlan?.urgency) ? extraction.assessmentAndPlan.urgency : (['routine', 'urgent', 'emergency'].includes(extraction.urgency) ? extraction.urgency : 'routine'),
-        confidence: Math.min(Math.max(extraction.confidence || 0.5, 0), 1),
-
-        // New AI-powered intelligent categorization
-        patientBackground: {
-          currentMedications: Array.isArray(extraction.patientBackground?.currentMedications) ? extraction.patientBackground.currentMedications : [],
-          allergies: Array.isArray(extraction.patientBackground?.allergies) ? extraction.patientBackground.allergies : [],
-          pastMedicalHistory: Array.isArray(extraction.patientBackground?.pastMedicalHistory) ? extraction.patientBackground.pastMedicalHistory : [],
-          familyHistory: Array.isArray(extraction.patientBackground?.familyHistory) ? extraction.patientBackground.familyHistory : [],
-          lifestyle: Array.isArray(extraction.patientBackground?.lifestyle) ? extraction.patientBackground.lifestyle : [],
-          chronicConditions: Array.isArray(extraction.patientBackground?.chronicConditions) ? extraction.patientBackground.chronicConditions : []
-        },
-        currentSituation: {
-          chiefComplaint: extraction.currentSituation?.chiefComplaint || '',
-          presentingSymptoms: Array.isArray(extraction.currentSituation?.presentingSymptoms) ? extraction.currentSituation.presentingSymptoms : [],
-          acuteIssues: Array.isArray(extraction.currentSituation?.acuteIssues) ? extraction.currentSituation.acuteIssues : [],
-          recentChanges: Array.isArray(extraction.currentSituation?.recentChanges) ? extraction.currentSituation.recentChanges : [],
-          painLevel: Math.min(Math.max(extraction.currentSituation?.painLevel || 0, 0), 10),
-          symptomDuration: extraction.currentSituation?.symptomDuration || ''
-        },
-        ongoingCare: {
-          activeTreatments: Array.isArray(extraction.ongoingCare?.activeTreatments) ? extraction.ongoingCare.activeTreatments : [],
-          medications: Array.isArray(extraction.ongoingCare?.medications) ? extraction.ongoingCare.medications : [],
-          recentDiagnoses: Array.isArray(extraction.ongoingCare?.recentDiagnoses) ? extraction.ongoingCare.recentDiagnoses : [],
-          monitoring: Array.isArray(extraction.ongoingCare?.monitoring) ? extraction.ongoingCare.monitoring : [],
-          vitalSigns: {
-            bloodPressure: extraction.ongoingCare?.vitalSigns?.bloodPressure || undefined,
-            temperature: extraction.ongoingCare?.vitalSigns?.temperature || undefined,
-            heartRate: extraction.ongoingCare?.vitalSigns?.heartRate || undefined,
-            weight: extraction.ongoingCare?.vitalSigns?.weight || undefined,
-            height: extraction.ongoingCare?.vitalSigns?.height || undefined
-          }
-        },
-        assessmentAndPlan: {
-          diagnosis: Array.isArray(extraction.assessmentAndPlan?.diagnosis) ? extraction.assessmentAndPlan.diagnosis : [],
-          differentialDiagnosis: Array.isArray(extraction.assessmentAndPlan?.differentialDiagnosis) ? extraction.assessmentAndPlan.differentialDiagnosis : [],
-          treatmentPlan: Array.isArray(extraction.assessmentAndPlan?.treatmentPlan) ? extraction.assessmentAndPlan.treatmentPlan : [],
-          medicationsPrescribed: Array.isArray(extraction.assessmentAndPlan?.medicationsPrescribed) ? extraction.assessmentAndPlan.medicationsPrescribed : [],
-          recommendations: Array.isArray(extraction.assessmentAndPlan?.recommendations) ? extraction.assessmentAndPlan.recommendations : [],
-          followUp: Array.isArray(extraction.assessmentAndPlan?.followUp) ? extraction.assessmentAndPlan.followUp : [],
-          patientInstructions: Array.isArray(extraction.assessmentAndPlan?.patientInstructions) ? extraction.assessmentAndPlan.patientInstructions : [],
-          severity: ['low', 'medium', 'high', 'critical'].includes(extraction.assessmentAndPlan?.severity) ? extraction.assessmentAndPlan.severity : 'low',
-          urgency: ['routine', 'urgent', 'emergency'].includes(extraction.assessmentAndPlan?.urgency) ? extraction.assessmentAndPlan.urgency : 'routine'
-        }
+      const processedExtraction = toMedicalExtraction(aiResponse)
+      if (!processedExtraction) {
+        throw new Error('AI extraction returned no data')
       }
-      
+
       // Log the final processed extraction
       console.log('🤖 AI Medical Extraction - Final Result:')
       console.log('✅ Processed Extraction:', processedExtraction)
       
       return processedExtraction
     } catch (error) {
+      if (signal?.aborted) return null
       console.error('AI extraction failed, falling back to pattern-based extraction:', error)
       // Show user-friendly message about fallback
       if (aiStatus === 'active') {
@@ -1547,16 +1880,76 @@ Return a comprehensive JSON object with all medical information intelligently ca
     }
   }
 
-  // Update medical extraction and conversation summary when messages change
+  // Announce each red flag once, when it first fires
+  useEffect(() => {
+    const redFlags = reviewedExtraction?.redFlags || []
+    redFlags
+      .filter(flag => !announcedRedFlagsRef.current.has(flag.ruleId))
+      .forEach(flag => {
+        ScreenReader.announce(`Red flag: ${flag.name}. ${flag.explanation}`, 'assertive')
+        toast.error(`Red flag: ${flag.name}`, { duration: 8000 })
+        hipaaCompliance.logAuditEntry('red_flag_fired', { ruleId: flag.ruleId, urgency: flag.urgency }, {
+          dataType: 'extraction',
+          severity: flag.severity === 'critical' ? 'critical' : 'high',
+          details: flag.name
+        })
+      })
+    announcedRedFlagsRef.current = new Set(redFlags.map(flag => flag.ruleId))
+  }, [reviewedExtraction])
+
+  // Show where a summary finding was said; the highlight fades after a few seconds
+  const showFindingSource = (source: FindingSource) => {
+    setShowMedicalSummaryModal(false)
+    setHighlightedSource(source)
+  }
+
+  // Confirm, edit, reject or add a summary finding; the finding itself is hashed, only its kind and status are logged
+  const reviewFinding = (kind: ReviewKind, key: string, status: ReviewStatus, value?: string) => {
+    setClinicianReview(prev => upsertReview(prev, { kind, key, status, value }))
+    hipaaCompliance.logAuditEntry('finding_reviewed', { kind, key, status, value }, {
+      dataType: 'extraction',
+      severity: 'medium',
+      details: { kind, status }
+    })
+  }
+
+  const undoFindingReview = (kind: ReviewKind, key: string) => {
+    setClinicianReview(prev => removeReview(prev, kind, key))
+    hipaaCompliance.logAuditEntry('finding_review_undone', { kind, key }, {
+      dataType: 'extraction',
+      severity: 'medium',
+      details: { kind }
+    })
+  }
+
+  useEffect(() => {
+    if (!highlightedSource) return
+    const timeoutId = setTimeout(() => setHighlightedSource(null), 4000)
+    return () => clearTimeout(timeoutId)
+  }, [highlightedSource])
+
+  // Update medical extraction and conversation summary when message text or roles change
   useEffect(() => {
-    if (messages.length > 0) {
+    // A newer run aborts this one, so an earlier conversation state never overwrites a later one
+    const controller = new AbortController()
+    if (conversation.length > 0) {
       const extractMedical = async () => {
         let extraction
         
         if (aiStatus === 'active') {
-          extraction = await extractMedicalWithAI(messages)
+          // The AI's severity and urgency are still subject to the red-flag rules, partial results included
+          const withRules = (result: MedicalExtraction) => {
+            MedicalExtractionService.applyRedFlags(result, patientInputs)
+            result.provenance = MedicalExtractionService.traceExtraction(result, conversation)
+            return result
+          }
+          const result = await extractMedicalWithAI(conversation, partial => {
+            if (!controller.signal.aborted) setMedicalExtraction(withRules(partial))
+          }, controller.signal)
+          if (!result || controller.signal.aborted) return
+          extraction = withRules(result)
         } else {
-          extraction = MedicalExtractionService.extractFromConversation(messages)
+          extraction = MedicalExtractionService.extractFromConversation(conversation)
         }
         
         setMedicalExtraction(extraction)
@@ -1576,9 +1969,11 @@ Return a comprehensive JSON object with all medical information intelligently ca
       
       const generateSummary = async () => {
         // Generate conversation summary every 3 messages or when conversation is substantial
-        if (messages.length % 3 === 0 || messages.length >= 5) {
-          const summary = await generateConversationSummary(messages)
-          if (summary) {
+        if (conversation.length % 3 === 0 || conversation.length >= 5) {
+          const summary = await generateConversationSummary(conversation, partial => {
+            if (!controller.signal.aborted) setConversationSummary(partial)
+          }, controller.signal)
+          if (summary && !controller.signal.aborted) {
             setConversationSummary(summary)
           }
         }
@@ -1587,7 +1982,8 @@ Return a comprehensive JSON object with all medical information intelligently ca
       extractMedical()
       generateSummary()
     }
-  }, [messages, aiStatus, apiKeys.openai])
+    return () => controller.abort()
+  }, [conversation, patientInputs, aiStatus, apiKeys.openai])
 
   // Rating component
   const RatingStars = ({ messageId, currentRating, onRate }: { 
@@ -1877,6 +2273,7 @@ Return a comprehensive JSON object with all medical information intelligently ca
   // Handle provider change with API key reset
   const handleProviderChange = (provider: string) => {
     setSelectedProvider(provider)
+    localStorage.setItem('medical_translator_selected_provider', provider)
     
     // Get available API keys for the new provider
     const availableKeys = getApiKeyNamesForProvider(provider)
@@ -1889,6 +2286,60 @@ Return a comprehensive JSON object with all medical information intelligently ca
     }
   }
 
+  // Toggle back-translation verification (doubles provider calls, so it is opt-in)
+  const toggleBackTranslation = (enabled: boolean) => {
+    setBackTranslationEnabled(enabled)
+    localStorage.setItem('medical_translator_back_translation', String(enabled))
+  }
+
+  const changeConsensusMode = (mode: ConsensusMode) => {
+    setConsensusMode(mode)
+    localStorage.setItem('medical_translator_consensus', mode)
+  }
+
+  const toggleAutoRole = (enabled: boolean) => {
+    setAutoRoleEnabled(enabled)
+    localStorage.setItem('medical_translator_auto_role', String(enabled))
+  }
+
+  const changeSpeechEngine = (engineId: SpeechEngineId) => {
+    // A running session belongs to the previous engine
+    stopDictation()
+    recognitionRef.current?.stop()
+    SpeechEngineService.getInstance().setSelectedEngine(engineId)
+    setSpeechEngine(engineId)
+  }
+
+  const saveSpeechEngineConfig = (engineId: SpeechEngineId, config: ProviderConfig) => {
+    SpeechEngineService.getInstance().setEngineConfig(engineId, config)
+    setSpeechEngineConfig(config)
+    toast.success('Transcription endpoint saved')
+  }
+
+  const changeLanguageDetectionMode = (mode: LanguageDetectionMode) => {
+    setLanguageDetectionMode(mode)
+    localStorage.setItem('medical_translator_language_detection', mode)
+  }
+
+  // Save endpoint settings (base URL, model) for self-hosted providers
+  const saveProviderConfig = (provider: string, config: ProviderConfig) => {
+    TranslationService.getInstance().setProviderConfig(provider, config)
+    setProviderConfigs(prev => ({ ...prev, [provider]: config }))
+    toast.success('Provider settings saved')
+  }
+
+  // Query a self-hosted server for its installed languages
+  const discoverProviderLanguages = async (provider: string): Promise<string[]> => {
+    try {
+      const languages = await TranslationService.getInstance().getSupportedLanguages(provider)
+      toast.success(`Server reachable: ${languages.length} languages available`)
+      return languages.map(lang => lang.code)
+    } catch (error) {
+      console.error('Language discovery failed:', error)
+      toast.error('Could not reach translation server')
+      return []
+    }
+  }
 
   // Save API key to secure storage
   const saveApiKeyToStorage = async (name: string, key: string) => {
@@ -2050,6 +2501,11 @@ Return a comprehensive JSON object with all medical information intelligently ca
         setShowSaveDialog={setShowSaveDialog}
         setShowLoadDialog={setShowLoadDialog}
         setShowDeleteDialog={setShowDeleteDialog}
+        setShowTranslateCaseDialog={(show) => {
+          setCaseTranslationProgress(null)
+          setShowTranslateCaseDialog(show)
+        }}
+        setShowTranscribeRecordingDialog={setShowTranscribeRecordingDialog}
         clearConversation={clearConversation}
       />
       
@@ -2072,17 +2528,27 @@ Return a comprehensive JSON object with all medical information intelligently ca
 
               {/* Recording Controls Component */}
               <RecordingControls
-                isRecording={isRecording}
+                isRecording={isRecording || isDictating}
                 showManualInput={showManualInput}
                 setShowManualInput={setShowManualInput}
-                startRecording={startRecording}
+                startRecording={handleMicClick}
+                continuousDictation={continuousDictation}
+                setContinuousDictation={changeContinuousDictation}
                 clearMessages={clearMessages}
-                medicalExtraction={medicalExtraction}
+                medicalExtraction={reviewedExtraction}
                 conversationSummary={conversationSummary}
                 setShowMedicalSummaryModal={setShowMedicalSummaryModal}
                 setShowConversationSummaryModal={setShowConversationSummaryModal}
               />
 
+              {/* Live caption while dictating */}
+              {isDictating && (
+                <LiveCaption
+                  interimTranscript={interimTranscript}
+                  stopPhrase={STOP_PHRASES[sourceLanguage.split('-')[0]] || STOP_PHRASES.en}
+                />
+              )}
+
               {/* Language Selector Component */}
               <LanguageSelector
                 sourceLanguage={sourceLanguage}
@@ -2101,9 +2567,10 @@ Return a comprehensive JSON object with all medical information intelligently ca
 
               {/* Status Indicator Component */}
               <StatusIndicator
-                isRecording={isRecording}
+                isRecording={isRecording || isDictating}
                 sourceLanguage={sourceLanguage}
                 currentLanguage={currentLanguage}
+                providerStatus={providerStatus}
               />
             </motion.div>
           </div>
@@ -2111,15 +2578,24 @@ Return a comprehensive JSON object with all medical information intelligently ca
 
         </div>
 
+       {/* Red flags stay visible until the conversation no longer contains them */}
+       <RedFlagBanner redFlags={reviewedExtraction?.redFlags || []} />
+
        {/* Conversation Display Component */}
        <ConversationDisplay
           messages={messages}
-          playAudio={playAudio}
+          streamingMessage={streamingMessage}
+          playAudio={(text, language, messageId) => textToSpeech.enqueue(text, language, messageId)}
+          playback={playback}
+          onReadAll={readConversation}
+          onStopPlayback={() => textToSpeech.stop()}
           handleRating={handleRating}
+          onCorrectRole={correctMessageRole}
+          highlightedSource={highlightedSource}
         />
 
        {/* Live Medical Summary */}
-       {medicalExtraction && medicalExtraction.confidence > 0.3 && (
+       {reviewedExtraction && reviewedExtraction.confidence > 0.3 && (
         <motion.div 
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -2132,10 +2608,11 @@ Return a comprehensive JSON object with all medical information intelligently ca
                <h3 className="text-xl font-semibold text-white">Live Medical Summary</h3>
                <div className="flex items-center space-x-2 ml-auto">
                  <div className={`w-3 h-3 rounded-full ${
-                   medicalExtraction.severity === 'high' ? 'bg-red-400' :
-                   medicalExtraction.severity === 'medium' ? 'bg-yellow-400' : 'bg-green-400'
+                   reviewedExtraction.severity === 'critical' ? 'bg-red-600 animate-pulse' :
+                   reviewedExtraction.severity === 'high' ? 'bg-red-400' :
+                   reviewedExtraction.severity === 'medium' ? 'bg-yellow-400' : 'bg-green-400'
                         }`}></div>
-                 <span className="text-xs text-white/60 capitalize">{medicalExtraction.severity} severity</span>
+                 <span className="text-xs text-white/60 capitalize">{reviewedExtraction.severity} severity</span>
                   <div className="flex items-center space-x-1 ml-2">
                     <div className={`w-2 h-2 rounded-full ${
                       aiStatus === 'active' ? 'bg-green-400' : 'bg-gray-400'
@@ -2149,37 +2626,37 @@ Return a comprehensive JSON object with all medical information intelligently ca
              
              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                {/* Pain Level */}
-               {medicalExtraction.painLevel > 0 && (
+               {reviewedExtraction.painLevel > 0 && (
                  <div className="space-y-2">
                    <h4 className="text-sm font-medium text-white">Pain Level</h4>
                    <div className="flex items-center space-x-3">
                             <div className="flex-1 bg-white/10 rounded-full h-2">
                               <div 
                          className={`h-2 rounded-full transition-all duration-300 ${
-                           medicalExtraction.painLevel <= 3 ? 'bg-green-400' :
-                           medicalExtraction.painLevel <= 6 ? 'bg-yellow-400' : 'bg-red-400'
+                           reviewedExtraction.painLevel <= 3 ? 'bg-green-400' :
+                           reviewedExtraction.painLevel <= 6 ? 'bg-yellow-400' : 'bg-red-400'
                          }`}
-                         style={{ width: `${(medicalExtraction.painLevel / 10) * 100}%` }}
+                         style={{ width: `${(reviewedExtraction.painLevel / 10) * 100}%` }}
                               ></div>
                             </div>
-                     <span className="text-sm text-white font-medium">{medicalExtraction.painLevel}/10</span>
+                     <span className="text-sm text-white font-medium">{reviewedExtraction.painLevel}/10</span>
                     </div>
                   </div>
                 )}
 
                {/* Symptoms */}
-               {medicalExtraction.symptoms.length > 0 && (
+               {reviewedExtraction.symptoms.length > 0 && (
                  <div className="space-y-2">
                    <h4 className="text-sm font-medium text-white">Symptoms</h4>
                    <div className="flex flex-wrap gap-2">
-                     {medicalExtraction.symptoms.slice(0, 5).map((symptom, index) => (
+                     {reviewedExtraction.symptoms.slice(0, 5).map((symptom, index) => (
                        <span key={index} className="px-2 py-1 bg-blue-500/20 text-blue-200 text-xs rounded-full border border-blue-400/30">
                          {symptom}
                               </span>
                             ))}
-                     {medicalExtraction.symptoms.length > 5 && (
+                     {reviewedExtraction.symptoms.length > 5 && (
                        <span className="px-2 py-1 bg-blue-500/20 text-blue-200 text-xs rounded-full border border-blue-400/30">
-                         +{medicalExtraction.symptoms.length - 5} more
+                         +{reviewedExtraction.symptoms.length - 5} more
                               </span>
                       )}
                     </div>
@@ -2187,18 +2664,18 @@ Return a comprehensive JSON object with all medical information intelligently ca
                 )}
 
                {/* Medications */}
-               {medicalExtraction.medications.length > 0 && (
+               {reviewedExtraction.medications.length > 0 && (
                  <div className="space-y-2">
                    <h4 className="text-sm font-medium text-white">Medications</h4>
                    <div className="flex flex-wrap gap-2">
-                     {medicalExtraction.medications.slice(0, 3).map((medication, index) => (
+                     {reviewedExtraction.medications.slice(0, 3).map((medication, index) => (
                        <span key={index} className="px-2 py-1 bg-purple-500/20 text-purple-200 text-xs rounded-full border border-purple-400/30">
                          {medication}
                               </span>
                             ))}
-                     {medicalExtraction.medications.length > 3 && (
+                     {reviewedExtraction.medications.length > 3 && (
                        <span className="px-2 py-1 bg-purple-500/20 text-purple-200 text-xs rounded-full border border-purple-400/30">
-                         +{medicalExtraction.medications.length - 3} more
+                         +{reviewedExtraction.medications.length - 3} more
                               </span>
                      )}
                           </div>
@@ -2206,11 +2683,11 @@ Return a comprehensive JSON object with all medical information intelligently ca
                       )}
                
                {/* Recommendations */}
-               {medicalExtraction.recommendations.length > 0 && (
+               {reviewedExtraction.recommendations.length > 0 && (
                  <div className="space-y-2">
                    <h4 className="text-sm font-medium text-white">Recommendations</h4>
                    <div className="space-y-1">
-                     {medicalExtraction.recommendations.slice(0, 3).map((rec, index) => (
+                     {reviewedExtraction.recommendations.slice(0, 3).map((rec, index) => (
                        <div key={index} className="text-xs text-white/80 flex items-start space-x-2">
                          <span className="text-yellow-400 mt-1">•</span>
                                 <span>{rec}</span>
@@ -2228,13 +2705,13 @@ Return a comprehensive JSON object with all medical information intelligently ca
                  <div className="w-16 bg-white/10 rounded-full h-2">
                    <div 
                      className={`h-2 rounded-full transition-all duration-300 ${
-                       medicalExtraction.confidence >= 0.7 ? 'bg-green-400' :
-                       medicalExtraction.confidence >= 0.4 ? 'bg-yellow-400' : 'bg-red-400'
+                       reviewedExtraction.confidence >= 0.7 ? 'bg-green-400' :
+                       reviewedExtraction.confidence >= 0.4 ? 'bg-yellow-400' : 'bg-red-400'
                      }`}
-                     style={{ width: `${medicalExtraction.confidence * 100}%` }}
+                     style={{ width: `${reviewedExtraction.confidence * 100}%` }}
                    ></div>
                             </div>
-                 <span className="text-xs text-white font-medium">{Math.round(medicalExtraction.confidence * 100)}%</span>
+                 <span className="text-xs text-white font-medium">{Math.round(reviewedExtraction.confidence * 100)}%</span>
                         </div>
                     </div>
                   </div>
@@ -2266,9 +2743,39 @@ Return a comprehensive JSON object with all medical information intelligently ca
         editApiKey={editApiKey}
         isCloudProvider={isCloudProvider}
         getApiKeyNamesForProvider={getApiKeyNamesForProvider}
+        providerConfigs={providerConfigs}
+        saveProviderConfig={saveProviderConfig}
+        discoverProviderLanguages={discoverProviderLanguages}
+        backTranslationEnabled={backTranslationEnabled}
+        setBackTranslationEnabled={toggleBackTranslation}
+        consensusMode={consensusMode}
+        setConsensusMode={changeConsensusMode}
+        languageDetectionMode={languageDetectionMode}
+        setLanguageDetectionMode={changeLanguageDetectionMode}
+        autoRoleEnabled={autoRoleEnabled}
+        setAutoRoleEnabled={toggleAutoRole}
+        speechEngines={SpeechEngineService.getInstance().getAvailableEngines()}
+        speechEngine={speechEngine}
+        setSpeechEngine={changeSpeechEngine}
+        speechEngineConfig={speechEngineConfig}
+        saveSpeechEngineConfig={saveSpeechEngineConfig}
+        onClearTranslationMemory={async () => {
+          await translationMemory.clear()
+          hipaaCompliance.logAuditEntry('translation_memory_cleared', undefined, { dataType: 'settings' })
+          toast.success('Translation memory cleared')
+        }}
+        onOpenGlossary={() => {
+          setShowSettings(false)
+          setShowGlossary(true)
+        }}
         hipaaCompliance={hipaaCompliance}
       />
 
+      <GlossaryPanel
+        showGlossary={showGlossary}
+        setShowGlossary={setShowGlossary}
+      />
+
       {/* Modal Components */}
       <SaveDialog
         showSaveDialog={showSaveDialog}
@@ -2301,11 +2808,37 @@ Return a comprehensive JSON object with all medical information intelligently ca
         onDelete={handleDeleteCase}
       />
 
+      <TranslateCaseDialog
+        showTranslateCaseDialog={showTranslateCaseDialog}
+        setShowTranslateCaseDialog={setShowTranslateCaseDialog}
+        messageCount={messages.length}
+        isTranslating={isTranslatingCase}
+        progress={caseTranslationProgress}
+        onTranslate={translateCase}
+        onCancel={() => caseTranslationAbortRef.current?.abort()}
+      />
+
+      <TranscribeRecordingDialog
+        showTranscribeRecordingDialog={showTranscribeRecordingDialog}
+        setShowTranscribeRecordingDialog={setShowTranscribeRecordingDialog}
+        defaultLanguage={sourceLanguage.split('-')[0]}
+        isProcessing={recordingStage !== null}
+        stage={recordingStage}
+        progress={recordingProgress}
+        onTranscribe={transcribeRecording}
+        onCancel={() => recordingAbortRef.current?.abort()}
+      />
+
       <MedicalSummaryModal
         showMedicalSummaryModal={showMedicalSummaryModal}
         setShowMedicalSummaryModal={setShowMedicalSummaryModal}
         medicalExtraction={medicalExtraction}
         aiStatus={aiStatus}
+        onSelectSource={showFindingSource}
+        clinicianReview={clinicianReview}
+        patientInputs={patientInputs}
+        onReviewFinding={reviewFinding}
+        onUndoReview={undoFindingReview}
       />
 
       {showConversationSummaryModal && (
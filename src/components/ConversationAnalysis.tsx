@@ -15,7 +15,7 @@ import {
 import AIService, { type AIMedicalAnalysis, type ConversationSummary } from '../utils/aiService'
 
 interface ConversationAnalysisProps {
-  messages: Array<{ text: string; isDoctor: boolean; timestamp: Date }>
+  messages: Array<{ id?: string; text: string; isDoctor: boolean; timestamp: Date }>
   isVisible: boolean
   onToggle: () => void
   aiService: AIService
@@ -43,11 +43,11 @@ export default function ConversationAnalysis({
         try {
           // Add messages to AI service
           messages.forEach(msg => {
-            aiService.addToConversation(msg.text, msg.isDoctor ? 'doctor' : 'patient')
+            aiService.addToConversation(msg.text, msg.isDoctor ? 'doctor' : 'patient', msg.id)
           })
 
-          // Get real-time analysis
-          const newAnalysis = await aiService.analyzeConversation()
+          // Get real-time analysis, updated as the response streams in
+          const newAnalysis = await aiService.analyzeConversation(setAnalysis)
           setAnalysis(newAnalysis)
           setLastUpdate(new Date())
 
@@ -1,11 +1,44 @@
+import { useEffect, useRef } from 'react'
 import { motion } from 'framer-motion'
-import { Mic, Volume2 } from 'lucide-react'
+import { Mic, Volume2, AlertTriangle, Users, ArrowLeftRight, Play, Square } from 'lucide-react'
 import type { Message } from '../hooks/useConversation'
+import { HIGH_DIVERGENCE_THRESHOLD, LOW_AGREEMENT_THRESHOLD } from '../utils/translationVerification'
+import { LANGUAGE_NAMES } from '../utils/accessibility'
+import type { PlaybackState } from '../utils/textToSpeech'
+import type { FindingSource } from '../utils/medicalExtraction'
+import { decodeOutput } from '../utils/security'
+
+// Utterance whose translation is still streaming in
+export interface StreamingMessage {
+  text: string
+  partialTranslation: string
+  isDoctor: boolean
+}
 
 interface ConversationDisplayProps {
   messages: Message[]
-  playAudio: (text: string) => void
+  streamingMessage?: StreamingMessage | null
+  playAudio: (text: string, language: string, messageId?: string) => void
+  playback?: PlaybackState
+  onReadAll?: () => void
+  onStopPlayback?: () => void
   handleRating: (messageId: string, rating: number) => void
+  onCorrectRole?: (messageId: string) => void
+  highlightedSource?: FindingSource | null // Scrolled to, with the words it spans marked
+}
+
+// Message text with the span of a summary finding marked
+const HighlightedText = ({ text, span }: { text: string; span?: FindingSource }) => {
+  if (!span) return <>{text}</>
+  // Spans are positions in the decoded text
+  const decoded = decodeOutput(text)
+  return (
+    <>
+      {decoded.slice(0, span.start)}
+      <mark className="bg-yellow-300/40 text-white rounded px-0.5">{decoded.slice(span.start, span.end)}</mark>
+      {decoded.slice(span.end)}
+    </>
+  )
 }
 
 // RatingStars component
@@ -37,7 +70,26 @@ const RatingStars = ({
   )
 }
 
-export const ConversationDisplay = ({ messages, playAudio, handleRating }: ConversationDisplayProps) => {
+export const ConversationDisplay = ({
+  messages,
+  streamingMessage,
+  playAudio,
+  playback,
+  onReadAll,
+  onStopPlayback,
+  handleRating,
+  onCorrectRole,
+  highlightedSource
+}: ConversationDisplayProps) => {
+  const isPlaying = Boolean(playback?.current)
+  const messageRefs = useRef<Record<string, HTMLDivElement | null>>({})
+
+  useEffect(() => {
+    if (highlightedSource?.messageId) {
+      messageRefs.current[highlightedSource.messageId]?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    }
+  }, [highlightedSource])
+
   return (
     <motion.div 
       initial={{ opacity: 0, y: 20 }}
@@ -49,10 +101,29 @@ export const ConversationDisplay = ({ messages, playAudio, handleRating }: Conve
         <div className="flex items-center space-x-3 mb-6">
           <div className="w-2 h-2 bg-purple-400 rounded-full animate-pulse"></div>
           <h3 className="text-xl font-semibold text-white">Conversation</h3>
+          {isPlaying && onStopPlayback ? (
+            <button
+              onClick={onStopPlayback}
+              className="ml-auto inline-flex items-center space-x-1 px-3 py-1 text-xs rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors"
+              aria-label="Stop reading aloud"
+            >
+              <Square className="w-3 h-3" />
+              <span>Stop{playback && playback.queued > 0 ? ` (${playback.queued} queued)` : ''}</span>
+            </button>
+          ) : onReadAll && messages.length > 0 && (
+            <button
+              onClick={onReadAll}
+              className="ml-auto inline-flex items-center space-x-1 px-3 py-1 text-xs rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors"
+              aria-label="Read all translations aloud"
+            >
+              <Play className="w-3 h-3" />
+              <span>Read all</span>
+            </button>
+          )}
         </div>
         
         <div className="space-y-4 max-h-96 overflow-y-auto custom-scrollbar">
-          {messages.length === 0 ? (
+          {messages.length === 0 && !streamingMessage ? (
             <motion.div 
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
@@ -70,56 +141,226 @@ export const ConversationDisplay = ({ messages, playAudio, handleRating }: Conve
               <p className="text-sm mt-2">Click the microphone button above</p>
             </motion.div>
           ) : (
-            messages.map((message, index) => (
-              <motion.div
-                key={message.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.1 }}
-                className={`flex ${message.isDoctor ? 'justify-start' : 'justify-end'}`}
-              >
-                <div className={`max-w-xs lg:max-w-md p-4 rounded-2xl backdrop-blur-sm border ${
-                  message.isDoctor 
-                    ? 'bg-blue-500/20 border-blue-400/30 text-white' 
-                    : 'bg-green-500/20 border-green-400/30 text-white'
-                }`}>
-                  <div className="flex items-center space-x-2 mb-2">
-                    <div className={`w-2 h-2 rounded-full ${
-                      message.isDoctor ? 'bg-blue-400' : 'bg-green-400'
-                    }`}></div>
-                    <span className="text-sm font-medium opacity-80">
-                      {message.isDoctor ? 'Doctor' : 'Patient'}
-                    </span>
-                  </div>
-                  <div className="mb-3 text-sm">{message.text}</div>
-                  <div className="text-sm opacity-75 border-t border-white/20 pt-3 italic">
-                    {message.translatedText}
-                  </div>
-                  <div className="flex items-center justify-between mt-3">
-                    <span className="text-xs opacity-60">
-                      {message.timestamp.toLocaleTimeString()}
-                    </span>
-                    <motion.button
-                      whileHover={{ scale: 1.1 }}
-                      whileTap={{ scale: 0.9 }}
-                      onClick={() => playAudio(message.translatedText)}
-                      className="text-xs opacity-60 hover:opacity-100 transition-opacity"
-                    >
-                      <Volume2 className="w-4 h-4" />
-                    </motion.button>
+            messages.map((message, index) => {
+              const needsVerification = (message.divergenceScore ?? 0) >= HIGH_DIVERGENCE_THRESHOLD
+              const providersDisagree = message.consensus !== undefined && message.consensus.agreement < LOW_AGREEMENT_THRESHOLD
+              const isSpeaking = playback?.current?.messageId === message.id
+              const highlight = highlightedSource?.messageId === message.id ? highlightedSource : undefined
+
+              return (
+                <motion.div
+                  key={message.id}
+                  ref={(element: HTMLDivElement | null) => { messageRefs.current[message.id] = element }}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.1 }}
+                  className={`flex ${message.isDoctor ? 'justify-start' : 'justify-end'}`}
+                >
+                  <div className={`${providersDisagree ? 'max-w-full lg:max-w-2xl' : 'max-w-xs lg:max-w-md'} p-4 rounded-2xl backdrop-blur-sm border ${
+                    message.isDoctor 
+                      ? 'bg-blue-500/20 border-blue-400/30 text-white' 
+                      : 'bg-green-500/20 border-green-400/30 text-white'
+                  } ${highlight ? 'ring-2 ring-yellow-300' : needsVerification || providersDisagree ? 'ring-2 ring-orange-400/70' : isSpeaking ? 'ring-2 ring-purple-400/70' : ''}`}>
+                    <div className="flex items-center space-x-2 mb-2">
+                      <div className={`w-2 h-2 rounded-full ${
+                        message.isDoctor ? 'bg-blue-400' : 'bg-green-400'
+                      }`}></div>
+                      <span className="text-sm font-medium opacity-80">
+                        {message.isDoctor ? 'Doctor' : 'Patient'}
+                      </span>
+                      {message.roleAssignment === 'auto' && (
+                        <span className="text-xs text-white/50" title="Speaker assigned from the detected language">auto</span>
+                      )}
+                      {message.roleAssignment === 'corrected' && (
+                        <span className="text-xs text-white/50" title="Speaker corrected by hand">corrected</span>
+                      )}
+                      {onCorrectRole && (
+                        <button
+                          onClick={() => onCorrectRole(message.id)}
+                          className={`ml-auto inline-flex items-center space-x-1 text-xs transition-opacity ${
+                            message.roleAssignment === 'uncertain'
+                              ? 'px-2 py-0.5 rounded-full bg-orange-500/20 text-orange-200 border border-orange-400/30'
+                              : 'opacity-50 hover:opacity-100'
+                          }`}
+                          title={message.roleAssignment === 'uncertain' ? 'Speaker could not be confirmed from the language' : 'Relabel and retranslate in the other direction'}
+                        >
+                          <ArrowLeftRight className="w-3 h-3" />
+                          <span>This was the {message.isDoctor ? 'patient' : 'doctor'}</span>
+                        </button>
+                      )}
+                    </div>
+                    <div className="mb-3 text-sm">
+                      <HighlightedText text={message.text} span={highlight?.field === 'text' ? highlight : undefined} />
+                    </div>
+                    <div className="text-sm opacity-75 border-t border-white/20 pt-3 italic">
+                      <HighlightedText text={message.translatedText} span={highlight?.field === 'translatedText' ? highlight : undefined} />
+                    </div>
+
+                    {/* Translation details - provider, confidence and fallback */}
+                    {message.provider && (
+                      <div className="flex flex-wrap items-center gap-1 mt-2 text-xs">
+                        <span className="px-2 py-0.5 rounded-full bg-white/10 text-white/70">
+                          {message.provider === 'none' ? 'Not translated' : message.provider}
+                        </span>
+                        {message.confidence !== undefined && message.provider !== 'none' && (
+                          <span className={`px-2 py-0.5 rounded-full bg-white/10 ${
+                            message.confidence >= 0.8 ? 'text-green-300' :
+                            message.confidence >= 0.5 ? 'text-yellow-300' : 'text-red-300'
+                          }`}>
+                            {Math.round(message.confidence * 100)}% confidence
+                          </span>
+                        )}
+                        {message.consensus && (
+                          <span
+                            className={`inline-flex items-center space-x-1 px-2 py-0.5 rounded-full border ${
+                              providersDisagree
+                                ? 'bg-orange-500/20 text-orange-200 border-orange-400/30'
+                                : 'bg-emerald-500/20 text-emerald-200 border-emerald-400/30'
+                            }`}
+                            title={`Cross-checked by ${message.consensus.alternatives.length} providers${message.consensus.triggers?.length ? ` (${message.consensus.triggers.join(', ')})` : ''}`}
+                          >
+                            <Users className="w-3 h-3" />
+                            <span>{Math.round(message.consensus.agreement * 100)}% agreement</span>
+                          </span>
+                        )}
+                        {message.memoryMatch && (
+                          <span
+                            className="px-2 py-0.5 rounded-full bg-cyan-500/20 text-cyan-200 border border-cyan-400/30"
+                            title="Reused from translation memory"
+                          >
+                            {message.memoryMatch === 'exact' ? 'Memory' : 'Memory (similar)'}
+                          </span>
+                        )}
+                        {message.detectedLanguage && (
+                          <span
+                            className="px-2 py-0.5 rounded-full bg-orange-500/20 text-orange-200 border border-orange-400/30"
+                            title="Language detection disagreed with the selected source language"
+                          >
+                            Detected: {LANGUAGE_NAMES[message.detectedLanguage] || message.detectedLanguage}
+                          </span>
+                        )}
+                        {message.usedFallback && (
+                          <span className="px-2 py-0.5 rounded-full bg-yellow-500/20 text-yellow-300 border border-yellow-400/30">
+                            Fallback
+                          </span>
+                        )}
+                      </div>
+                    )}
+                    {message.translationNotes && (
+                      <div className="mt-2 text-xs text-white/60 italic">
+                        Translator note: {message.translationNotes}
+                      </div>
+                    )}
+                    {message.memorySuggestion && (
+                      <div className="mt-2 p-2 rounded-lg bg-cyan-500/10 border border-cyan-400/30 text-xs">
+                        <div className="text-cyan-200 font-semibold">
+                          Similar past translation ({Math.round(message.memorySuggestion.similarity * 100)}% match) - unconfirmed for this sentence
+                        </div>
+                        <div className="mt-1 text-white/60">"{message.memorySuggestion.sourceText}"</div>
+                        <div className="text-white/90">{message.memorySuggestion.translatedText}</div>
+                      </div>
+                    )}
+                    {message.medicalTerms && message.medicalTerms.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {message.medicalTerms.map((term, termIndex) => (
+                          <span key={termIndex} className="px-2 py-0.5 rounded-full text-xs bg-purple-500/20 text-purple-200">
+                            {term}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+
+                    {/* Consensus alternatives - shown side by side when providers disagree */}
+                    {providersDisagree && message.consensus && (
+                      <div className="mt-3 p-2 rounded-lg bg-orange-500/10 border border-orange-400/40 text-xs" role="alert">
+                        <div className="flex items-center space-x-1 font-semibold text-orange-200 mb-2">
+                          <AlertTriangle className="w-3 h-3" />
+                          <span>Providers disagree - confirm with the patient</span>
+                        </div>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                          {message.consensus.alternatives.map((alternative, alternativeIndex) => (
+                            <div key={alternativeIndex} className="p-2 rounded bg-white/5 border border-white/10">
+                              <div className="flex items-center justify-between text-white/60 mb-1">
+                                <span>{alternative.provider}</span>
+                                <span>{Math.round(alternative.agreement * 100)}%</span>
+                              </div>
+                              <div className="text-white/90">{alternative.translatedText}</div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Back-translation verification */}
+                    {message.divergenceScore !== undefined && (
+                      needsVerification ? (
+                        <div className="mt-3 p-2 rounded-lg bg-orange-500/20 border border-orange-400/40 text-xs" role="alert">
+                          <div className="flex items-center space-x-1 font-semibold text-orange-200">
+                            <AlertTriangle className="w-3 h-3" />
+                            <span>Verify with patient</span>
+                          </div>
+                          <div className="mt-1 text-white/80">Back-translation: "{message.backTranslation}"</div>
+                          {message.divergenceReasons?.map((reason, reasonIndex) => (
+                            <div key={reasonIndex} className="text-orange-200/80">• {reason}</div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="mt-2 text-xs text-white/50" title={message.backTranslation}>
+                          Back-translation check: {Math.round(message.divergenceScore * 100)}% divergence
+                        </div>
+                      )
+                    )}
+
+                    <div className="flex items-center justify-between mt-3">
+                      <span className="text-xs opacity-60">
+                        {message.timestamp.toLocaleTimeString()}
+                      </span>
+                      <motion.button
+                        whileHover={{ scale: 1.1 }}
+                        whileTap={{ scale: 0.9 }}
+                        onClick={() => playAudio(decodeOutput(message.translatedText), message.language, message.id)}
+                        className={`text-xs transition-opacity ${isSpeaking ? 'opacity-100 text-purple-300' : 'opacity-60 hover:opacity-100'}`}
+                        aria-label={`Read aloud in ${LANGUAGE_NAMES[message.language] || message.language}`}
+                      >
+                        <Volume2 className="w-4 h-4" />
+                      </motion.button>
+                    </div>
+                    
+                    {/* Rating System - Only show for translated messages */}
+                    {!message.isDoctor && (
+                      <RatingStars
+                        messageId={message.id}
+                        currentRating={message.rating}
+                        onRate={(rating) => handleRating(message.id, rating)}
+                      />
+                    )}
                   </div>
-                  
-                  {/* Rating System - Only show for translated messages */}
-                  {!message.isDoctor && (
-                    <RatingStars
-                      messageId={message.id}
-                      currentRating={message.rating}
-                      onRate={(rating) => handleRating(message.id, rating)}
-                    />
-                  )}
+                </motion.div>
+              )
+            })
+          )}
+
+          {/* Translation in progress */}
+          {streamingMessage && (
+            <div className={`flex ${streamingMessage.isDoctor ? 'justify-start' : 'justify-end'}`} aria-busy="true">
+              <div className={`max-w-xs lg:max-w-md p-4 rounded-2xl backdrop-blur-sm border border-dashed text-white ${
+                streamingMessage.isDoctor ? 'bg-blue-500/10 border-blue-400/30' : 'bg-green-500/10 border-green-400/30'
+              }`}>
+                <div className="flex items-center space-x-2 mb-2">
+                  <div className={`w-2 h-2 rounded-full animate-pulse ${
+                    streamingMessage.isDoctor ? 'bg-blue-400' : 'bg-green-400'
+                  }`}></div>
+                  <span className="text-sm font-medium opacity-80">
+                    {streamingMessage.isDoctor ? 'Doctor' : 'Patient'} · translating...
+                  </span>
                 </div>
-              </motion.div>
-            ))
+                <div className="mb-3 text-sm">{streamingMessage.text}</div>
+                <div className="text-sm opacity-75 border-t border-white/20 pt-3 italic">
+                  {streamingMessage.partialTranslation}
+                  <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-white/60 animate-pulse" />
+                </div>
+              </div>
+            </div>
           )}
         </div>
       </div>
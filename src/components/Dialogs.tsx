@@ -1,5 +1,8 @@
 import { motion, AnimatePresence } from 'framer-motion'
-import { X, Save, FolderOpen, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { X, Save, FolderOpen, Trash2, Languages, FileAudio } from 'lucide-react'
+import { LANGUAGE_NAMES } from '../utils/accessibility'
+import type { RecordingSpeakers } from '../utils/speakerDiarization'
 
 interface SavedCase {
   id: string
@@ -43,6 +46,27 @@ interface DeleteDialogProps {
   onDelete: () => void
 }
 
+interface TranslateCaseDialogProps {
+  showTranslateCaseDialog: boolean
+  setShowTranslateCaseDialog: (show: boolean) => void
+  messageCount: number
+  isTranslating: boolean
+  progress: { completed: number; failed: number; total: number } | null
+  onTranslate: (targetLanguage: string) => void
+  onCancel: () => void
+}
+
+interface TranscribeRecordingDialogProps {
+  showTranscribeRecordingDialog: boolean
+  setShowTranscribeRecordingDialog: (show: boolean) => void
+  defaultLanguage: string
+  isProcessing: boolean
+  stage: 'transcribing' | 'translating' | null
+  progress: { completed: number; failed: number; total: number } | null
+  onTranscribe: (file: File, language: string, speakers: RecordingSpeakers) => void
+  onCancel: () => void
+}
+
 export const SaveDialog = ({
   showSaveDialog,
   setShowSaveDialog,
@@ -369,3 +393,264 @@ export const DeleteDialog = ({
     </AnimatePresence>
   )
 }
+
+export const TranslateCaseDialog = ({
+  showTranslateCaseDialog,
+  setShowTranslateCaseDialog,
+  messageCount,
+  isTranslating,
+  progress,
+  onTranslate,
+  onCancel
+}: TranslateCaseDialogProps) => {
+  const [targetLanguage, setTargetLanguage] = useState('en')
+  const percent = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0
+
+  return (
+    <AnimatePresence>
+      {showTranslateCaseDialog && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4"
+        >
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+            onClick={() => !isTranslating && setShowTranslateCaseDialog(false)}
+          />
+
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="relative w-full max-w-md bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl"
+          >
+            <div className="flex items-center justify-between p-6 border-b border-white/10">
+              <h2 className="text-xl font-bold text-white flex items-center space-x-2">
+                <Languages className="w-5 h-5" />
+                <span>Translate Case</span>
+              </h2>
+              <motion.button
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={() => setShowTranslateCaseDialog(false)}
+                disabled={isTranslating}
+                className="text-white/70 hover:text-white transition-colors disabled:opacity-40"
+              >
+                <X className="w-6 h-6" />
+              </motion.button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-white/60">
+                Translate all {messageCount} messages of the current conversation into another language and download the transcript.
+              </p>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-white">Target Language</label>
+                <select
+                  value={targetLanguage}
+                  onChange={(e) => setTargetLanguage(e.target.value)}
+                  disabled={isTranslating}
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white"
+                  style={{ backgroundColor: '#1f2937', color: 'white' }}
+                >
+                  {Object.entries(LANGUAGE_NAMES).map(([code, name]) => (
+                    <option key={code} value={code} style={{ backgroundColor: '#1f2937', color: 'white' }}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Progress */}
+              {progress && (
+                <div className="space-y-1" aria-live="polite">
+                  <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+                  </div>
+                  <div className="flex justify-between text-xs text-white/60">
+                    <span>{progress.completed} / {progress.total} translated</span>
+                    {progress.failed > 0 && <span className="text-red-300">{progress.failed} failed</span>}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex space-x-2 pt-4">
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => isTranslating ? onCancel() : setShowTranslateCaseDialog(false)}
+                  className="flex-1 py-2 px-4 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-colors"
+                >
+                  Cancel
+                </motion.button>
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => onTranslate(targetLanguage)}
+                  disabled={isTranslating || messageCount === 0}
+                  className="flex-1 py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {isTranslating ? 'Translating...' : 'Translate & Download'}
+                </motion.button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
+
+export const TranscribeRecordingDialog = ({
+  showTranscribeRecordingDialog,
+  setShowTranscribeRecordingDialog,
+  defaultLanguage,
+  isProcessing,
+  stage,
+  progress,
+  onTranscribe,
+  onCancel
+}: TranscribeRecordingDialogProps) => {
+  const [file, setFile] = useState<File | null>(null)
+  const [language, setLanguage] = useState(defaultLanguage)
+  const [speakers, setSpeakers] = useState<RecordingSpeakers>('language')
+  const percent = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0
+
+  return (
+    <AnimatePresence>
+      {showTranscribeRecordingDialog && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4"
+        >
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+            onClick={() => !isProcessing && setShowTranscribeRecordingDialog(false)}
+          />
+
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="relative w-full max-w-md bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl"
+          >
+            <div className="flex items-center justify-between p-6 border-b border-white/10">
+              <h2 className="text-xl font-bold text-white flex items-center space-x-2">
+                <FileAudio className="w-5 h-5" />
+                <span>Import Recording</span>
+              </h2>
+              <motion.button
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={() => setShowTranscribeRecordingDialog(false)}
+                disabled={isProcessing}
+                className="text-white/70 hover:text-white transition-colors disabled:opacity-40"
+              >
+                <X className="w-6 h-6" />
+              </motion.button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-white/60">
+                Transcribe a recorded consult with the Whisper server, translate each utterance and load it as the current conversation.
+              </p>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-white">Audio File (wav, webm, mp3)</label>
+                <input
+                  type="file"
+                  accept="audio/wav,audio/x-wav,audio/webm,audio/mpeg,audio/mp3,.wav,.webm,.mp3"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  disabled={isProcessing}
+                  className="w-full text-sm text-white/80 file:mr-3 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-blue-600 file:text-white hover:file:bg-blue-700"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-white">Spoken Language</label>
+                <select
+                  value={language}
+                  onChange={(e) => setLanguage(e.target.value)}
+                  disabled={isProcessing}
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white"
+                  style={{ backgroundColor: '#1f2937', color: 'white' }}
+                >
+                  <option value="" style={{ backgroundColor: '#1f2937', color: 'white' }}>Auto-detect</option>
+                  {Object.entries(LANGUAGE_NAMES).map(([code, name]) => (
+                    <option key={code} value={code} style={{ backgroundColor: '#1f2937', color: 'white' }}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-white">Speakers</label>
+                <select
+                  value={speakers}
+                  onChange={(e) => setSpeakers(e.target.value as RecordingSpeakers)}
+                  disabled={isProcessing}
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white"
+                  style={{ backgroundColor: '#1f2937', color: 'white' }}
+                >
+                  <option value="language" style={{ backgroundColor: '#1f2937', color: 'white' }}>Detect from language</option>
+                  <option value="voice" style={{ backgroundColor: '#1f2937', color: 'white' }}>Voice profiles (analyzed on this device)</option>
+                  <option value="alternate" style={{ backgroundColor: '#1f2937', color: 'white' }}>Alternate at pauses (doctor first)</option>
+                  <option value="doctor" style={{ backgroundColor: '#1f2937', color: 'white' }}>Doctor only</option>
+                  <option value="patient" style={{ backgroundColor: '#1f2937', color: 'white' }}>Patient only</option>
+                </select>
+              </div>
+
+              {/* Progress */}
+              {stage === 'transcribing' && (
+                <div className="text-xs text-white/60" aria-live="polite">Transcribing recording...</div>
+              )}
+              {stage === 'translating' && progress && (
+                <div className="space-y-1" aria-live="polite">
+                  <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+                  </div>
+                  <div className="flex justify-between text-xs text-white/60">
+                    <span>{progress.completed} / {progress.total} utterances translated</span>
+                    {progress.failed > 0 && <span className="text-red-300">{progress.failed} failed</span>}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex space-x-2 pt-4">
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => isProcessing ? onCancel() : setShowTranscribeRecordingDialog(false)}
+                  className="flex-1 py-2 px-4 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-colors"
+                >
+                  Cancel
+                </motion.button>
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => file && onTranscribe(file, language, speakers)}
+                  disabled={isProcessing || !file}
+                  className="flex-1 py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {isProcessing ? 'Processing...' : 'Transcribe & Load'}
+                </motion.button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,177 @@
+import { useState } from 'react'
+import { Check, Pencil, X, RotateCcw, Plus } from 'lucide-react'
+import type { MedicalExtraction } from '../utils/medicalExtraction'
+import {
+  getReviewItems,
+  REVIEW_SECTIONS,
+  type FindingReview,
+  type ReviewItem,
+  type ReviewKind,
+  type ReviewStatus
+} from '../utils/clinicianReview'
+
+interface FindingReviewPanelProps {
+  extraction: MedicalExtraction // As extracted, before the review is applied
+  reviews: FindingReview[]
+  onReview: (kind: ReviewKind, key: string, status: ReviewStatus, value?: string) => void
+  onUndo: (kind: ReviewKind, key: string) => void
+}
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  confirmed: 'bg-green-500/20 text-green-300',
+  edited: 'bg-blue-500/20 text-blue-300',
+  rejected: 'bg-red-500/20 text-red-300',
+  added: 'bg-purple-500/20 text-purple-300'
+}
+
+// Each extracted finding can be confirmed, edited or rejected, and missing ones added
+export const FindingReviewPanel = ({ extraction, reviews, onReview, onUndo }: FindingReviewPanelProps) => {
+  const [editing, setEditing] = useState<{ kind: ReviewKind; key: string; value: string } | null>(null)
+  const [additions, setAdditions] = useState<Partial<Record<ReviewKind, string>>>({})
+  const items = getReviewItems(extraction, reviews)
+
+  const saveEdit = () => {
+    const value = editing?.value.trim()
+    if (!editing || !value) return
+    const item = items.find(entry => entry.kind === editing.kind && entry.key === editing.key)
+    // An added item stays added when its wording changes
+    onReview(editing.kind, editing.key, item?.review?.status === 'added' ? 'added' : 'edited', value)
+    setEditing(null)
+  }
+
+  const addItem = (kind: ReviewKind) => {
+    const value = additions[kind]?.trim()
+    if (!value) return
+    onReview(kind, `added-${Date.now()}`, 'added', value)
+    setAdditions(prev => ({ ...prev, [kind]: '' }))
+  }
+
+  const renderItem = (item: ReviewItem) => {
+    const status = item.review?.status
+    const isEditing = editing?.kind === item.kind && editing.key === item.key
+
+    if (isEditing) {
+      return (
+        <li key={item.key} className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={editing.value}
+            onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveEdit()
+              if (e.key === 'Escape') setEditing(null)
+            }}
+            className="flex-1 px-2 py-1 text-sm bg-white/10 border border-white/20 rounded text-white focus:outline-none focus:ring-1 focus:ring-blue-400"
+            aria-label={`Edit ${item.label}`}
+            autoFocus
+          />
+          <button type="button" onClick={saveEdit} className="p-1 text-green-300 hover:text-green-200" title="Save">
+            <Check className="w-4 h-4" />
+          </button>
+          <button type="button" onClick={() => setEditing(null)} className="p-1 text-white/60 hover:text-white" title="Cancel">
+            <X className="w-4 h-4" />
+          </button>
+        </li>
+      )
+    }
+
+    return (
+      <li key={item.key} className="flex items-center justify-between space-x-2 text-sm">
+        <div className="flex items-center space-x-2 min-w-0">
+          {status === 'edited' ? (
+            <>
+              <span className="text-white/40 line-through truncate">{item.label}</span>
+              <span className="text-white truncate">{item.review!.value}</span>
+            </>
+          ) : (
+            <span className={`truncate ${status === 'rejected' ? 'text-white/40 line-through' : 'text-white'}`}>{item.label}</span>
+          )}
+          {status && (
+            <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${STATUS_STYLES[status]}`}>{status}</span>
+          )}
+        </div>
+        <div className="flex items-center space-x-1 shrink-0">
+          {(!status || status === 'rejected') && (
+            <button
+              type="button"
+              onClick={() => onReview(item.kind, item.key, 'confirmed')}
+              className="p-1 text-green-300 hover:text-green-200"
+              title="Confirm"
+            >
+              <Check className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setEditing({ kind: item.kind, key: item.key, value: item.review?.value ?? item.value })}
+            className="p-1 text-blue-300 hover:text-blue-200"
+            title="Edit"
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+          {status !== 'rejected' && status !== 'added' && (
+            <button
+              type="button"
+              onClick={() => onReview(item.kind, item.key, 'rejected')}
+              className="p-1 text-red-300 hover:text-red-200"
+              title="Reject"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+          {status && (
+            <button
+              type="button"
+              onClick={() => onUndo(item.kind, item.key)}
+              className="p-1 text-white/60 hover:text-white"
+              title={status === 'added' ? 'Remove' : 'Undo review'}
+            >
+              {status === 'added' ? <X className="w-4 h-4" /> : <RotateCcw className="w-4 h-4" />}
+            </button>
+          )}
+        </div>
+      </li>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {REVIEW_SECTIONS.map(({ kind, label, canAdd }) => {
+        const sectionItems = items.filter(item => item.kind === kind)
+        if (sectionItems.length === 0 && !canAdd) return null
+
+        return (
+          <div key={kind} className="space-y-2">
+            <h4 className="text-sm font-medium text-white">{label}</h4>
+            {sectionItems.length > 0 ? (
+              <ul className="space-y-1">{sectionItems.map(renderItem)}</ul>
+            ) : (
+              <p className="text-xs text-white/50">Nothing extracted</p>
+            )}
+            {canAdd && (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={additions[kind] ?? ''}
+                  onChange={(e) => setAdditions(prev => ({ ...prev, [kind]: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && addItem(kind)}
+                  placeholder={`Add ${label.toLowerCase()}...`}
+                  className="flex-1 px-2 py-1 text-sm bg-white/5 border border-white/10 rounded text-white placeholder-white/40 focus:outline-none focus:ring-1 focus:ring-purple-400"
+                />
+                <button
+                  type="button"
+                  onClick={() => addItem(kind)}
+                  disabled={!additions[kind]?.trim()}
+                  className="p-1 text-purple-300 hover:text-purple-200 disabled:opacity-40"
+                  title={`Add to ${label.toLowerCase()}`}
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
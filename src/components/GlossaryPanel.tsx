@@ -0,0 +1,259 @@
+import { useState, useRef } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { X, BookOpen, Plus, Trash2, Upload, Download } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { glossary, type GlossaryEntry } from '../utils/glossary'
+import { LANGUAGE_NAMES } from '../utils/accessibility'
+
+interface GlossaryPanelProps {
+  showGlossary: boolean
+  setShowGlossary: (show: boolean) => void
+}
+
+const selectStyle = { backgroundColor: '#1f2937', color: 'white' }
+
+// Trigger a browser download for exported glossary files
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export const GlossaryPanel = ({ showGlossary, setShowGlossary }: GlossaryPanelProps) => {
+  const [sourceLanguage, setSourceLanguage] = useState('en')
+  const [targetLanguage, setTargetLanguage] = useState('fa')
+  const [entries, setEntries] = useState<GlossaryEntry[]>(() => glossary.getEntries('en', 'fa'))
+  const [newSourceTerm, setNewSourceTerm] = useState('')
+  const [newTargetTerm, setNewTargetTerm] = useState('')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const refreshEntries = (source = sourceLanguage, target = targetLanguage) => {
+    setEntries(glossary.getEntries(source, target))
+  }
+
+  const changePair = (source: string, target: string) => {
+    setSourceLanguage(source)
+    setTargetLanguage(target)
+    refreshEntries(source, target)
+  }
+
+  const addEntry = () => {
+    const added = glossary.addEntry({
+      sourceLanguage,
+      targetLanguage,
+      sourceTerm: newSourceTerm,
+      targetTerm: newTargetTerm
+    })
+    if (!added) {
+      toast.error('Enter both the source term and the approved translation')
+      return
+    }
+    setNewSourceTerm('')
+    setNewTargetTerm('')
+    refreshEntries()
+  }
+
+  const importFile = async (file: File) => {
+    try {
+      const content = await file.text()
+      const isTbx = /\.(tbx|xml)$/i.test(file.name) || content.trimStart().startsWith('<')
+      const imported = isTbx ? glossary.importTBX(content) : glossary.importCSV(content)
+      toast.success(`Imported ${imported} glossary terms`)
+      refreshEntries()
+    } catch (error) {
+      console.error('Glossary import failed:', error)
+      toast.error('Could not import glossary file')
+    }
+  }
+
+  return (
+    <AnimatePresence>
+      {showGlossary && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4"
+        >
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+            onClick={() => setShowGlossary(false)}
+          />
+
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="relative w-full max-w-2xl max-h-[85vh] flex flex-col bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl"
+          >
+            <div className="flex items-center justify-between p-6 border-b border-white/10">
+              <h2 className="text-xl font-bold text-white flex items-center space-x-2">
+                <BookOpen className="w-5 h-5" />
+                <span>Clinical Glossary</span>
+              </h2>
+              <motion.button
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={() => setShowGlossary(false)}
+                className="text-white/70 hover:text-white transition-colors"
+                aria-label="Close glossary"
+              >
+                <X className="w-6 h-6" />
+              </motion.button>
+            </div>
+
+            <div className="p-6 space-y-4 overflow-y-auto">
+              <p className="text-sm text-white/60">
+                Glossary terms are protected from the translation engine and always replaced with the approved translation.
+              </p>
+
+              {/* Language Pair */}
+              <div className="flex items-center space-x-2">
+                <select
+                  value={sourceLanguage}
+                  onChange={(e) => changePair(e.target.value, targetLanguage)}
+                  className="flex-1 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white"
+                  style={selectStyle}
+                  aria-label="Source language"
+                >
+                  {Object.entries(LANGUAGE_NAMES).map(([code, name]) => (
+                    <option key={code} value={code} style={selectStyle}>{name}</option>
+                  ))}
+                </select>
+                <span className="text-white/60">→</span>
+                <select
+                  value={targetLanguage}
+                  onChange={(e) => changePair(sourceLanguage, e.target.value)}
+                  className="flex-1 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white"
+                  style={selectStyle}
+                  aria-label="Target language"
+                >
+                  {Object.entries(LANGUAGE_NAMES).map(([code, name]) => (
+                    <option key={code} value={code} style={selectStyle}>{name}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Add Term */}
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={newSourceTerm}
+                  onChange={(e) => setNewSourceTerm(e.target.value)}
+                  placeholder="Source term"
+                  className="flex-1 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white placeholder-white/50"
+                />
+                <input
+                  type="text"
+                  value={newTargetTerm}
+                  onChange={(e) => setNewTargetTerm(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addEntry()}
+                  placeholder="Approved translation"
+                  className="flex-1 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white placeholder-white/50"
+                />
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={addEntry}
+                  className="p-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+                  aria-label="Add glossary term"
+                >
+                  <Plus className="w-5 h-5" />
+                </motion.button>
+              </div>
+
+              {/* Term List */}
+              <div className="space-y-2">
+                {entries.length === 0 ? (
+                  <div className="p-4 text-center text-white/60 bg-white/5 rounded-lg">
+                    No terms for this language pair
+                  </div>
+                ) : (
+                  entries.map((entry) => (
+                    <div key={entry.id} className="flex items-center space-x-2 p-2 bg-white/5 rounded-lg border border-white/10">
+                      <input
+                        type="text"
+                        defaultValue={entry.sourceTerm}
+                        onBlur={(e) => glossary.updateEntry(entry.id, { sourceTerm: e.target.value.trim() || entry.sourceTerm })}
+                        className="flex-1 bg-transparent text-white px-2 py-1 rounded hover:bg-white/10 focus:bg-white/10"
+                        aria-label="Source term"
+                      />
+                      <span className="text-white/40">→</span>
+                      <input
+                        type="text"
+                        defaultValue={entry.targetTerm}
+                        onBlur={(e) => glossary.updateEntry(entry.id, { targetTerm: e.target.value.trim() || entry.targetTerm })}
+                        className="flex-1 bg-transparent text-white px-2 py-1 rounded hover:bg-white/10 focus:bg-white/10"
+                        aria-label="Approved translation"
+                      />
+                      <motion.button
+                        whileHover={{ scale: 1.1 }}
+                        whileTap={{ scale: 0.9 }}
+                        onClick={() => {
+                          glossary.removeEntry(entry.id)
+                          refreshEntries()
+                        }}
+                        className="p-1 text-red-400 hover:text-red-300"
+                        aria-label={`Delete ${entry.sourceTerm}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </motion.button>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+
+            {/* Import / Export */}
+            <div className="flex flex-wrap gap-2 p-6 border-t border-white/10">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.tbx,.xml"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) importFile(file)
+                  e.target.value = ''
+                }}
+              />
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+              >
+                <Upload className="w-4 h-4" />
+                <span>Import CSV/TBX</span>
+              </motion.button>
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => downloadFile(glossary.exportCSV(), 'glossary.csv', 'text/csv')}
+                className="flex items-center space-x-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                <span>Export CSV</span>
+              </motion.button>
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => downloadFile(glossary.exportTBX(), 'glossary.tbx', 'application/x-tbx+xml')}
+                className="flex items-center space-x-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                <span>Export TBX</span>
+              </motion.button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
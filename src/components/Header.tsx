@@ -6,7 +6,9 @@ import {
   Save,
   FolderOpen,
   Trash,
-  FileText
+  FileText,
+  Languages,
+  FileAudio
 } from 'lucide-react'
 import { getAccessibilityProps, handleKeyboardNavigation } from '../utils/accessibility'
 
@@ -23,6 +25,8 @@ interface HeaderProps {
   setShowSaveDialog: (show: boolean) => void
   setShowLoadDialog: (show: boolean) => void
   setShowDeleteDialog: (show: boolean) => void
+  setShowTranslateCaseDialog: (show: boolean) => void
+  setShowTranscribeRecordingDialog: (show: boolean) => void
   clearConversation: () => void
 }
 
@@ -39,6 +43,8 @@ export const Header = ({
   setShowSaveDialog,
   setShowLoadDialog,
   setShowDeleteDialog,
+  setShowTranslateCaseDialog,
+  setShowTranscribeRecordingDialog,
   clearConversation
 }: HeaderProps) => {
   return (
@@ -179,6 +185,34 @@ export const Header = ({
               <span>Load Case</span>
             </motion.button>
 
+            {/* Translate Option */}
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => {
+                setShowTranslateCaseDialog(true)
+                setShowHamburgerMenu(false)
+              }}
+              className="w-full flex items-center space-x-3 p-3 rounded-lg bg-white/10 hover:bg-white/20 transition-all duration-200 text-white"
+            >
+              <Languages className="w-5 h-5" />
+              <span>Translate Case</span>
+            </motion.button>
+
+            {/* Import Recording Option */}
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => {
+                setShowTranscribeRecordingDialog(true)
+                setShowHamburgerMenu(false)
+              }}
+              className="w-full flex items-center space-x-3 p-3 rounded-lg bg-white/10 hover:bg-white/20 transition-all duration-200 text-white"
+            >
+              <FileAudio className="w-5 h-5" />
+              <span>Import Recording</span>
+            </motion.button>
+
             {/* Clear Option */}
             <motion.button
               whileHover={{ scale: 1.02 }}
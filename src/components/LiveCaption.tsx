@@ -0,0 +1,29 @@
+import { motion } from 'framer-motion'
+import { Captions } from 'lucide-react'
+
+interface LiveCaptionProps {
+  interimTranscript: string
+  stopPhrase: string
+}
+
+export const LiveCaption = ({ interimTranscript, stopPhrase }: LiveCaptionProps) => {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-6 p-4 rounded-2xl bg-black/30 border border-white/20 text-white"
+      aria-live="polite"
+    >
+      <div className="flex items-center justify-between mb-2 text-xs text-white/60">
+        <div className="flex items-center space-x-2">
+          <Captions className="w-4 h-4" />
+          <span>Live caption</span>
+        </div>
+        <span>Pause to translate · say "{stopPhrase}" or press Space to stop</span>
+      </div>
+      <p className={`text-base sm:text-lg min-h-[1.75rem] ${interimTranscript ? '' : 'text-white/40 italic'}`}>
+        {interimTranscript || 'Listening...'}
+      </p>
+    </motion.div>
+  )
+}
@@ -1,10 +1,166 @@
-import type { MedicalExtraction } from '../utils/medicalExtraction'
+import type { ReactNode } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { MedicalExtractionService, type MedicalExtraction, type SymptomStatus, type FindingSource } from '../utils/medicalExtraction'
+import { VITAL_SIGN_LABELS, type VitalSign, type VitalFlag } from '../utils/vitalSigns'
+import { LANGUAGE_NAMES } from '../utils/accessibility'
 
 interface MedicalSummaryProps {
   extraction: MedicalExtraction
   aiStatus: 'active' | 'inactive' | 'checking'
 }
 
+const SYMPTOM_GROUPS: { status: SymptomStatus; label: string; className: string }[] = [
+  { status: 'present', label: 'Symptoms', className: 'bg-blue-500/20 text-blue-200 border-blue-400/30' },
+  { status: 'uncertain', label: 'Possible Symptoms', className: 'bg-yellow-500/20 text-yellow-200 border-yellow-400/30' },
+  { status: 'historical', label: 'Past Symptoms', className: 'bg-gray-500/20 text-gray-200 border-gray-400/30' },
+  { status: 'absent', label: 'Denied Symptoms', className: 'bg-white/5 text-white/60 border-white/20 line-through' }
+]
+
+// The words a finding was found as, e.g. '"تب" (Persian), "fever" (English, translation)'
+const describeSources = (sources: FindingSource[]): string | undefined => {
+  if (sources.length === 0) return undefined
+  const descriptions = sources.map(source =>
+    `"${source.matched}" (${LANGUAGE_NAMES[source.language] || source.language}${source.field === 'translatedText' ? ', translation' : ''})`
+  )
+  return [...new Set(descriptions)].join(', ')
+}
+
+// The latest mention, in the speaker's own words when there are any
+const preferredSource = (sources: FindingSource[]): FindingSource | undefined => {
+  const linked = sources.filter(source => source.messageId).reverse()
+  return linked.find(source => source.field === 'text') || linked[0]
+}
+
+interface TraceableItemProps {
+  sources: FindingSource[]
+  onSelectSource?: (source: FindingSource) => void
+  className?: string
+  children: ReactNode
+}
+
+// A finding that, given onSelectSource, can be clicked to show where it was said
+export const TraceableItem = ({ sources, onSelectSource, className = '', children }: TraceableItemProps) => {
+  const description = describeSources(sources)
+  if (!onSelectSource) {
+    return <span className={className} title={description}>{children}</span>
+  }
+
+  const source = preferredSource(sources)
+  return (
+    <button
+      type="button"
+      onClick={() => source && onSelectSource(source)}
+      disabled={!source}
+      className={`${className} ${source ? 'cursor-pointer hover:ring-1 hover:ring-white/50' : 'cursor-help border-dashed'}`}
+      title={source ? `Show in conversation: ${description}` : 'Not found in the conversation - verify before relying on it'}
+    >
+      {children}
+    </button>
+  )
+}
+
+interface FindingListProps {
+  extraction: MedicalExtraction
+  onSelectSource?: (source: FindingSource) => void
+}
+
+// Symptoms split into present, possible, past and denied
+export const SymptomGroups = ({ extraction, onSelectSource }: FindingListProps) => {
+  const groups = MedicalExtractionService.groupSymptoms(extraction)
+
+  return (
+    <>
+      {SYMPTOM_GROUPS.filter(({ status }) => groups[status].length > 0).map(({ status, label, className }) => (
+        <div key={status} className="space-y-2">
+          <h4 className="text-sm font-medium text-white">{label}</h4>
+          <div className="flex flex-wrap gap-2">
+            {groups[status].map((symptom, index) => (
+              <TraceableItem
+                key={index}
+                sources={MedicalExtractionService.getSources(extraction, 'symptoms', symptom)}
+                onSelectSource={onSelectSource}
+                className={`px-2 py-1 text-xs rounded-full border ${className}`}
+              >
+                {symptom}
+              </TraceableItem>
+            ))}
+          </div>
+        </div>
+      ))}
+    </>
+  )
+}
+
+const VITAL_FLAG_STYLES: Record<VitalFlag, string> = {
+  normal: 'bg-white/5',
+  low: 'bg-yellow-500/20 border border-yellow-400/40',
+  high: 'bg-yellow-500/20 border border-yellow-400/40',
+  critical: 'bg-red-500/30 border border-red-400/60'
+}
+
+// Vital signs with out-of-range readings flagged
+export const VitalSignGrid = ({ extraction, onSelectSource }: FindingListProps) => {
+  // Extractions from the AI only carry display strings
+  const readings = extraction.vitalSignReadings || (Object.entries(extraction.vitalSigns) as [VitalSign, string | undefined][])
+    .filter(([sign, value]) => value && sign in VITAL_SIGN_LABELS)
+    .map(([sign, value]) => ({ sign, display: value!, flag: 'normal' as VitalFlag }))
+
+  if (readings.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-white">Vital Signs</h4>
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        {readings.map((reading) => (
+          <div key={reading.sign} className={`rounded p-2 flex items-center justify-between ${VITAL_FLAG_STYLES[reading.flag]}`}>
+            <TraceableItem
+              sources={MedicalExtractionService.getSources(extraction, 'vitalSigns', reading.sign)}
+              onSelectSource={onSelectSource}
+              className="text-left rounded"
+            >
+              <span className="text-white/60">{VITAL_SIGN_LABELS[reading.sign]}:</span> {reading.display}
+            </TraceableItem>
+            {reading.flag !== 'normal' && (
+              <span className={`flex items-center space-x-1 uppercase font-semibold ${reading.flag === 'critical' ? 'text-red-200' : 'text-yellow-200'}`}>
+                {reading.flag === 'critical' && <AlertTriangle className="w-3 h-3" />}
+                <span>{reading.flag}</span>
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Fired red-flag rules with why they fired
+export const RedFlagList = ({ extraction }: { extraction: MedicalExtraction }) => {
+  if (!extraction.redFlags?.length) return null
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-white">Red Flags</h4>
+      <div className="space-y-2">
+        {extraction.redFlags.map((flag) => (
+          <div key={flag.ruleId} className="p-2 rounded bg-red-500/20 border border-red-400/40 text-xs">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center space-x-1 font-semibold text-red-100">
+                <AlertTriangle className="w-3 h-3" />
+                <span>{flag.name}</span>
+              </span>
+              <span className="uppercase text-red-200">{flag.urgency}</span>
+            </div>
+            <div className="text-white/80 mt-1">{flag.explanation}</div>
+            {flag.evidence.length > 0 && (
+              <div className="text-white/50 mt-1">Based on: {flag.evidence.join(', ')}</div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
 export const MedicalSummary = ({ extraction, aiStatus }: MedicalSummaryProps) => {
   return (
     <div className="bg-white/10 backdrop-blur-sm border border-white/20 rounded-lg p-4 space-y-4">
@@ -12,10 +168,18 @@ export const MedicalSummary = ({ extraction, aiStatus }: MedicalSummaryProps) =>
         <h3 className="text-lg font-semibold text-white">Medical Summary</h3>
         <div className="flex items-center space-x-2">
           <div className={`w-3 h-3 rounded-full ${
+            extraction.severity === 'critical' ? 'bg-red-600 animate-pulse' :
             extraction.severity === 'high' ? 'bg-red-400' :
             extraction.severity === 'medium' ? 'bg-yellow-400' : 'bg-green-400'
           }`}></div>
           <span className="text-xs text-white/60 capitalize">{extraction.severity} severity</span>
+          {extraction.urgency !== 'routine' && (
+            <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${
+              extraction.urgency === 'emergency' ? 'bg-red-500/20 text-red-300' : 'bg-orange-500/20 text-orange-300'
+            }`}>
+              {extraction.urgency}
+            </span>
+          )}
           <div className="flex items-center space-x-1 ml-2">
             <div className={`w-2 h-2 rounded-full ${
               aiStatus === 'active' ? 'bg-green-400' : 'bg-gray-400'
@@ -27,6 +191,9 @@ export const MedicalSummary = ({ extraction, aiStatus }: MedicalSummaryProps) =>
         </div>
       </div>
       
+      {/* Red Flags */}
+      <RedFlagList extraction={extraction} />
+      
       {/* Pain Level */}
       {extraction.painLevel > 0 && (
         <div className="space-y-2">
@@ -47,18 +214,7 @@ export const MedicalSummary = ({ extraction, aiStatus }: MedicalSummaryProps) =>
       )}
       
       {/* Symptoms */}
-      {extraction.symptoms.length > 0 && (
-        <div className="space-y-2">
-          <h4 className="text-sm font-medium text-white">Symptoms</h4>
-          <div className="flex flex-wrap gap-2">
-            {extraction.symptoms.map((symptom, index) => (
-              <span key={index} className="px-2 py-1 bg-blue-500/20 text-blue-200 text-xs rounded-full border border-blue-400/30">
-                {symptom}
-              </span>
-            ))}
-          </div>
-        </div>
-      )}
+      <SymptomGroups extraction={extraction} />
       
       {/* Medications */}
       {extraction.medications.length > 0 && (
@@ -148,42 +304,7 @@ export const MedicalSummary = ({ extraction, aiStatus }: MedicalSummaryProps) =>
       )}
       
       {/* Vital Signs */}
-      {(extraction.vitalSigns.bloodPressure || 
-        extraction.vitalSigns.temperature || 
-        extraction.vitalSigns.heartRate || 
-        extraction.vitalSigns.weight || 
-        extraction.vitalSigns.height) && (
-        <div className="space-y-2">
-          <h4 className="text-sm font-medium text-white">Vital Signs</h4>
-          <div className="grid grid-cols-2 gap-2 text-xs">
-            {extraction.vitalSigns.bloodPressure && (
-              <div className="bg-white/5 rounded p-2">
-                <span className="text-white/60">BP:</span> {extraction.vitalSigns.bloodPressure}
-              </div>
-            )}
-            {extraction.vitalSigns.temperature && (
-              <div className="bg-white/5 rounded p-2">
-                <span className="text-white/60">Temp:</span> {extraction.vitalSigns.temperature}
-              </div>
-            )}
-            {extraction.vitalSigns.heartRate && (
-              <div className="bg-white/5 rounded p-2">
-                <span className="text-white/60">HR:</span> {extraction.vitalSigns.heartRate}
-              </div>
-            )}
-            {extraction.vitalSigns.weight && (
-              <div className="bg-white/5 rounded p-2">
-                <span className="text-white/60">Weight:</span> {extraction.vitalSigns.weight}
-              </div>
-            )}
-            {extraction.vitalSigns.height && (
-              <div className="bg-white/5 rounded p-2">
-                <span className="text-white/60">Height:</span> {extraction.vitalSigns.height}
-              </div>
-            )}
-          </div>
-        </div>
-      )}
+      <VitalSignGrid extraction={extraction} />
       
       {/* Diagnosis */}
       {extraction.diagnosis.length > 0 && (
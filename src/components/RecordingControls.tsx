@@ -4,7 +4,8 @@ import {
   MicOff,
   RotateCcw,
   Stethoscope,
-  MessageSquare
+  MessageSquare,
+  Radio
 } from 'lucide-react'
 import { getAccessibilityProps, handleKeyboardNavigation } from '../utils/accessibility'
 import type { MedicalExtraction } from '../utils/medicalExtraction'
@@ -15,6 +16,8 @@ interface RecordingControlsProps {
   medicalExtraction: MedicalExtraction | null
   conversationSummary: any
   startRecording: () => void
+  continuousDictation: boolean
+  setContinuousDictation: (enabled: boolean) => void
   setShowManualInput: (show: boolean) => void
   clearMessages: () => void
   setShowMedicalSummaryModal: (show: boolean) => void
@@ -27,6 +30,8 @@ export const RecordingControls = ({
   medicalExtraction,
   conversationSummary,
   startRecording,
+  continuousDictation,
+  setContinuousDictation,
   setShowManualInput,
   clearMessages,
   setShowMedicalSummaryModal,
@@ -42,6 +47,23 @@ export const RecordingControls = ({
       >
         <span>Text Input</span>
       </motion.button>
+
+      {/* One utterance per click, or continuous dictation until stopped */}
+      <motion.button
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        onClick={() => setContinuousDictation(!continuousDictation)}
+        aria-pressed={continuousDictation}
+        title={continuousDictation ? 'Continuous dictation - press Space to start or stop' : 'Single utterance per click'}
+        className={`backdrop-blur-sm border text-white px-4 sm:px-6 py-2 sm:py-3 rounded-xl transition-all duration-200 flex items-center space-x-2 text-sm sm:text-base ${
+          continuousDictation
+            ? 'bg-purple-500/30 border-purple-400/50 hover:bg-purple-500/40'
+            : 'bg-white/10 border-white/20 hover:bg-white/20'
+        }`}
+      >
+        <Radio className="w-4 h-4 sm:w-5 sm:h-5" />
+        <span>{continuousDictation ? 'Continuous' : 'Single'}</span>
+      </motion.button>
       
       {/* Main Recording Button */}
       <motion.button
@@ -0,0 +1,39 @@
+import { motion } from 'framer-motion'
+import { Siren } from 'lucide-react'
+import type { FiredRedFlag } from '../utils/redFlagRules'
+
+interface RedFlagBannerProps {
+  redFlags: FiredRedFlag[]
+}
+
+// Stays on screen for as long as the conversation contains the red flag
+export const RedFlagBanner = ({ redFlags }: RedFlagBannerProps) => {
+  if (redFlags.length === 0) return null
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-6 p-4 rounded-2xl bg-red-600/30 border-2 border-red-400/70 text-white shadow-2xl"
+      role="alert"
+    >
+      <div className="flex items-center space-x-2 mb-2">
+        <Siren className="w-5 h-5 text-red-200 animate-pulse" />
+        <span className="font-semibold">
+          {redFlags.length === 1 ? 'Red flag' : `${redFlags.length} red flags`} detected
+        </span>
+      </div>
+      <ul className="space-y-2">
+        {redFlags.map((flag) => (
+          <li key={flag.ruleId} className="text-sm">
+            <div className="flex items-center space-x-2">
+              <span className="font-medium">{flag.name}</span>
+              <span className="px-2 py-0.5 rounded-full text-xs uppercase bg-red-500/40 text-red-100">{flag.urgency}</span>
+            </div>
+            <div className="text-white/80">{flag.explanation}</div>
+          </li>
+        ))}
+      </ul>
+    </motion.div>
+  )
+}
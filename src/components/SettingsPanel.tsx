@@ -1,5 +1,12 @@
+import { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { X, Shield, Globe, Key, Trash2, Edit } from 'lucide-react'
+import { X, Shield, Globe, Key, Trash2, Edit, Server, Repeat, BookOpen, Mic, Volume2, Siren } from 'lucide-react'
+import type { ConsensusMode, ProviderConfig } from '../utils/translationService'
+import type { LanguageDetectionMode } from '../utils/languageDetection'
+import type { SpeechEngineId } from '../utils/speechEngines'
+import { textToSpeech, SAMPLE_PHRASES, type VoiceSettings, type TtsEngineId } from '../utils/textToSpeech'
+import { LANGUAGE_NAMES } from '../utils/accessibility'
+import { redFlagRules } from '../utils/redFlagRules'
 
 interface Provider {
   id: string
@@ -31,9 +38,310 @@ interface SettingsPanelProps {
   editApiKey: (name: string) => void
   isCloudProvider: (providerId: string) => boolean
   getApiKeyNamesForProvider: (providerId: string) => string[]
+  providerConfigs: Record<string, ProviderConfig>
+  saveProviderConfig: (provider: string, config: ProviderConfig) => void
+  discoverProviderLanguages: (provider: string) => Promise<string[]>
+  backTranslationEnabled: boolean
+  setBackTranslationEnabled: (enabled: boolean) => void
+  consensusMode: ConsensusMode
+  setConsensusMode: (mode: ConsensusMode) => void
+  languageDetectionMode: LanguageDetectionMode
+  setLanguageDetectionMode: (mode: LanguageDetectionMode) => void
+  autoRoleEnabled: boolean
+  setAutoRoleEnabled: (enabled: boolean) => void
+  speechEngines: { id: SpeechEngineId; name: string; supported: boolean }[]
+  speechEngine: SpeechEngineId
+  setSpeechEngine: (engine: SpeechEngineId) => void
+  speechEngineConfig: ProviderConfig
+  saveSpeechEngineConfig: (engine: SpeechEngineId, config: ProviderConfig) => void
+  onOpenGlossary: () => void
+  onClearTranslationMemory: () => void
   hipaaCompliance: any
 }
 
+interface ProviderEndpointSettingsProps {
+  providerId: string
+  config: ProviderConfig
+  showModel: boolean
+  onSave: (provider: string, config: ProviderConfig) => void
+  onDiscoverLanguages?: (provider: string) => Promise<string[]>
+  urlPlaceholder?: string
+  modelPlaceholder?: string
+}
+
+// Base URL / model form for self-hosted providers
+const ProviderEndpointSettings = ({
+  providerId,
+  config,
+  showModel,
+  onSave,
+  onDiscoverLanguages,
+  urlPlaceholder = 'Server URL (e.g. http://192.168.1.20:8080)',
+  modelPlaceholder = 'Model name (e.g. llama3.1:8b)'
+}: ProviderEndpointSettingsProps) => {
+  const [baseUrl, setBaseUrl] = useState(config.baseUrl || '')
+  const [model, setModel] = useState(config.model || '')
+  const [languages, setLanguages] = useState<string[] | null>(null)
+
+  return (
+    <div className="space-y-3 p-4 bg-white/5 rounded-lg border border-white/10">
+      <input
+        type="url"
+        placeholder={urlPlaceholder}
+        value={baseUrl}
+        onChange={(e) => setBaseUrl(e.target.value)}
+        className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white placeholder-white/50"
+        aria-label="Server URL"
+      />
+      {showModel && (
+        <input
+          type="text"
+          placeholder={modelPlaceholder}
+          value={model}
+          onChange={(e) => setModel(e.target.value)}
+          className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white placeholder-white/50"
+          aria-label="Model name"
+        />
+      )}
+      <div className="flex space-x-2">
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={() => onSave(providerId, showModel ? { baseUrl, model } : { baseUrl })}
+          disabled={!baseUrl.trim() || (showModel && !model.trim())}
+          className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+        >
+          Save Endpoint
+        </motion.button>
+        {onDiscoverLanguages && (
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={async () => setLanguages(await onDiscoverLanguages(providerId))}
+            disabled={!config.baseUrl}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            List Languages
+          </motion.button>
+        )}
+      </div>
+      {languages && languages.length > 0 && (
+        <div className="text-xs text-white/70">
+          Installed languages: {languages.join(', ')}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Voice, rate, pitch and volume per playback language
+const VoicePlaybackSettings = () => {
+  const [engine, setEngine] = useState<TtsEngineId>(() => textToSpeech.getSelectedEngineId())
+  const [engineConfig, setEngineConfig] = useState(() => textToSpeech.getEngineConfig('server'))
+  const [language, setLanguage] = useState('en')
+  const [settings, setSettings] = useState<VoiceSettings>(() => textToSpeech.getSettings('en'))
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => textToSpeech.getVoices('en'))
+
+  useEffect(() => {
+    setVoices(textToSpeech.getVoices(language))
+    return textToSpeech.onVoicesChanged(() => setVoices(textToSpeech.getVoices(language)))
+  }, [language])
+
+  const selectLanguage = (code: string) => {
+    setLanguage(code)
+    setSettings(textToSpeech.getSettings(code))
+  }
+
+  const updateSettings = (changes: Partial<VoiceSettings>) => {
+    const next = { ...settings, ...changes }
+    setSettings(next)
+    textToSpeech.setSettings(language, next)
+  }
+
+  const selectEngine = (engineId: TtsEngineId) => {
+    textToSpeech.setSelectedEngine(engineId)
+    setEngine(engineId)
+  }
+
+  const sliders: { key: 'rate' | 'pitch' | 'volume'; label: string; min: number; max: number }[] = [
+    { key: 'rate', label: 'Rate', min: 0.5, max: 2 },
+    { key: 'pitch', label: 'Pitch', min: 0, max: 2 },
+    { key: 'volume', label: 'Volume', min: 0, max: 1 }
+  ]
+
+  return (
+    <>
+      <div className="flex items-center justify-between p-3 bg-white/5 rounded-lg border border-white/10">
+        <div>
+          <div className="text-white">Text-to-speech engine</div>
+          <div className="text-xs text-white/60">Browser voices depend on the operating system; many have none for Persian or Arabic.</div>
+        </div>
+        <select
+          value={engine}
+          onChange={(e) => selectEngine(e.target.value as TtsEngineId)}
+          className="ml-3 bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-sm text-white"
+          style={{ backgroundColor: '#1f2937', color: 'white' }}
+          aria-label="Text-to-speech engine"
+        >
+          {textToSpeech.getAvailableEngines().map((option) => (
+            <option key={option.id} value={option.id} style={{ backgroundColor: '#1f2937', color: 'white' }}>
+              {option.name}{option.supported ? '' : ' (unsupported)'}
+            </option>
+          ))}
+        </select>
+      </div>
+      {engine === 'server' && (
+        <ProviderEndpointSettings
+          providerId="server"
+          config={engineConfig}
+          showModel={false}
+          onSave={(_, config) => {
+            textToSpeech.setEngineConfig('server', config)
+            setEngineConfig(config)
+          }}
+          urlPlaceholder="Synthesis URL (e.g. http://192.168.1.20:5000/)"
+        />
+      )}
+      <div className="space-y-3 p-4 bg-white/5 rounded-lg border border-white/10">
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={language}
+            onChange={(e) => selectLanguage(e.target.value)}
+            className="bg-white/10 border border-white/20 rounded-lg px-2 py-2 text-sm text-white"
+            style={{ backgroundColor: '#1f2937', color: 'white' }}
+            aria-label="Playback language"
+          >
+            {Object.entries(LANGUAGE_NAMES).map(([code, name]) => (
+              <option key={code} value={code} style={{ backgroundColor: '#1f2937', color: 'white' }}>{name}</option>
+            ))}
+          </select>
+          {engine === 'server' ? (
+            <input
+              type="text"
+              placeholder="Server voice (e.g. fa_IR-amir-medium)"
+              value={settings.serverVoice || ''}
+              onChange={(e) => updateSettings({ serverVoice: e.target.value || undefined })}
+              className="bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm text-white placeholder-white/50"
+              aria-label="Server voice"
+            />
+          ) : (
+            <select
+              value={settings.voiceURI || ''}
+              onChange={(e) => updateSettings({ voiceURI: e.target.value || undefined })}
+              className="bg-white/10 border border-white/20 rounded-lg px-2 py-2 text-sm text-white"
+              style={{ backgroundColor: '#1f2937', color: 'white' }}
+              aria-label="Voice"
+            >
+              <option value="" style={{ backgroundColor: '#1f2937', color: 'white' }}>Browser default</option>
+              {voices.map((voice) => (
+                <option key={voice.voiceURI} value={voice.voiceURI} style={{ backgroundColor: '#1f2937', color: 'white' }}>
+                  {voice.name}{voice.localService ? '' : ' (online)'}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        {engine === 'browser' && !textToSpeech.isSupported() && (
+          <div className="text-xs text-orange-200">Speech playback is not supported in this browser.</div>
+        )}
+        {engine === 'browser' && textToSpeech.isSupported() && voices.length === 0 && (
+          <div className="text-xs text-orange-200">No {LANGUAGE_NAMES[language]} voice is installed; the browser may read it with another language's voice.</div>
+        )}
+        {sliders.map(({ key, label, min, max }) => (
+          <label key={key} className="flex items-center space-x-3 text-sm text-white/80">
+            <span className="w-14">{label}</span>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={0.1}
+              value={settings[key]}
+              onChange={(e) => updateSettings({ [key]: parseFloat(e.target.value) })}
+              className="flex-1 accent-blue-500"
+            />
+            <span className="w-8 text-right text-xs text-white/60">{settings[key].toFixed(1)}</span>
+          </label>
+        ))}
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={() => textToSpeech.speak(SAMPLE_PHRASES[language] || SAMPLE_PHRASES.en, language)}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors text-sm"
+        >
+          Test Voice
+        </motion.button>
+      </div>
+    </>
+  )
+}
+
+// JSON editor for the red-flag rules
+const RedFlagRulesEditor = () => {
+  const [json, setJson] = useState(() => redFlagRules.getRulesJson())
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const save = () => {
+    try {
+      redFlagRules.setRulesFromJson(json)
+      setJson(redFlagRules.getRulesJson())
+      setError(null)
+      setSaved(true)
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError))
+      setSaved(false)
+    }
+  }
+
+  const reset = () => {
+    redFlagRules.resetRules()
+    setJson(redFlagRules.getRulesJson())
+    setError(null)
+    setSaved(true)
+  }
+
+  return (
+    <div className="space-y-3 p-4 bg-white/5 rounded-lg border border-white/10">
+      <div className="text-xs text-white/60">
+        Each rule fires when every "all" condition and at least one "any" condition matches. Conditions are
+        {' '}<code>{'{ "symptom": "chest pain" }'}</code>, <code>{'{ "phrases": ["..."] }'}</code> or
+        {' '}<code>{'{ "vital": "oxygenSaturation", "below": 92 }'}</code>. Changes apply from the next message.
+      </div>
+      <textarea
+        value={json}
+        onChange={(e) => {
+          setJson(e.target.value)
+          setSaved(false)
+        }}
+        rows={12}
+        spellCheck={false}
+        className="w-full bg-black/30 border border-white/20 rounded-lg px-3 py-2 text-xs font-mono text-white"
+        aria-label="Red-flag rules JSON"
+      />
+      {error && <div className="text-xs text-red-300" role="alert">{error}</div>}
+      {saved && !error && <div className="text-xs text-green-300">Rules saved</div>}
+      <div className="flex space-x-2">
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={save}
+          className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+        >
+          Save Rules
+        </motion.button>
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={reset}
+          className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+        >
+          Reset to Defaults
+        </motion.button>
+      </div>
+    </div>
+  )
+}
+
 export const SettingsPanel = ({
   showSettings,
   setShowSettings,
@@ -57,8 +365,28 @@ export const SettingsPanel = ({
   editApiKey,
   isCloudProvider,
   getApiKeyNamesForProvider,
+  providerConfigs,
+  saveProviderConfig,
+  discoverProviderLanguages,
+  backTranslationEnabled,
+  setBackTranslationEnabled,
+  consensusMode,
+  setConsensusMode,
+  languageDetectionMode,
+  setLanguageDetectionMode,
+  autoRoleEnabled,
+  setAutoRoleEnabled,
+  speechEngines,
+  speechEngine,
+  setSpeechEngine,
+  speechEngineConfig,
+  saveSpeechEngineConfig,
+  onOpenGlossary,
+  onClearTranslationMemory,
   hipaaCompliance
 }: SettingsPanelProps) => {
+  const selectedProviderInfo = providers.find(p => p.id === selectedProvider)
+
   return (
     <AnimatePresence>
       {showSettings && (
@@ -109,7 +437,14 @@ export const SettingsPanel = ({
                     <div className="flex items-center justify-between">
                       <div>
                         <div className="font-medium">{provider.name}</div>
-                        <div className="text-sm opacity-70 capitalize">{provider.type}</div>
+                        {provider.type === 'local' ? (
+                          <span className="inline-flex items-center space-x-1 mt-1 px-2 py-0.5 rounded-full text-xs bg-green-500/20 text-green-300 border border-green-400/30">
+                            <Server className="w-3 h-3" />
+                            <span>Local · data stays on-site</span>
+                          </span>
+                        ) : (
+                          <div className="text-sm opacity-70 capitalize">{provider.type}</div>
+                        )}
                       </div>
                       <div className={`w-3 h-3 rounded-full ${
                         provider.status === 'available' ? 'bg-green-400' : 'bg-red-400'
@@ -120,6 +455,24 @@ export const SettingsPanel = ({
               </div>
             </div>
 
+            {/* Endpoint settings for self-hosted providers */}
+            {selectedProviderInfo?.type === 'local' && (
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+                  <Server className="w-5 h-5" />
+                  <span>Server Endpoint</span>
+                </h3>
+                <ProviderEndpointSettings
+                  key={selectedProvider}
+                  providerId={selectedProvider}
+                  config={providerConfigs[selectedProvider] || {}}
+                  showModel={selectedProvider === 'local'}
+                  onSave={saveProviderConfig}
+                  onDiscoverLanguages={selectedProvider === 'libretranslate' ? discoverProviderLanguages : undefined}
+                />
+              </div>
+            )}
+
             {/* API Key Management - Only show for providers that need API keys */}
             {selectedProvider !== 'mymemory' && (
               <div className="space-y-4">
@@ -131,7 +484,10 @@ export const SettingsPanel = ({
                 {/* Provider-specific API keys */}
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
-                    <span className="text-white/80">API Keys for {providers.find(p => p.id === selectedProvider)?.name}</span>
+                    <span className="text-white/80">
+                      API Keys for {selectedProviderInfo?.name}
+                      {selectedProviderInfo?.type === 'local' && ' (optional)'}
+                    </span>
                     <motion.button
                       whileHover={{ scale: 1.05 }}
                       whileTap={{ scale: 0.95 }}
@@ -274,6 +630,161 @@ export const SettingsPanel = ({
               </div>
             )}
 
+            {/* Speech Recognition Engine */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+                <Mic className="w-5 h-5" />
+                <span>Speech Recognition</span>
+              </h3>
+              <div className="flex items-center justify-between p-3 bg-white/5 rounded-lg border border-white/10">
+                <div>
+                  <div className="text-white">Speech-to-text engine</div>
+                  <div className="text-xs text-white/60">The browser engine sends audio to the browser vendor (Google in Chrome) and is unavailable in Firefox.</div>
+                </div>
+                <select
+                  value={speechEngine}
+                  onChange={(e) => setSpeechEngine(e.target.value as SpeechEngineId)}
+                  className="ml-3 bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-sm text-white"
+                  style={{ backgroundColor: '#1f2937', color: 'white' }}
+                  aria-label="Speech-to-text engine"
+                >
+                  {speechEngines.map((engine) => (
+                    <option key={engine.id} value={engine.id} style={{ backgroundColor: '#1f2937', color: 'white' }}>
+                      {engine.name}{engine.supported ? '' : ' (unsupported)'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {speechEngine === 'whisper' && (
+                <ProviderEndpointSettings
+                  providerId="whisper"
+                  config={speechEngineConfig}
+                  showModel
+                  onSave={(engine, config) => saveSpeechEngineConfig(engine as SpeechEngineId, config)}
+                  urlPlaceholder="Transcription URL (e.g. http://192.168.1.20:8080/inference)"
+                  modelPlaceholder="Model name (e.g. whisper-1)"
+                />
+              )}
+            </div>
+
+            {/* Red-Flag Rules */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+                <Siren className="w-5 h-5" />
+                <span>Red-Flag Rules</span>
+              </h3>
+              <RedFlagRulesEditor />
+            </div>
+
+            {/* Voice Playback */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+                <Volume2 className="w-5 h-5" />
+                <span>Voice Playback</span>
+              </h3>
+              <VoicePlaybackSettings />
+            </div>
+
+            {/* Translation Verification */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+                <Repeat className="w-5 h-5" />
+                <span>Translation Verification</span>
+              </h3>
+              <label className="flex items-center justify-between p-3 bg-white/5 rounded-lg border border-white/10 cursor-pointer">
+                <div>
+                  <div className="text-white">Back-translation check</div>
+                  <div className="text-xs text-white/60">Translates each output back and flags messages that drifted. Doubles provider usage.</div>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={backTranslationEnabled}
+                  onChange={(e) => setBackTranslationEnabled(e.target.checked)}
+                  className="w-5 h-5 accent-blue-500 ml-3"
+                />
+              </label>
+              <div className="flex items-center justify-between p-3 bg-white/5 rounded-lg border border-white/10">
+                <div>
+                  <div className="text-white">Consensus translation</div>
+                  <div className="text-xs text-white/60">Sends high-risk messages (dosages, allergies, consent) to several providers and compares the results.</div>
+                </div>
+                <select
+                  value={consensusMode}
+                  onChange={(e) => setConsensusMode(e.target.value as ConsensusMode)}
+                  className="ml-3 bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-sm text-white"
+                  style={{ backgroundColor: '#1f2937', color: 'white' }}
+                  aria-label="Consensus translation"
+                >
+                  <option value="off" style={{ backgroundColor: '#1f2937', color: 'white' }}>Off</option>
+                  <option value="auto" style={{ backgroundColor: '#1f2937', color: 'white' }}>High-risk only</option>
+                  <option value="always" style={{ backgroundColor: '#1f2937', color: 'white' }}>Always</option>
+                </select>
+              </div>
+              <div className="flex items-center justify-between p-3 bg-white/5 rounded-lg border border-white/10">
+                <div>
+                  <div className="text-white">Language detection</div>
+                  <div className="text-xs text-white/60">Checks each utterance against the "Speak in" language before translating.</div>
+                </div>
+                <select
+                  value={languageDetectionMode}
+                  onChange={(e) => setLanguageDetectionMode(e.target.value as LanguageDetectionMode)}
+                  className="ml-3 bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-sm text-white"
+                  style={{ backgroundColor: '#1f2937', color: 'white' }}
+                  aria-label="Language detection"
+                >
+                  <option value="off" style={{ backgroundColor: '#1f2937', color: 'white' }}>Off</option>
+                  <option value="warn" style={{ backgroundColor: '#1f2937', color: 'white' }}>Warn</option>
+                  <option value="auto" style={{ backgroundColor: '#1f2937', color: 'white' }}>Auto-correct</option>
+                </select>
+              </div>
+              <label className="flex items-center justify-between p-3 bg-white/5 rounded-lg border border-white/10 cursor-pointer">
+                <div>
+                  <div className="text-white">Automatic speaker roles</div>
+                  <div className="text-xs text-white/60">Labels an utterance in the other party's language as theirs and switches roles, instead of relying on the Doctor/Patient toggle.</div>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={autoRoleEnabled}
+                  onChange={(e) => setAutoRoleEnabled(e.target.checked)}
+                  className="w-5 h-5 accent-blue-500 ml-3"
+                />
+              </label>
+              <div className="flex items-center justify-between p-3 bg-white/5 rounded-lg border border-white/10">
+                <div>
+                  <div className="text-white">Translation memory</div>
+                  <div className="text-xs text-white/60">Encrypted cache of past translations, reused before calling a provider.</div>
+                </div>
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => {
+                    if (window.confirm('Clear all cached translations?')) {
+                      onClearTranslationMemory()
+                    }
+                  }}
+                  className="ml-3 px-3 py-1 text-sm bg-red-600/80 hover:bg-red-700 text-white rounded-lg transition-colors"
+                >
+                  Clear
+                </motion.button>
+              </div>
+            </div>
+
+            {/* Clinical Glossary */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+                <BookOpen className="w-5 h-5" />
+                <span>Clinical Glossary</span>
+              </h3>
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={onOpenGlossary}
+                className="w-full p-3 bg-white/10 border border-white/20 rounded-lg text-white hover:bg-white/20 transition-colors text-left"
+              >
+                Manage mandated terms, import or export CSV/TBX
+              </motion.button>
+            </div>
+
             {/* HIPAA Compliance Status */}
             <div className="space-y-4">
               <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
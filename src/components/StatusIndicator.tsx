@@ -1,17 +1,25 @@
 import { motion } from 'framer-motion'
-import { Zap } from 'lucide-react'
+import { Zap, AlertTriangle } from 'lucide-react'
+import type { ProviderStatus } from '../utils/translationService'
 
 interface StatusIndicatorProps {
   isRecording: boolean
   sourceLanguage: string
   currentLanguage: string
+  providerStatus?: Record<string, ProviderStatus>
 }
 
 export const StatusIndicator = ({
   isRecording,
   sourceLanguage,
-  currentLanguage
+  currentLanguage,
+  providerStatus = {}
 }: StatusIndicatorProps) => {
+  // Providers that are failing or have been disabled by the circuit breaker
+  const degradedProviders = Object.entries(providerStatus).filter(
+    ([, status]) => status.breaker !== 'closed' || status.consecutiveFailures > 0
+  )
+
   return (
     <div className="text-center space-y-4">
       <motion.div 
@@ -30,6 +38,28 @@ export const StatusIndicator = ({
           {sourceLanguage.split('-')[0].toUpperCase()} → {currentLanguage.toUpperCase()}
         </span>
       </motion.div>
+
+      {/* Provider Health */}
+      {degradedProviders.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-2" aria-live="polite">
+          {degradedProviders.map(([key, status]) => (
+            <span
+              key={key}
+              title={status.lastError ? `${status.lastError}${status.lastErrorAt ? ` (${new Date(status.lastErrorAt).toLocaleTimeString()})` : ''}` : undefined}
+              className={`inline-flex items-center space-x-1 px-3 py-1 rounded-full text-xs border ${
+                status.breaker === 'open'
+                  ? 'bg-red-500/20 border-red-400/30 text-red-200'
+                  : 'bg-yellow-500/20 border-yellow-400/30 text-yellow-200'
+              }`}
+            >
+              <AlertTriangle className="w-3 h-3" />
+              <span>
+                {status.name}: {status.breaker === 'open' ? 'paused' : status.breaker === 'half-open' ? 'retrying' : 'degraded'}
+              </span>
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
@@ -1,12 +1,21 @@
+import { useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { X, Stethoscope, MessageSquare } from 'lucide-react'
-import type { MedicalExtraction } from '../utils/medicalExtraction'
+import { X, Stethoscope, MessageSquare, ClipboardCheck } from 'lucide-react'
+import { MedicalExtractionService, type MedicalExtraction, type FindingSource, type ExtractionInput } from '../utils/medicalExtraction'
+import { applyReview, summarizeReview, type FindingReview, type ReviewKind, type ReviewStatus } from '../utils/clinicianReview'
+import { SymptomGroups, VitalSignGrid, RedFlagList, TraceableItem } from './MedicalSummary'
+import { FindingReviewPanel } from './FindingReviewPanel'
 
 interface MedicalSummaryModalProps {
   showMedicalSummaryModal: boolean
   setShowMedicalSummaryModal: (show: boolean) => void
   medicalExtraction: MedicalExtraction | null
   aiStatus: 'active' | 'inactive' | 'checking'
+  onSelectSource?: (source: FindingSource) => void // Clicking a finding shows where it was said
+  clinicianReview?: FindingReview[]
+  patientInputs?: ExtractionInput[] // What the patient said, for scoring red flags after the review
+  onReviewFinding?: (kind: ReviewKind, key: string, status: ReviewStatus, value?: string) => void // Enables review mode
+  onUndoReview?: (kind: ReviewKind, key: string) => void
 }
 
 interface ConversationSummaryModalProps {
@@ -17,10 +26,20 @@ interface ConversationSummaryModalProps {
 export const MedicalSummaryModal = ({
   showMedicalSummaryModal,
   setShowMedicalSummaryModal,
-  medicalExtraction,
-  aiStatus
+  medicalExtraction: extracted,
+  aiStatus,
+  onSelectSource,
+  clinicianReview = [],
+  patientInputs = [],
+  onReviewFinding,
+  onUndoReview
 }: MedicalSummaryModalProps) => {
-  if (!medicalExtraction) return null
+  const [reviewMode, setReviewMode] = useState(false)
+  if (!extracted) return null
+
+  // The summary shows findings as the clinician left them
+  const medicalExtraction = applyReview(extracted, clinicianReview, { patientInputs, aiAssessed: aiStatus === 'active' })
+  const reviewSummary = summarizeReview(clinicianReview)
 
   return (
     <AnimatePresence>
@@ -50,235 +69,287 @@ export const MedicalSummaryModal = ({
                 <Stethoscope className="w-6 h-6" />
                 <span>Medical Summary</span>
               </h2>
-              <motion.button
-                whileHover={{ scale: 1.1 }}
-                whileTap={{ scale: 0.9 }}
-                onClick={() => setShowMedicalSummaryModal(false)}
-                className="text-white/70 hover:text-white transition-colors"
-              >
-                <X className="w-6 h-6" />
-              </motion.button>
+              <div className="flex items-center space-x-3">
+                {onReviewFinding && (
+                  <motion.button
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={() => setReviewMode(!reviewMode)}
+                    className={`flex items-center space-x-1 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                      reviewMode ? 'bg-purple-500/40 text-white' : 'bg-white/10 text-white/80 hover:text-white'
+                    }`}
+                    aria-pressed={reviewMode}
+                  >
+                    <ClipboardCheck className="w-4 h-4" />
+                    <span>{reviewMode ? 'Done reviewing' : 'Review'}</span>
+                  </motion.button>
+                )}
+                <motion.button
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  onClick={() => setShowMedicalSummaryModal(false)}
+                  className="text-white/70 hover:text-white transition-colors"
+                >
+                  <X className="w-6 h-6" />
+                </motion.button>
+              </div>
             </div>
 
             <div className="p-6">
-              <div className="bg-white/10 backdrop-blur-sm border border-white/20 rounded-lg p-4 space-y-4">
-                <div className="flex items-center justify-between">
-                  <h3 className="text-lg font-semibold text-white">Medical Summary</h3>
-                  <div className="flex items-center space-x-2">
-                    <div className={`w-3 h-3 rounded-full ${
-                      medicalExtraction.severity === 'high' ? 'bg-red-400' :
-                      medicalExtraction.severity === 'medium' ? 'bg-yellow-400' : 'bg-green-400'
-                    }`}></div>
-                    <span className="text-xs text-white/60 capitalize">{medicalExtraction.severity} severity</span>
-                    <div className="flex items-center space-x-1 ml-2">
-                      <div className={`w-2 h-2 rounded-full ${
-                        aiStatus === 'active' ? 'bg-green-400' : 'bg-gray-400'
+              {reviewMode && onReviewFinding && onUndoReview ? (
+                <div className="bg-white/10 backdrop-blur-sm border border-white/20 rounded-lg p-4">
+                  <FindingReviewPanel
+                    extraction={extracted}
+                    reviews={clinicianReview}
+                    onReview={onReviewFinding}
+                    onUndo={onUndoReview}
+                  />
+                </div>
+              ) : (
+                <div className="bg-white/10 backdrop-blur-sm border border-white/20 rounded-lg p-4 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-semibold text-white">Medical Summary</h3>
+                    <div className="flex items-center space-x-2">
+                      <div className={`w-3 h-3 rounded-full ${
+                        medicalExtraction.severity === 'critical' ? 'bg-red-600 animate-pulse' :
+                        medicalExtraction.severity === 'high' ? 'bg-red-400' :
+                        medicalExtraction.severity === 'medium' ? 'bg-yellow-400' : 'bg-green-400'
                       }`}></div>
-                      <span className="text-xs text-white/60">
-                        {aiStatus === 'active' ? 'AI' : 'Pattern'}
-                      </span>
+                      <span className="text-xs text-white/60 capitalize">{medicalExtraction.severity} severity</span>
+                      {medicalExtraction.urgency !== 'routine' && (
+                        <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${
+                          medicalExtraction.urgency === 'emergency' ? 'bg-red-500/20 text-red-300' : 'bg-orange-500/20 text-orange-300'
+                        }`}>
+                          {medicalExtraction.urgency}
+                        </span>
+                      )}
+                      <div className="flex items-center space-x-1 ml-2">
+                        <div className={`w-2 h-2 rounded-full ${
+                          aiStatus === 'active' ? 'bg-green-400' : 'bg-gray-400'
+                        }`}></div>
+                        <span className="text-xs text-white/60">
+                          {aiStatus === 'active' ? 'AI' : 'Pattern'}
+                        </span>
+                      </div>
                     </div>
                   </div>
-                </div>
+                  {reviewSummary && (
+                    <p className="text-xs text-white/60">Clinician reviewed: {reviewSummary}</p>
+                  )}
                 
-                {/* Pain Level */}
-                {medicalExtraction.painLevel > 0 && (
-                  <div className="space-y-2">
-                    <h4 className="text-sm font-medium text-white">Pain Level</h4>
-                    <div className="flex items-center space-x-3">
-                      <div className="flex-1 bg-white/10 rounded-full h-2">
-                        <div 
-                          className={`h-2 rounded-full transition-all duration-300 ${
-                            medicalExtraction.painLevel <= 3 ? 'bg-green-400' :
-                            medicalExtraction.painLevel <= 6 ? 'bg-yellow-400' : 'bg-red-400'
-                          }`}
-                          style={{ width: `${(medicalExtraction.painLevel / 10) * 100}%` }}
-                        ></div>
+                  {/* Red Flags */}
+                  <RedFlagList extraction={medicalExtraction} />
+                
+                  {/* Pain Level */}
+                  {medicalExtraction.painLevel > 0 && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium text-white">Pain Level</h4>
+                      <div className="flex items-center space-x-3">
+                        <div className="flex-1 bg-white/10 rounded-full h-2">
+                          <div 
+                            className={`h-2 rounded-full transition-all duration-300 ${
+                              medicalExtraction.painLevel <= 3 ? 'bg-green-400' :
+                              medicalExtraction.painLevel <= 6 ? 'bg-yellow-400' : 'bg-red-400'
+                            }`}
+                            style={{ width: `${(medicalExtraction.painLevel / 10) * 100}%` }}
+                          ></div>
+                        </div>
+                        <span className="text-sm text-white font-medium">{medicalExtraction.painLevel}/10</span>
                       </div>
-                      <span className="text-sm text-white font-medium">{medicalExtraction.painLevel}/10</span>
                     </div>
-                  </div>
-                )}
+                  )}
                 
-                {/* Symptoms */}
-                {medicalExtraction.symptoms.length > 0 && (
-                  <div className="space-y-2">
-                    <h4 className="text-sm font-medium text-white">Symptoms</h4>
-                    <div className="flex flex-wrap gap-2">
-                      {medicalExtraction.symptoms.map((symptom, index) => (
-                        <span key={index} className="px-2 py-1 bg-blue-500/20 text-blue-200 text-xs rounded-full border border-blue-400/30">
-                          {symptom}
-                        </span>
-                      ))}
-                    </div>
-                  </div>
-                )}
+                  {/* Symptoms */}
+                  <SymptomGroups extraction={medicalExtraction} onSelectSource={onSelectSource} />
                 
-                {/* Medications */}
-                {medicalExtraction.medications.length > 0 && (
-                  <div className="space-y-2">
-                    <h4 className="text-sm font-medium text-white">Medications</h4>
-                    <div className="flex flex-wrap gap-2">
-                      {medicalExtraction.medications.map((medication, index) => (
-                        <span key={index} className="px-2 py-1 bg-purple-500/20 text-purple-200 text-xs rounded-full border border-purple-400/30">
-                          {medication}
-                        </span>
-                      ))}
+                  {/* Medications */}
+                  {medicalExtraction.medicationDetails && medicalExtraction.medicationDetails.length > 0 ? (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium text-white">Medications</h4>
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-xs text-left">
+                          <thead className="text-white/60">
+                            <tr>
+                              <th className="py-1 pr-3 font-normal">Drug</th>
+                              <th className="py-1 pr-3 font-normal">Strength</th>
+                              <th className="py-1 pr-3 font-normal">Route</th>
+                              <th className="py-1 pr-3 font-normal">Frequency</th>
+                              <th className="py-1 font-normal">Duration</th>
+                            </tr>
+                          </thead>
+                          <tbody className="text-purple-100">
+                            {medicalExtraction.medicationDetails.map((medication, index) => (
+                              <tr key={index} className="border-t border-white/10">
+                                <td className="py-1 pr-3">
+                                  <TraceableItem
+                                    sources={MedicalExtractionService.getSources(medicalExtraction, 'medications', medication.genericName || medication.name)}
+                                    onSelectSource={onSelectSource}
+                                    className="font-medium rounded"
+                                  >
+                                    {medication.name}
+                                  </TraceableItem>
+                                  {medication.genericName && medication.genericName !== medication.name.toLowerCase() && (
+                                    <span className="text-white/50"> ({medication.genericName})</span>
+                                  )}
+                                  {!medication.verified && (
+                                    <span className="ml-1 px-1 bg-orange-500/20 text-orange-200 rounded border border-orange-400/30" title="Not found in the drug lexicon">
+                                      unverified
+                                    </span>
+                                  )}
+                                </td>
+                                <td className="py-1 pr-3">{medication.strength !== undefined ? `${medication.strength} ${medication.unit}` : '—'}</td>
+                                <td className="py-1 pr-3">{medication.route || '—'}</td>
+                                <td className="py-1 pr-3">
+                                  {medication.frequency || '—'}
+                                  {medication.prn && <span className="ml-1 text-purple-300">PRN</span>}
+                                </td>
+                                <td className="py-1">{medication.duration || '—'}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
                     </div>
-                  </div>
-                )}
+                  ) : medicalExtraction.medications.length > 0 && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium text-white">Medications</h4>
+                      <div className="flex flex-wrap gap-2">
+                        {medicalExtraction.medications.map((medication, index) => (
+                          <TraceableItem
+                            key={index}
+                            sources={MedicalExtractionService.getSources(medicalExtraction, 'medications', medication)}
+                            onSelectSource={onSelectSource}
+                            className="px-2 py-1 bg-purple-500/20 text-purple-200 text-xs rounded-full border border-purple-400/30"
+                          >
+                            {medication}
+                          </TraceableItem>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 
-                {/* Medical History */}
-                {(medicalExtraction.medicalHistory.conditions.length > 0 || 
-                  medicalExtraction.medicalHistory.surgeries.length > 0 || 
-                  medicalExtraction.medicalHistory.allergies.length > 0 || 
-                  medicalExtraction.medicalHistory.familyHistory.length > 0 || 
-                  medicalExtraction.medicalHistory.lifestyle.length > 0) && (
-                  <div className="space-y-2">
-                    <h4 className="text-sm font-medium text-white">Medical History</h4>
-                    <div className="space-y-2 text-xs">
-                      {medicalExtraction.medicalHistory.conditions.length > 0 && (
-                        <div>
-                          <span className="text-white/60">Conditions:</span>
-                          <div className="flex flex-wrap gap-1 mt-1">
-                            {medicalExtraction.medicalHistory.conditions.map((condition, index) => (
-                              <span key={index} className="px-2 py-1 bg-red-500/20 text-red-200 rounded-full border border-red-400/30">
-                                {condition}
-                              </span>
-                            ))}
+                  {/* Medical History */}
+                  {(medicalExtraction.medicalHistory.conditions.length > 0 || 
+                    medicalExtraction.medicalHistory.surgeries.length > 0 || 
+                    medicalExtraction.medicalHistory.allergies.length > 0 || 
+                    medicalExtraction.medicalHistory.familyHistory.length > 0 || 
+                    medicalExtraction.medicalHistory.lifestyle.length > 0) && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium text-white">Medical History</h4>
+                      <div className="space-y-2 text-xs">
+                        {medicalExtraction.medicalHistory.conditions.length > 0 && (
+                          <div>
+                            <span className="text-white/60">Conditions:</span>
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {medicalExtraction.medicalHistory.conditions.map((condition, index) => (
+                                <span key={index} className="px-2 py-1 bg-red-500/20 text-red-200 rounded-full border border-red-400/30">
+                                  {condition}
+                                </span>
+                              ))}
+                            </div>
                           </div>
-                        </div>
-                      )}
-                      {medicalExtraction.medicalHistory.surgeries.length > 0 && (
-                        <div>
-                          <span className="text-white/60">Surgeries:</span>
-                          <div className="flex flex-wrap gap-1 mt-1">
-                            {medicalExtraction.medicalHistory.surgeries.map((surgery, index) => (
-                              <span key={index} className="px-2 py-1 bg-orange-500/20 text-orange-200 rounded-full border border-orange-400/30">
-                                {surgery}
-                              </span>
-                            ))}
+                        )}
+                        {medicalExtraction.medicalHistory.surgeries.length > 0 && (
+                          <div>
+                            <span className="text-white/60">Surgeries:</span>
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {medicalExtraction.medicalHistory.surgeries.map((surgery, index) => (
+                                <span key={index} className="px-2 py-1 bg-orange-500/20 text-orange-200 rounded-full border border-orange-400/30">
+                                  {surgery}
+                                </span>
+                              ))}
+                            </div>
                           </div>
-                        </div>
-                      )}
-                      {medicalExtraction.medicalHistory.allergies.length > 0 && (
-                        <div>
-                          <span className="text-white/60">Allergies:</span>
-                          <div className="flex flex-wrap gap-1 mt-1">
-                            {medicalExtraction.medicalHistory.allergies.map((allergy, index) => (
-                              <span key={index} className="px-2 py-1 bg-yellow-500/20 text-yellow-200 rounded-full border border-yellow-400/30">
-                                {allergy}
-                              </span>
-                            ))}
+                        )}
+                        {medicalExtraction.medicalHistory.allergies.length > 0 && (
+                          <div>
+                            <span className="text-white/60">Allergies:</span>
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {medicalExtraction.medicalHistory.allergies.map((allergy, index) => (
+                                <TraceableItem
+                                  key={index}
+                                  sources={MedicalExtractionService.getSources(medicalExtraction, 'allergies', allergy)}
+                                  onSelectSource={onSelectSource}
+                                  className="px-2 py-1 bg-yellow-500/20 text-yellow-200 rounded-full border border-yellow-400/30"
+                                >
+                                  {allergy}
+                                </TraceableItem>
+                              ))}
+                            </div>
                           </div>
-                        </div>
-                      )}
-                      {medicalExtraction.medicalHistory.familyHistory.length > 0 && (
-                        <div>
-                          <span className="text-white/60">Family History:</span>
-                          <div className="flex flex-wrap gap-1 mt-1">
-                            {medicalExtraction.medicalHistory.familyHistory.map((history, index) => (
-                              <span key={index} className="px-2 py-1 bg-indigo-500/20 text-indigo-200 rounded-full border border-indigo-400/30">
-                                {history}
-                              </span>
-                            ))}
+                        )}
+                        {medicalExtraction.medicalHistory.familyHistory.length > 0 && (
+                          <div>
+                            <span className="text-white/60">Family History:</span>
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {medicalExtraction.medicalHistory.familyHistory.map((history, index) => (
+                                <span key={index} className="px-2 py-1 bg-indigo-500/20 text-indigo-200 rounded-full border border-indigo-400/30">
+                                  {history}
+                                </span>
+                              ))}
+                            </div>
                           </div>
-                        </div>
-                      )}
-                      {medicalExtraction.medicalHistory.lifestyle.length > 0 && (
-                        <div>
-                          <span className="text-white/60">Lifestyle:</span>
-                          <div className="flex flex-wrap gap-1 mt-1">
-                            {medicalExtraction.medicalHistory.lifestyle.map((lifestyle, index) => (
-                              <span key={index} className="px-2 py-1 bg-teal-500/20 text-teal-200 rounded-full border border-teal-400/30">
-                                {lifestyle}
-                              </span>
-                            ))}
+                        )}
+                        {medicalExtraction.medicalHistory.lifestyle.length > 0 && (
+                          <div>
+                            <span className="text-white/60">Lifestyle:</span>
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {medicalExtraction.medicalHistory.lifestyle.map((lifestyle, index) => (
+                                <span key={index} className="px-2 py-1 bg-teal-500/20 text-teal-200 rounded-full border border-teal-400/30">
+                                  {lifestyle}
+                                </span>
+                              ))}
+                            </div>
                           </div>
-                        </div>
-                      )}
+                        )}
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
                 
-                {/* Vital Signs */}
-                {(medicalExtraction.vitalSigns.bloodPressure || 
-                  medicalExtraction.vitalSigns.temperature || 
-                  medicalExtraction.vitalSigns.heartRate || 
-                  medicalExtraction.vitalSigns.weight || 
-                  medicalExtraction.vitalSigns.height) && (
-                  <div className="space-y-2">
-                    <h4 className="text-sm font-medium text-white">Vital Signs</h4>
-                    <div className="grid grid-cols-2 gap-2 text-xs">
-                      {medicalExtraction.vitalSigns.bloodPressure && (
-                        <div className="bg-white/5 rounded p-2">
-                          <span className="text-white/60">BP:</span> {medicalExtraction.vitalSigns.bloodPressure}
-                        </div>
-                      )}
-                      {medicalExtraction.vitalSigns.temperature && (
-                        <div className="bg-white/5 rounded p-2">
-                          <span className="text-white/60">Temp:</span> {medicalExtraction.vitalSigns.temperature}
-                        </div>
-                      )}
-                      {medicalExtraction.vitalSigns.heartRate && (
-                        <div className="bg-white/5 rounded p-2">
-                          <span className="text-white/60">HR:</span> {medicalExtraction.vitalSigns.heartRate}
-                        </div>
-                      )}
-                      {medicalExtraction.vitalSigns.weight && (
-                        <div className="bg-white/5 rounded p-2">
-                          <span className="text-white/60">Weight:</span> {medicalExtraction.vitalSigns.weight}
-                        </div>
-                      )}
-                      {medicalExtraction.vitalSigns.height && (
-                        <div className="bg-white/5 rounded p-2">
-                          <span className="text-white/60">Height:</span> {medicalExtraction.vitalSigns.height}
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                )}
+                  {/* Vital Signs */}
+                  <VitalSignGrid extraction={medicalExtraction} onSelectSource={onSelectSource} />
                 
-                {/* Diagnosis */}
-                {medicalExtraction.diagnosis.length > 0 && (
-                  <div className="space-y-2">
-                    <h4 className="text-sm font-medium text-white">Diagnosis</h4>
-                    <div className="flex flex-wrap gap-2">
-                      {medicalExtraction.diagnosis.map((diagnosis, index) => (
-                        <span key={index} className="px-2 py-1 bg-green-500/20 text-green-200 text-xs rounded-full border border-green-400/30">
-                          {diagnosis}
-                        </span>
-                      ))}
+                  {/* Diagnosis */}
+                  {medicalExtraction.diagnosis.length > 0 && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium text-white">Diagnosis</h4>
+                      <div className="flex flex-wrap gap-2">
+                        {medicalExtraction.diagnosis.map((diagnosis, index) => (
+                          <span key={index} className="px-2 py-1 bg-green-500/20 text-green-200 text-xs rounded-full border border-green-400/30">
+                            {diagnosis}
+                          </span>
+                        ))}
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
                 
-                {/* Recommendations */}
-                {medicalExtraction.recommendations.length > 0 && (
-                  <div className="space-y-2">
-                    <h4 className="text-sm font-medium text-white">Recommendations</h4>
-                    <div className="space-y-1">
-                      {medicalExtraction.recommendations.map((recommendation, index) => (
-                        <div key={index} className="text-xs text-white/90 flex items-start space-x-2">
-                          <span className="text-blue-400 mt-1">•</span>
-                          <span>{recommendation}</span>
-                        </div>
-                      ))}
+                  {/* Recommendations */}
+                  {medicalExtraction.recommendations.length > 0 && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium text-white">Recommendations</h4>
+                      <div className="space-y-1">
+                        {medicalExtraction.recommendations.map((recommendation, index) => (
+                          <div key={index} className="text-xs text-white/90 flex items-start space-x-2">
+                            <span className="text-blue-400 mt-1">•</span>
+                            <span>{recommendation}</span>
+                          </div>
+                        ))}
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
                 
-                {/* Confidence Score */}
-                <div className="flex items-center justify-between pt-2 border-t border-white/10">
-                  <span className="text-xs text-white/60">Confidence:</span>
-                  <span className={`text-sm font-medium ${
-                    medicalExtraction.confidence >= 0.7 ? 'text-green-400' :
-                    medicalExtraction.confidence >= 0.4 ? 'text-yellow-400' : 'text-red-400'
-                  }`}>
-                    {Math.round(medicalExtraction.confidence * 100)}%
-                  </span>
+                  {/* Confidence Score */}
+                  <div className="flex items-center justify-between pt-2 border-t border-white/10">
+                    <span className="text-xs text-white/60">Confidence:</span>
+                    <span className={`text-sm font-medium ${
+                      medicalExtraction.confidence >= 0.7 ? 'text-green-400' :
+                      medicalExtraction.confidence >= 0.4 ? 'text-yellow-400' : 'text-red-400'
+                    }`}>
+                      {Math.round(medicalExtraction.confidence * 100)}%
+                    </span>
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
           </motion.div>
         </motion.div>
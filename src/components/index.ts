@@ -5,8 +5,12 @@ export { RecordingControls } from './RecordingControls'
 export { LanguageSelector } from './LanguageSelector'
 export { ManualTextInput } from './ManualTextInput'
 export { StatusIndicator } from './StatusIndicator'
-export { ConversationDisplay } from './ConversationDisplay'
-export { MedicalSummary } from './MedicalSummary'
+export { ConversationDisplay, type StreamingMessage } from './ConversationDisplay'
+export { LiveCaption } from './LiveCaption'
+export { RedFlagBanner } from './RedFlagBanner'
+export { MedicalSummary, SymptomGroups, VitalSignGrid, RedFlagList, TraceableItem } from './MedicalSummary'
+export { FindingReviewPanel } from './FindingReviewPanel'
 export { SettingsPanel } from './SettingsPanel'
-export { SaveDialog, LoadDialog, DeleteDialog } from './Dialogs'
+export { GlossaryPanel } from './GlossaryPanel'
+export { SaveDialog, LoadDialog, DeleteDialog, TranslateCaseDialog, TranscribeRecordingDialog } from './Dialogs'
 export { MedicalSummaryModal, ConversationSummaryModal } from './SummaryModals'
@@ -11,6 +11,8 @@ export interface Provider {
 
 export const useApiKeys = () => {
   const [providers] = useState<Provider[]>([
+    { id: 'local', name: 'Local LLM (OpenAI-compatible)', type: 'local', status: 'available' },
+    { id: 'libretranslate', name: 'LibreTranslate (Self-hosted)', type: 'local', status: 'available' },
     { id: 'openai', name: 'OpenAI GPT-3.5', type: 'cloud', status: 'available' },
     { id: 'mymemory', name: 'MyMemory (Free)', type: 'api', status: 'available' },
     { id: 'google', name: 'Google Translate', type: 'cloud', status: 'available' },
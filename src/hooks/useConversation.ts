@@ -2,6 +2,8 @@ import { useState, useCallback } from 'react'
 import toast from 'react-hot-toast'
 import { hipaaCompliance } from '../utils/hipaa'
 import { ScreenReader } from '../utils/accessibility'
+import type { ConsensusInfo, MemorySuggestion } from '../utils/translationService'
+import type { FindingReview } from '../utils/clinicianReview'
 
 export interface Message {
   id: string
@@ -10,8 +12,23 @@ export interface Message {
   isDoctor: boolean
   timestamp: Date
   language: string
+  sourceLanguage?: string // Base code of the original utterance
+  detectedLanguage?: string // Set when detection disagreed with the configured source language
+  roleAssignment?: 'auto' | 'uncertain' | 'corrected' // How the speaker was determined when not from the role switcher
   rating?: number
   translationQuality?: 'poor' | 'fair' | 'good' | 'excellent'
+  provider?: string // Provider that actually produced the translation
+  confidence?: number
+  medicalTerms?: string[]
+  usedFallback?: boolean
+  memoryMatch?: 'exact' | 'fuzzy'
+  memoryEntryId?: string
+  memorySuggestion?: MemorySuggestion // Similar past translation, not verified for this utterance
+  translationNotes?: string // LLM remarks such as ambiguous terms
+  consensus?: ConsensusInfo // Multi-provider agreement for high-risk utterances
+  backTranslation?: string
+  divergenceScore?: number // 0-1, from back-translation verification
+  divergenceReasons?: string[]
 }
 
 export interface SavedCase {
@@ -20,6 +37,7 @@ export interface SavedCase {
   timestamp: string
   messages: Message[]
   medicalExtraction: any
+  clinicianReview?: FindingReview[] // Applied over the extraction when the case is shown
   conversationSummary: any
   encrypted?: boolean
   encryptedData?: string
@@ -4,18 +4,39 @@ import { sanitizeInput, encodeOutput } from '../utils/security'
 import { hipaaCompliance } from '../utils/hipaa'
 import { ScreenReader } from '../utils/accessibility'
 import { Message } from './useConversation'
+import type { TranslationResponse } from '../utils/translationService'
+import { textToSpeech } from '../utils/textToSpeech'
+import SpeechEngineService, { getSpeechErrorMessage, type SpeechSession } from '../utils/speechEngines'
 
-// Type declarations for Web Speech API
-declare global {
-  interface Window {
-    SpeechRecognition: any
-    webkitSpeechRecognition: any
-  }
+interface DictationSession {
+  session: SpeechSession | null
+  pending: string // Finalized text not yet sent as a segment
+  interim: string
+  pauseTimer: ReturnType<typeof setTimeout> | null
+  onSegment: (segment: string) => void
+}
+
+// Silence after the last final result before a dictated segment is translated
+export const SEGMENT_PAUSE_MS = 1500
+
+// Saying this at the end of an utterance ends continuous dictation hands-free
+export const STOP_PHRASES: Record<string, string> = {
+  en: 'stop dictation',
+  es: 'detener dictado',
+  pt: 'parar ditado',
+  fr: 'arrêter la dictée',
+  de: 'diktat beenden',
+  fa: 'پایان دیکته',
+  ar: 'إيقاف الإملاء',
+  zh: '停止听写'
 }
 
 export const useSpeechRecognition = () => {
   const [isRecording, setIsRecording] = useState(false)
-  const recognitionRef = useRef<any>(null)
+  const [isDictating, setIsDictating] = useState(false)
+  const [interimTranscript, setInterimTranscript] = useState('')
+  const recognitionRef = useRef<SpeechSession | null>(null)
+  const dictationRef = useRef<DictationSession | null>(null)
 
   const startRecording = useCallback(async (
     sourceLanguage: string,
@@ -24,7 +45,7 @@ export const useSpeechRecognition = () => {
     selectedProvider: string,
     selectedApiKey: string,
     apiKeys: Record<string, string>,
-    translateText: (text: string, targetLang: string, provider: string, apiKey: string, keys: Record<string, string>) => Promise<string>,
+    translateText: (text: string, targetLang: string, provider: string, apiKey: string, keys: Record<string, string>) => Promise<TranslationResponse>,
     addMessage: (message: Message) => void,
     playAudio: (text: string) => void
   ) => {
@@ -35,30 +56,23 @@ export const useSpeechRecognition = () => {
         return
       }
 
-      // Start new recording
-      if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
-        const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition
-        const recognition = new SpeechRecognition()
-        
-        recognition.lang = sourceLanguage
-        recognition.continuous = false
-        recognition.interimResults = false
-        
-        // Store reference for cancellation
-        recognitionRef.current = recognition
-        
-        recognition.onstart = () => {
+      // Start new recording with the configured speech-to-text engine
+      const engine = SpeechEngineService.getInstance().getEngine()
+      if (!engine.isSupported()) {
+        toast.error(`${engine.name} is not supported in this browser`)
+        return
+      }
+
+      recognitionRef.current = engine.start({ language: sourceLanguage, continuous: false }, {
+        onStart: () => {
           setIsRecording(true)
           toast.success(`Listening in ${sourceLanguage}... Click mic again to stop!`)
           console.log('Speech recognition started with language:', sourceLanguage)
           
           // Announce recording status to screen readers
           ScreenReader.announceRecordingStatus(true, sourceLanguage)
-        }
-        
-        recognition.onresult = async (event: any) => {
-          const transcript = event.results[0][0].transcript
-          
+        },
+        onFinal: async (transcript) => {
           console.log('Transcript:', transcript)
           
           setIsRecording(false)
@@ -80,7 +94,8 @@ export const useSpeechRecognition = () => {
           }
           
           // Translate the sanitized transcript
-          const translatedText = await translateText(sanitizationResult.sanitized, currentLanguage, selectedProvider, selectedApiKey, apiKeys)
+          const translation = await translateText(sanitizationResult.sanitized, currentLanguage, selectedProvider, selectedApiKey, apiKeys)
+          const translatedText = translation.translatedText
           
           // Add message to conversation
           const newMessage: Message = {
@@ -89,7 +104,15 @@ export const useSpeechRecognition = () => {
             translatedText: encodeOutput(translatedText), // Encode output for XSS protection
             isDoctor,
             timestamp: new Date(),
-            language: currentLanguage
+            language: currentLanguage,
+            provider: translation.provider,
+            confidence: translation.confidence,
+            medicalTerms: translation.medicalTerms,
+            usedFallback: translation.fallbackUsed,
+            memoryMatch: translation.memoryMatch,
+            memoryEntryId: translation.memoryEntryId,
+            translationNotes: translation.notes,
+            sourceLanguage: sourceLanguage.split('-')[0]
           }
           
           addMessage(newMessage)
@@ -104,39 +127,22 @@ export const useSpeechRecognition = () => {
             isDoctor,
             messageCount: 1
           })
-        }
-        
-        recognition.onerror = (event: any) => {
+        },
+        onError: (error) => {
           setIsRecording(false)
           recognitionRef.current = null
           toast.dismiss()
-          const errorMessages: Record<string, string> = {
-            'no-speech': 'No speech detected. Please speak clearly.',
-            'audio-capture': 'Microphone access denied. Please allow microphone access.',
-            'not-allowed': 'Microphone access denied. Please allow microphone access.',
-            'network': 'Network error. Please check your connection.',
-            'service-not-allowed': 'Speech recognition not available in this browser.',
-            'bad-grammar': 'Speech recognition error. Please try again.',
-            'language-not-supported': `Speech recognition not supported for ${sourceLanguage}. Try switching to English.`
-          }
-          const errorMsg = errorMessages[event.error] || 'Speech recognition failed. Please try again.'
-          toast.error(errorMsg)
-          console.error('Speech recognition error:', event.error)
-        }
-        
-        recognition.onend = () => {
+          toast.error(getSpeechErrorMessage(error, sourceLanguage))
+          console.error('Speech recognition error:', error.code, error.message)
+        },
+        onEnd: () => {
           setIsRecording(false)
           recognitionRef.current = null
           
           // Announce recording stopped to screen readers
           ScreenReader.announceRecordingStatus(false, sourceLanguage)
         }
-        
-        recognition.start()
-        
-      } else {
-        toast.error('Speech recognition not supported in this browser')
-      }
+      })
       
     } catch (error) {
       console.error('Error starting speech recognition:', error)
@@ -152,28 +158,120 @@ export const useSpeechRecognition = () => {
     }
   }, [])
 
-  const playAudio = useCallback((text: string, currentLanguage: string) => {
-    if ('speechSynthesis' in window) {
-      const utterance = new SpeechSynthesisUtterance(text)
-      const languageMap: Record<string, string> = {
-        'es': 'es-ES',
-        'pt': 'pt-BR',
-        'fa': 'fa-IR',
-        'ar': 'ar-SA',
-        'zh': 'zh-CN',
-        'fr': 'fr-FR',
-        'de': 'de-DE'
+  // Send the finalized text gathered so far as one segment
+  const flushSegment = useCallback((dictation: DictationSession) => {
+    if (dictation.pauseTimer) {
+      clearTimeout(dictation.pauseTimer)
+      dictation.pauseTimer = null
+    }
+    const segment = dictation.pending.trim()
+    dictation.pending = ''
+    if (dictationRef.current === dictation) {
+      setInterimTranscript(dictation.interim.trim())
+    }
+    if (segment) {
+      dictation.onSegment(segment)
+    }
+  }, [])
+
+  const stopDictation = useCallback(() => {
+    const dictation = dictationRef.current
+    if (!dictation) return
+
+    dictationRef.current = null
+    flushSegment(dictation)
+    // Engines that transcribe after recording may still deliver the last utterance
+    dictation.session?.stop()
+    setIsDictating(false)
+    setInterimTranscript('')
+  }, [flushSegment])
+
+  // Continuous dictation: interim captions while speaking, one segment per pause
+  const startDictation = useCallback((language: string, onSegment: (segment: string) => void) => {
+    const engine = SpeechEngineService.getInstance().getEngine()
+    if (!engine.isSupported()) {
+      toast.error(`${engine.name} is not supported in this browser`)
+      return
+    }
+
+    const dictation: DictationSession = { session: null, pending: '', interim: '', pauseTimer: null, onSegment }
+    dictationRef.current = dictation
+    const stopPhrase = STOP_PHRASES[language.split('-')[0]] || STOP_PHRASES.en
+
+    const showCaption = () => {
+      if (dictationRef.current === dictation) {
+        setInterimTranscript(`${dictation.pending} ${dictation.interim}`.trim())
       }
-      utterance.lang = languageMap[currentLanguage] || 'en-US'
-      utterance.rate = 0.9
-      speechSynthesis.speak(utterance)
     }
+
+    // Wait for a pause; words still being recognized restart the wait on their final result
+    const waitForPause = () => {
+      if (dictation.pauseTimer) clearTimeout(dictation.pauseTimer)
+      dictation.pauseTimer = setTimeout(() => {
+        dictation.pauseTimer = null
+        if (!dictation.interim) flushSegment(dictation)
+      }, SEGMENT_PAUSE_MS)
+    }
+
+    dictation.session = engine.start({ language, continuous: true }, {
+      onStart: () => {
+        setIsDictating(true)
+        ScreenReader.announceRecordingStatus(true, language)
+      },
+      onInterim: (transcript) => {
+        dictation.interim = transcript
+        showCaption()
+        if (transcript) waitForPause()
+      },
+      onFinal: (transcript) => {
+        dictation.pending += ` ${transcript}`
+        dictation.interim = ''
+
+        // Hands-free stop: drop the phrase, send what came before it
+        const finalized = dictation.pending.trim().replace(/[.!?。،,]+$/, '')
+        if (dictationRef.current === dictation && finalized.toLowerCase().endsWith(stopPhrase)) {
+          dictation.pending = finalized.slice(0, -stopPhrase.length)
+          stopDictation()
+          toast.success('Dictation stopped')
+          return
+        }
+
+        showCaption()
+        if (engine.segmentsOnPause || dictationRef.current !== dictation) {
+          flushSegment(dictation)
+        } else {
+          waitForPause()
+        }
+      },
+      onError: (error) => {
+        console.error('Dictation error:', error)
+        toast.error(`${getSpeechErrorMessage(error, language)} Dictation stopped.`)
+        stopDictation()
+      },
+      onEnd: () => {
+        flushSegment(dictation)
+        if (dictationRef.current === dictation) {
+          dictationRef.current = null
+          setIsDictating(false)
+          setInterimTranscript('')
+        }
+        ScreenReader.announceRecordingStatus(false, language)
+      }
+    })
+  }, [flushSegment, stopDictation])
+
+  const playAudio = useCallback((text: string, currentLanguage: string) => {
+    textToSpeech.speak(text, currentLanguage)
   }, [])
 
   return {
     isRecording,
+    isDictating,
+    interimTranscript,
     startRecording,
     stopRecording,
+    startDictation,
+    stopDictation,
     playAudio
   }
 }
@@ -30,7 +30,9 @@ export const LANGUAGE_NAMES: Record<string, string> = {
   'pt': 'Portuguese',
   'fa': 'Persian',
   'ar': 'Arabic',
-  'zh': 'Chinese'
+  'zh': 'Chinese',
+  'fr': 'French',
+  'de': 'German'
 }
 
 // Role names for screen readers
@@ -1,6 +1,10 @@
 // AI Service for Medical Translator
 // Handles real-time conversation analysis, translation, and medical information extraction
 
+import { parseTranslationResponse, TRANSLATION_JSON_INSTRUCTIONS } from './llmResponse'
+import { extractPartialJsonString, readChatCompletionStream } from './streaming'
+import { MedicalExtractionService, type FindingProvenance } from './medicalExtraction'
+
 export interface AITranslationRequest {
   text: string
   sourceLanguage: string
@@ -14,7 +18,7 @@ export interface AITranslationResponse {
   confidence: number
   medicalTerms: string[]
   context: string
-  suggestions: string[]
+  notes: string
 }
 
 export interface AIMedicalAnalysis {
@@ -60,6 +64,25 @@ export interface AIMedicalAnalysis {
   }
   confidence: number
   lastUpdated: string
+  provenance?: FindingProvenance // Messages each symptom, medication, allergy and vital was found in
+}
+
+// Endpoint options for OpenAI-compatible servers (defaults to api.openai.com)
+export interface AIServiceOptions {
+  baseUrl?: string
+  model?: string
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface CompletionOptions {
+  temperature?: number
+  maxTokens?: number
+  onContent?: (content: string) => void // Streams the response, reporting the content so far
+  signal?: AbortSignal // Cancels the request, streaming included
 }
 
 export interface ConversationSummary {
@@ -74,9 +97,11 @@ export interface ConversationSummary {
 class AIService {
   private static instance: AIService
   private apiKey: string | null = null
+  private baseUrl: string = 'https://api.openai.com'
+  private model: string = 'gpt-3.5-turbo'
   private isOnline: boolean = true
   private lastAnalysis: AIMedicalAnalysis | null = null
-  private conversationHistory: Array<{ text: string; role: 'doctor' | 'patient'; timestamp: string }> = []
+  private conversationHistory: Array<{ text: string; role: 'doctor' | 'patient'; timestamp: string; messageId?: string }> = []
 
   private constructor() {}
 
@@ -87,9 +112,13 @@ class AIService {
     return AIService.instance
   }
 
-  // Initialize AI service with API key
-  initialize(apiKey: string): void {
+  // Initialize AI service with API key and optional OpenAI-compatible endpoint
+  initialize(apiKey: string, options: AIServiceOptions = {}): void {
     this.apiKey = apiKey
+    this.baseUrl = options.baseUrl
+      ? options.baseUrl.trim().replace(/\/+$/, '').replace(/\/v1$/, '')
+      : 'https://api.openai.com'
+    this.model = options.model?.trim() || 'gpt-3.5-turbo'
     this.isOnline = true
   }
 
@@ -98,12 +127,57 @@ class AIService {
     return this.isOnline && this.apiKey !== null
   }
 
-  // Add message to conversation history
-  addToConversation(text: string, role: 'doctor' | 'patient'): void {
+  // Model requests go to, for audit logs
+  getModel(): string {
+    return this.model
+  }
+
+  // Run a chat completion against the configured endpoint and return the response text; streams when onContent is set
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    if (!this.isAvailable()) {
+      throw new Error('AI service not available')
+    }
+
+    const response = await fetch(`${this.baseUrl}/v1/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        temperature: options.temperature ?? 0.2,
+        max_tokens: options.maxTokens ?? 800,
+        stream: Boolean(options.onContent)
+      }),
+      signal: options.signal
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '')
+      throw new Error(`AI request failed: ${response.status}${errorText ? ` ${errorText}` : ''}`)
+    }
+
+    const content = options.onContent
+      ? await readChatCompletionStream(response, options.onContent)
+      : (await response.json()).choices[0]?.message?.content || ''
+    return content.trim()
+  }
+
+  // Local servers usually run without auth, so only send the header when a key is set
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`
+    }
+    return headers
+  }
+
+  // Add message to conversation history; the message id lets analysis findings link back to it
+  addToConversation(text: string, role: 'doctor' | 'patient', messageId?: string): void {
     this.conversationHistory.push({
       text,
       role,
-      timestamp: new Date().toISOString()
+      timestamp: new Date().toISOString(),
+      messageId
     })
     
     // Keep only last 50 messages to prevent memory issues
@@ -113,7 +187,11 @@ class AIService {
   }
 
   // AI-powered translation with medical context
-  async translateWithAI(request: AITranslationRequest): Promise<AITranslationResponse> {
+  // Pass onPartial to stream the translation as it is generated
+  async translateWithAI(
+    request: AITranslationRequest,
+    onPartial?: (partialText: string) => void
+  ): Promise<AITranslationResponse> {
     if (!this.isAvailable()) {
       throw new Error('AI service not available')
     }
@@ -121,14 +199,11 @@ class AIService {
     try {
       const systemPrompt = this.buildMedicalTranslationPrompt(request.context, request.role)
       
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      const response = await fetch(`${this.baseUrl}/v1/chat/completions`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
+        headers: this.buildHeaders(),
         body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
+          model: this.model,
           messages: [
             {
               role: 'system',
@@ -136,11 +211,13 @@ class AIService {
             },
             {
               role: 'user',
-              content: `Translate the following ${request.sourceLanguage} text to ${request.targetLanguage}:\n\n"${request.text}"\n\nProvide the translation and identify any medical terms.`
+              content: `Translate the following ${request.sourceLanguage} text to ${request.targetLanguage}:\n\n"${request.text}"`
             }
           ],
           temperature: 0.3,
-          max_tokens: 500
+          max_tokens: 1000,
+          response_format: { type: 'json_object' },
+          stream: Boolean(onPartial)
         })
       })
 
@@ -148,20 +225,22 @@ class AIService {
         throw new Error(`AI translation failed: ${response.status}`)
       }
 
-      const data = await response.json()
-      const aiResponse = data.choices[0]?.message?.content || ''
+      const aiResponse = onPartial
+        ? await readChatCompletionStream(response, content => {
+            const partial = extractPartialJsonString(content, 'translation')
+            if (partial) onPartial(partial)
+          })
+        : (await response.json()).choices[0]?.message?.content || ''
 
-      // Parse AI response
-      const translationMatch = aiResponse.match(/Translation:\s*(.+?)(?:\n|$)/i)
-      const medicalTermsMatch = aiResponse.match(/Medical Terms:\s*(.+?)(?:\n|$)/i)
-      const confidenceMatch = aiResponse.match(/Confidence:\s*(\d+)/i)
+      // Throws LLMResponseParseError rather than returning unparsed model output
+      const payload = parseTranslationResponse(aiResponse)
 
       return {
-        translatedText: translationMatch?.[1]?.trim() || request.text,
-        confidence: confidenceMatch ? parseInt(confidenceMatch[1]) / 100 : 0.8,
-        medicalTerms: medicalTermsMatch?.[1]?.split(',').map(t => t.trim()) || [],
+        translatedText: payload.translation,
+        confidence: payload.confidence,
+        medicalTerms: payload.medicalTerms,
         context: request.context,
-        suggestions: this.extractSuggestions(aiResponse)
+        notes: payload.notes
       }
     } catch (error) {
       console.error('AI translation error:', error)
@@ -169,8 +248,8 @@ class AIService {
     }
   }
 
-  // Real-time medical conversation analysis
-  async analyzeConversation(): Promise<AIMedicalAnalysis> {
+  // Real-time medical conversation analysis; onPartial receives the analysis parsed so far while streaming
+  async analyzeConversation(onPartial?: (analysis: AIMedicalAnalysis) => void): Promise<AIMedicalAnalysis> {
     if (!this.isAvailable()) {
       throw new Error('AI service not available')
     }
@@ -182,14 +261,11 @@ class AIService {
 
       const systemPrompt = this.buildMedicalAnalysisPrompt()
       
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      const response = await fetch(`${this.baseUrl}/v1/chat/completions`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
+        headers: this.buildHeaders(),
         body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
+          model: this.model,
           messages: [
             {
               role: 'system',
@@ -201,7 +277,8 @@ class AIService {
             }
           ],
           temperature: 0.2,
-          max_tokens: 1500
+          max_tokens: 1500,
+          stream: Boolean(onPartial)
         })
       })
 
@@ -209,12 +286,27 @@ class AIService {
         throw new Error(`AI analysis failed: ${response.status}`)
       }
 
-      const data = await response.json()
-      const aiResponse = data.choices[0]?.message?.content || ''
+      // The analysis format is line based, so re-parse whenever a line completes
+      let parsedLines = 0
+      const aiResponse = onPartial
+        ? await readChatCompletionStream(response, content => {
+            const lines = content.split('\n').length - 1
+            if (lines > parsedLines) {
+              parsedLines = lines
+              onPartial(this.parseMedicalAnalysis(content))
+            }
+          })
+        : (await response.json()).choices[0]?.message?.content || ''
 
       // Parse AI response into structured data
       const analysis = this.parseMedicalAnalysis(aiResponse)
       analysis.lastUpdated = new Date().toISOString()
+      analysis.provenance = MedicalExtractionService.traceProvenance({
+        symptoms: analysis.currentSituation.presentingSymptoms,
+        medications: [...analysis.patientBackground.currentMedications, ...analysis.ongoingCare.medications],
+        allergies: analysis.patientBackground.allergies,
+        vitalSigns: analysis.ongoingCare.vitalSigns
+      }, this.conversationHistory.map(msg => ({ id: msg.messageId, text: msg.text, isDoctor: msg.role === 'doctor' })))
       
       this.lastAnalysis = analysis
       return analysis
@@ -244,14 +336,11 @@ class AIService {
 
 Format as JSON with keys: keyPoints, medicalFindings, recommendations, urgency, nextSteps, confidence`
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      const response = await fetch(`${this.baseUrl}/v1/chat/completions`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
+        headers: this.buildHeaders(),
         body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
+          model: this.model,
           messages: [
             {
               role: 'system',
@@ -314,16 +403,12 @@ Your task is to:
 1. Translate the text accurately while preserving medical terminology
 2. Identify and highlight medical terms
 3. Provide confidence score (0-100)
-4. Suggest alternative medical phrases if applicable
+4. Note alternative medical phrases or ambiguities for the clinician if applicable
 
 Context: ${context} conversation
 Role: ${role}
 
-Format your response as:
-Translation: [translated text]
-Medical Terms: [comma-separated medical terms]
-Confidence: [0-100]
-Suggestions: [alternative phrases]`
+${TRANSLATION_JSON_INSTRUCTIONS}`
   }
 
   private buildMedicalAnalysisPrompt(): string {
@@ -438,14 +523,6 @@ Confidence: [0-1]`
     return defaults
   }
 
-  private extractSuggestions(aiResponse: string): string[] {
-    const suggestionsMatch = aiResponse.match(/Suggestions:\s*(.+?)(?:\n|$)/i)
-    if (suggestionsMatch) {
-      return suggestionsMatch[1].split(',').map(s => s.trim()).filter(s => s.length > 0)
-    }
-    return []
-  }
-
   private parseSummaryFallback(aiResponse: string): ConversationSummary {
     // Fallback parsing if JSON parsing fails
     return {
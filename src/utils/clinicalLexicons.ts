@@ -0,0 +1,370 @@
+// Clinical Lexicons for Medical Translator
+// Per-language symptom terms and negation/uncertainty/history cues, so extraction works on the patient's own words
+
+type CueStatus = 'absent' | 'uncertain' | 'historical'
+
+export interface ClinicalLexicon {
+  // Canonical (English) symptom -> how it is said in this language; English uses MEDICAL_PATTERNS
+  symptoms: Record<string, string[]>
+  // Cues before the symptom in the same clause (NegEx-style)
+  cues: Record<CueStatus, string[]>
+  // Cues after the symptom, e.g. 'the fever went away', Persian 'تب ندارم'
+  postCues: Partial<Record<CueStatus, string[]>>
+  // Words that end a cue's scope within a sentence
+  terminators: string[]
+  // How a term may be inflected around the match
+  affixes?: { prefix?: string; suffix?: string }
+  unsegmented?: boolean // Written without spaces between words (Chinese)
+}
+
+export const CLINICAL_LEXICONS: Record<string, ClinicalLexicon> = {
+  en: {
+    symptoms: {},
+    cues: {
+      historical: ['used to have', 'used to get', 'history of', 'no longer', 'in the past', 'previously', 'years ago', 'had a history'],
+      uncertain: ['not sure', 'unsure', 'maybe', 'possibly', 'possible', 'perhaps', 'might', 'may have', 'could be', 'probably', 'i think', 'suspected', 'questionable'],
+      absent: ["don't think i have", 'do not think i have', "don't have", 'do not have', "doesn't have", 'does not have', "didn't have", 'did not have', "haven't had", 'have not had', 'negative for', 'free of', 'absence of', 'denies', 'denied', 'deny', 'denying', 'without', 'never', 'none', 'not', 'no']
+    },
+    postCues: {
+      absent: ['ruled out', 'is gone', 'has gone'],
+      historical: ['went away', 'has resolved', 'resolved', 'is better now', 'in the past']
+    },
+    // 'I have' starts a new clause only after a comma or 'and': 'no fever, I have a cough' but 'maybe I have a fever'
+    terminators: ['but', 'however', 'although', 'though', 'except', 'apart from', 'yet', 'which', 'because', ', i have', 'and i have', 'now i have'],
+    affixes: { suffix: '(?:s|es)?' }
+  },
+  es: {
+    symptoms: {
+      'fever': ['fiebre', 'calentura'],
+      'chills': ['escalofríos', 'escalofrío'],
+      'fatigue': ['cansancio', 'fatiga', 'agotamiento'],
+      'weakness': ['debilidad'],
+      'dizziness': ['mareo', 'mareos', 'mareado', 'mareada'],
+      'nausea': ['náusea', 'náuseas'],
+      'vomiting': ['vómito', 'vómitos', 'vomitar', 'vomitando'],
+      'diarrhea': ['diarrea'],
+      'constipation': ['estreñimiento', 'estreñido', 'estreñida'],
+      'loss of appetite': ['pérdida de apetito', 'falta de apetito', 'poco apetito'],
+      'weight loss': ['pérdida de peso', 'bajé de peso'],
+      'cough': ['tos'],
+      'sneeze': ['estornudos'],
+      'runny nose': ['goteo nasal', 'moqueo', 'nariz que gotea'],
+      'congestion': ['congestión', 'nariz tapada'],
+      'shortness of breath': ['falta de aire', 'me falta el aire', 'dificultad para respirar', 'ahogo', 'disnea'],
+      'wheezing': ['sibilancias', 'silbido en el pecho'],
+      'chest tightness': ['opresión en el pecho'],
+      'chest pain': ['dolor en el pecho', 'dolor de pecho', 'dolor torácico'],
+      'palpitations': ['palpitaciones'],
+      'swelling': ['hinchazón', 'hinchado', 'hinchada'],
+      'headache': ['dolor de cabeza', 'cefalea'],
+      'migraine': ['migraña', 'jaqueca'],
+      'seizure': ['convulsión', 'convulsiones', 'ataque epiléptico'],
+      'numbness': ['entumecimiento', 'adormecimiento', 'entumecido'],
+      'tingling': ['hormigueo'],
+      'paralysis': ['parálisis'],
+      'confusion': ['confusión', 'confundido', 'confundida'],
+      'vertigo': ['vértigo'],
+      'abdominal pain': ['dolor abdominal', 'dolor de barriga', 'dolor de panza'],
+      'stomach pain': ['dolor de estómago'],
+      'heartburn': ['acidez', 'ardor de estómago'],
+      'bloating': ['distensión abdominal', 'hinchazón abdominal']
+    },
+    cues: {
+      historical: ['antes tenía', 'solía tener', 'antecedentes de', 'historia de', 'ya no', 'en el pasado', 'hace años'],
+      uncertain: ['no estoy seguro', 'no estoy segura', 'tal vez', 'quizás', 'quizá', 'posiblemente', 'probablemente', 'creo que', 'a lo mejor'],
+      absent: ['no tengo', 'no he tenido', 'niega', 'negó', 'sin', 'nunca', 'ningún', 'ninguna', 'no']
+    },
+    postCues: {
+      historical: ['se me quitó', 'ya pasó', 'desapareció']
+    },
+    terminators: ['pero', 'sin embargo', 'aunque', 'excepto']
+  },
+  pt: {
+    symptoms: {
+      'fever': ['febre'],
+      'chills': ['calafrios', 'calafrio'],
+      'fatigue': ['cansaço', 'fadiga'],
+      'weakness': ['fraqueza'],
+      'dizziness': ['tontura', 'tonturas'],
+      'nausea': ['náusea', 'náuseas', 'enjoo'],
+      'vomiting': ['vômito', 'vômitos', 'vomitar', 'vomitando'],
+      'diarrhea': ['diarreia'],
+      'constipation': ['prisão de ventre', 'intestino preso', 'constipação'],
+      'loss of appetite': ['perda de apetite', 'falta de apetite'],
+      'weight loss': ['perda de peso', 'emagrecimento'],
+      'cough': ['tosse'],
+      'sneeze': ['espirros'],
+      'runny nose': ['coriza', 'nariz escorrendo'],
+      'congestion': ['congestão', 'nariz entupido'],
+      'shortness of breath': ['falta de ar', 'dificuldade para respirar', 'dispneia'],
+      'wheezing': ['chiado no peito', 'sibilância'],
+      'chest tightness': ['aperto no peito'],
+      'chest pain': ['dor no peito', 'dor torácica'],
+      'palpitations': ['palpitações', 'palpitação'],
+      'swelling': ['inchaço', 'inchado', 'inchada'],
+      'headache': ['dor de cabeça', 'cefaleia'],
+      'migraine': ['enxaqueca'],
+      'seizure': ['convulsão', 'convulsões'],
+      'numbness': ['dormência', 'dormente'],
+      'tingling': ['formigamento'],
+      'paralysis': ['paralisia'],
+      'confusion': ['confusão', 'confuso', 'confusa'],
+      'vertigo': ['vertigem'],
+      'abdominal pain': ['dor abdominal', 'dor na barriga'],
+      'stomach pain': ['dor de estômago', 'dor no estômago'],
+      'heartburn': ['azia', 'queimação'],
+      'bloating': ['estufamento', 'barriga inchada']
+    },
+    cues: {
+      historical: ['costumava ter', 'tinha antes', 'histórico de', 'já não', 'no passado', 'há anos'],
+      uncertain: ['não tenho certeza', 'talvez', 'possivelmente', 'provavelmente', 'acho que', 'pode ser'],
+      absent: ['não tenho', 'não tive', 'nega', 'negou', 'sem', 'nunca', 'nenhum', 'nenhuma', 'não']
+    },
+    postCues: {
+      historical: ['passou', 'sumiu', 'melhorou']
+    },
+    terminators: ['mas', 'porém', 'embora', 'exceto']
+  },
+  fr: {
+    symptoms: {
+      'fever': ['fièvre'],
+      'chills': ['frissons'],
+      'fatigue': ['fatigue', 'fatigué', 'fatiguée', 'épuisement'],
+      'weakness': ['faiblesse'],
+      'dizziness': ['étourdissements', 'étourdissement', 'tête qui tourne'],
+      'nausea': ['nausée', 'nausées', 'mal au cœur'],
+      'vomiting': ['vomissements', 'vomir', 'vomi'],
+      'diarrhea': ['diarrhée'],
+      'constipation': ['constipation', 'constipé', 'constipée'],
+      'loss of appetite': ["perte d'appétit", "manque d'appétit"],
+      'weight loss': ['perte de poids'],
+      'cough': ['toux', 'je tousse'],
+      'sneeze': ['éternuements'],
+      'runny nose': ['nez qui coule'],
+      'congestion': ['congestion', 'nez bouché'],
+      'shortness of breath': ['essoufflement', 'essoufflé', 'essoufflée', 'du mal à respirer', 'difficulté à respirer'],
+      'wheezing': ['sifflement', 'respiration sifflante'],
+      'chest tightness': ['oppression thoracique', 'serrement dans la poitrine'],
+      'chest pain': ['douleur thoracique', 'douleur à la poitrine', 'douleur dans la poitrine', 'mal à la poitrine'],
+      'palpitations': ['palpitations'],
+      'swelling': ['gonflement', 'enflure', 'gonflé', 'enflé'],
+      'headache': ['mal de tête', 'maux de tête', 'céphalée'],
+      'migraine': ['migraine', 'migraines'],
+      'seizure': ['convulsion', 'convulsions', "crise d'épilepsie"],
+      'numbness': ['engourdissement', 'engourdi'],
+      'tingling': ['picotements', 'fourmillements'],
+      'paralysis': ['paralysie'],
+      'confusion': ['confusion', 'confus', 'confuse'],
+      'vertigo': ['vertige', 'vertiges'],
+      'abdominal pain': ['douleur abdominale', 'mal au ventre'],
+      'stomach pain': ["mal à l'estomac", "douleur à l'estomac"],
+      'heartburn': ["brûlures d'estomac", 'remontées acides'],
+      'bloating': ['ballonnements', 'ballonné']
+    },
+    cues: {
+      historical: ["j'avais", 'avant', 'antécédents de', "n'ai plus", 'plus de', 'dans le passé', 'il y a des années'],
+      uncertain: ['pas sûr', 'pas sûre', 'pas certain', 'peut-être', 'possiblement', 'probablement', 'je pense', 'je crois', 'il se peut'],
+      absent: ["je n'ai pas de", "je n'ai pas", 'pas de', "pas d'", 'aucun', 'aucune', 'sans', 'jamais', 'nie', 'ni', 'pas']
+    },
+    postCues: {
+      historical: ['est passé', 'est passée', 'est partie', 'a disparu']
+    },
+    terminators: ['mais', 'cependant', 'sauf', 'bien que']
+  },
+  de: {
+    symptoms: {
+      'fever': ['fieber'],
+      'chills': ['schüttelfrost', 'frösteln'],
+      'fatigue': ['müdigkeit', 'erschöpfung', 'müde'],
+      'weakness': ['schwäche'],
+      'dizziness': ['schwindel', 'schwindelig'],
+      'nausea': ['übelkeit'],
+      'vomiting': ['erbrechen', 'übergeben'],
+      'diarrhea': ['durchfall'],
+      'constipation': ['verstopfung'],
+      'loss of appetite': ['appetitlosigkeit', 'keinen appetit'],
+      'weight loss': ['gewichtsverlust', 'abgenommen'],
+      'cough': ['husten'],
+      'sneeze': ['niesen'],
+      'runny nose': ['schnupfen', 'laufende nase'],
+      'congestion': ['verstopfte nase'],
+      'shortness of breath': ['atemnot', 'kurzatmigkeit', 'kurzatmig', 'schwer atmen'],
+      'wheezing': ['pfeifende atmung', 'giemen'],
+      'chest tightness': ['engegefühl in der brust', 'brustenge'],
+      'chest pain': ['brustschmerzen', 'brustschmerz', 'schmerzen in der brust'],
+      'palpitations': ['herzklopfen', 'herzrasen', 'herzstolpern'],
+      'swelling': ['schwellung', 'geschwollen'],
+      'headache': ['kopfschmerzen', 'kopfschmerz', 'kopfweh'],
+      'migraine': ['migräne'],
+      'seizure': ['krampfanfall', 'anfall'],
+      'numbness': ['taubheitsgefühl', 'taubheit', 'taub'],
+      'tingling': ['kribbeln'],
+      'paralysis': ['lähmung', 'gelähmt'],
+      'confusion': ['verwirrtheit', 'verwirrt'],
+      'vertigo': ['drehschwindel'],
+      'abdominal pain': ['bauchschmerzen', 'bauchweh'],
+      'stomach pain': ['magenschmerzen'],
+      'heartburn': ['sodbrennen'],
+      'bloating': ['blähungen', 'völlegefühl', 'aufgebläht']
+    },
+    cues: {
+      historical: ['hatte früher', 'früher', 'nicht mehr', 'in der vergangenheit', 'vorgeschichte', 'vor jahren'],
+      uncertain: ['nicht sicher', 'vielleicht', 'möglicherweise', 'wahrscheinlich', 'ich glaube', 'eventuell', 'vermutlich'],
+      absent: ['kein', 'keine', 'keinen', 'keiner', 'nicht', 'ohne', 'nie', 'niemals', 'verneint']
+    },
+    postCues: {
+      historical: ['nicht mehr', 'ist weg', 'ist vorbei'],
+      absent: ['habe ich nicht', 'hab ich nicht', 'habe ich keine', 'hab ich keine']
+    },
+    terminators: ['aber', 'jedoch', 'außer', 'obwohl', 'sondern']
+  },
+  fa: {
+    symptoms: {
+      'fever': ['تب'],
+      'chills': ['لرز'],
+      'fatigue': ['خستگی', 'خسته'],
+      'weakness': ['ضعف', 'بی‌حالی', 'بیحالی'],
+      'dizziness': ['سرگیجه'],
+      'nausea': ['حالت تهوع', 'تهوع'],
+      'vomiting': ['استفراغ', 'بالا آوردن', 'بالا آوردم'],
+      'diarrhea': ['اسهال'],
+      'constipation': ['یبوست'],
+      'loss of appetite': ['بی‌اشتهایی', 'بی اشتهایی', 'کاهش اشتها'],
+      'weight loss': ['کاهش وزن'],
+      'cough': ['سرفه'],
+      'sneeze': ['عطسه'],
+      'runny nose': ['آبریزش بینی'],
+      'congestion': ['گرفتگی بینی'],
+      'shortness of breath': ['تنگی نفس', 'نفس تنگی', 'نفس‌تنگی', 'سختی در نفس کشیدن'],
+      'wheezing': ['خس خس', 'خس‌خس'],
+      'chest tightness': ['سنگینی قفسه سینه', 'فشار در سینه'],
+      'chest pain': ['درد قفسه سینه', 'درد سینه', 'سینه درد'],
+      'palpitations': ['تپش قلب'],
+      'swelling': ['تورم', 'ورم'],
+      'headache': ['سردرد', 'سر درد'],
+      'migraine': ['میگرن'],
+      'seizure': ['تشنج'],
+      'numbness': ['بی‌حسی', 'بی حسی', 'کرختی'],
+      'tingling': ['سوزن سوزن', 'گزگز'],
+      'paralysis': ['فلج'],
+      'confusion': ['سردرگمی', 'گیجی'],
+      'abdominal pain': ['درد شکم', 'شکم درد', 'دل درد', 'دل‌درد'],
+      'stomach pain': ['درد معده', 'معده درد'],
+      'heartburn': ['سوزش معده', 'سوزش سر دل'],
+      'bloating': ['نفخ']
+    },
+    cues: {
+      historical: ['قبلا', 'قبلاً', 'سابقه', 'در گذشته', 'سال‌ها پیش'],
+      uncertain: ['مطمئن نیستم', 'شاید', 'احتمالا', 'احتمالاً', 'فکر کنم'],
+      absent: ['بدون', 'هیچ', 'نه']
+    },
+    // Persian verbs come last: 'تب ندارم' is 'I have no fever'
+    postCues: {
+      historical: ['دیگه ندارم', 'دیگر ندارم', 'داشتم', 'خوب شده', 'رفع شده'],
+      uncertain: ['مطمئن نیستم', 'فکر کنم'],
+      absent: ['ندارم', 'ندارد', 'نداره', 'نداشتم', 'نیست', 'نمی‌کنم', 'نمیکنم', 'نشده']
+    },
+    // 'دارم' affirms, so a later 'ندارم' doesn't reach back past it
+    terminators: ['ولی', 'اما', 'به جز', 'جز', '،', 'دارم', 'داره', 'دارد'],
+    affixes: { suffix: '(?:\\u200c?(?:های|ها|ام|ات|اش|م|ت|ش|ی))?' }
+  },
+  ar: {
+    symptoms: {
+      'fever': ['حمى', 'سخونة'],
+      'chills': ['قشعريرة'],
+      'fatigue': ['تعب', 'إرهاق'],
+      'weakness': ['ضعف', 'وهن'],
+      'dizziness': ['دوخة'],
+      'nausea': ['غثيان'],
+      'vomiting': ['تقيؤ', 'قيء', 'استفراغ'],
+      'diarrhea': ['إسهال'],
+      'constipation': ['إمساك'],
+      'loss of appetite': ['فقدان الشهية', 'قلة الشهية'],
+      'weight loss': ['فقدان الوزن', 'نقص الوزن'],
+      'cough': ['سعال', 'كحة'],
+      'sneeze': ['عطس'],
+      'runny nose': ['سيلان الأنف'],
+      'congestion': ['انسداد الأنف', 'احتقان'],
+      'shortness of breath': ['ضيق التنفس', 'ضيق في التنفس', 'صعوبة في التنفس'],
+      'wheezing': ['صفير'],
+      'chest tightness': ['ضيق في الصدر'],
+      'chest pain': ['ألم في الصدر', 'ألم الصدر', 'ألم بالصدر'],
+      'palpitations': ['خفقان'],
+      'swelling': ['تورم'],
+      'headache': ['صداع'],
+      'migraine': ['صداع نصفي', 'شقيقة'],
+      'seizure': ['نوبة صرع', 'تشنج', 'تشنجات'],
+      'numbness': ['خدر'],
+      'tingling': ['تنميل', 'وخز'],
+      'paralysis': ['شلل'],
+      'confusion': ['ارتباك', 'تشوش'],
+      'vertigo': ['دوار'],
+      'abdominal pain': ['ألم في البطن', 'ألم البطن', 'مغص'],
+      'stomach pain': ['ألم في المعدة', 'وجع المعدة'],
+      'heartburn': ['حرقة المعدة', 'حموضة'],
+      'bloating': ['انتفاخ']
+    },
+    cues: {
+      historical: ['لم يعد', 'سابقا', 'سابقاً', 'كان لدي', 'كان عندي', 'تاريخ', 'في الماضي', 'منذ سنوات'],
+      uncertain: ['لست متأكدا', 'لست متأكد', 'ربما', 'قد يكون', 'ممكن', 'أعتقد', 'احتمال'],
+      absent: ['ليس لدي', 'ليس عندي', 'ما عندي', 'لا يوجد', 'ما في', 'بدون', 'ينفي', 'أبدا', 'لا', 'لم']
+    },
+    postCues: {
+      historical: ['اختفى', 'زال', 'تحسن']
+    },
+    terminators: ['لكن', 'ولكن', 'إلا', 'باستثناء', '،'],
+    // Attached conjunctions and the article: 'والحمى', 'بالصدر'
+    affixes: { prefix: '(?:و|ف|ب|ل|ك)?(?:ال)?', suffix: '(?:ي|ه|ها|ة)?' }
+  },
+  zh: {
+    symptoms: {
+      'fever': ['发烧', '发热'],
+      'chills': ['发冷', '寒战'],
+      'fatigue': ['疲劳', '疲倦', '乏力', '很累'],
+      'weakness': ['虚弱'],
+      'dizziness': ['头晕'],
+      'nausea': ['恶心'],
+      'vomiting': ['呕吐'],
+      'diarrhea': ['腹泻', '拉肚子'],
+      'constipation': ['便秘'],
+      'loss of appetite': ['食欲不振', '胃口不好'],
+      'weight loss': ['体重减轻', '消瘦'],
+      'cough': ['咳嗽'],
+      'sneeze': ['打喷嚏'],
+      'runny nose': ['流鼻涕', '流涕'],
+      'congestion': ['鼻塞'],
+      'shortness of breath': ['呼吸困难', '气短', '喘不过气', '呼吸急促'],
+      'wheezing': ['喘鸣'],
+      'chest tightness': ['胸闷'],
+      'chest pain': ['胸痛', '胸口痛', '胸口疼'],
+      'palpitations': ['心悸', '心慌'],
+      'swelling': ['肿胀', '浮肿'],
+      'headache': ['头痛', '头疼'],
+      'migraine': ['偏头痛'],
+      'seizure': ['癫痫发作', '抽搐'],
+      'numbness': ['麻木'],
+      'tingling': ['刺痛', '发麻'],
+      'paralysis': ['瘫痪'],
+      'confusion': ['意识模糊', '糊涂'],
+      'vertigo': ['眩晕'],
+      'abdominal pain': ['腹痛', '肚子痛', '肚子疼'],
+      'stomach pain': ['胃痛', '胃疼'],
+      'heartburn': ['烧心', '胃灼热'],
+      'bloating': ['腹胀']
+    },
+    cues: {
+      historical: ['以前', '曾经', '过去', '病史', '不再'],
+      uncertain: ['不确定', '可能', '也许', '好像', '大概', '似乎'],
+      absent: ['没有', '否认', '从不', '没', '不', '无', '未']
+    },
+    postCues: {
+      historical: ['好了', '没了', '消失了']
+    },
+    terminators: ['但是', '不过', '可是', '除了', '但', '，'],
+    unsegmented: true
+  }
+}
+
+// Lexicon for a language code such as 'fa' or 'fa-IR'; English when the language has none
+export const getClinicalLexicon = (language: string): ClinicalLexicon =>
+  CLINICAL_LEXICONS[language.split('-')[0].toLowerCase()] || CLINICAL_LEXICONS.en
@@ -0,0 +1,198 @@
+// Clinician Review for Medical Translator
+// Confirmed, edited, rejected and added findings, kept apart from the extraction so re-extraction never overwrites them
+import { MedicalExtractionService, type MedicalExtraction, type MedicationEntry, type FindingKind, type ExtractionInput } from './medicalExtraction'
+import { parseVitalSigns, VITAL_SIGN_LABELS, type VitalSign } from './vitalSigns'
+
+export type ReviewKind = 'symptoms' | 'medications' | 'allergies' | 'vitalSigns' | 'diagnosis'
+export type ReviewStatus = 'confirmed' | 'edited' | 'rejected' | 'added'
+
+export interface FindingReview {
+  kind: ReviewKind
+  key: string // Item in lowercase (vital signs by sign); generated for added items
+  status: ReviewStatus
+  value?: string // The clinician's wording, for edited and added items
+  reviewedAt: string
+}
+
+// An extracted or added item as shown for review
+export interface ReviewItem {
+  kind: ReviewKind
+  key: string
+  label: string
+  value: string // What editing starts from
+  review?: FindingReview
+}
+
+export const REVIEW_SECTIONS: { kind: ReviewKind; label: string; canAdd: boolean }[] = [
+  { kind: 'symptoms', label: 'Symptoms', canAdd: true },
+  { kind: 'medications', label: 'Medications', canAdd: true },
+  { kind: 'allergies', label: 'Allergies', canAdd: true },
+  { kind: 'vitalSigns', label: 'Vital Signs', canAdd: false },
+  { kind: 'diagnosis', label: 'Diagnosis', canAdd: true }
+]
+
+const medicationKey = (entry: MedicationEntry): string => (entry.genericName || entry.name).toLowerCase()
+
+// A medication the clinician typed, parsed like one that was said
+const parseMedication = (value: string): MedicationEntry =>
+  MedicalExtractionService.extractMedicationDetails([value])[0] ?? { name: value, prn: false, verified: false }
+
+// Replace the review for an item, or add one
+export const upsertReview = (reviews: FindingReview[], review: Omit<FindingReview, 'reviewedAt'>): FindingReview[] => [
+  ...reviews.filter(item => !(item.kind === review.kind && item.key === review.key)),
+  { ...review, reviewedAt: new Date().toISOString() }
+]
+
+export const removeReview = (reviews: FindingReview[], kind: ReviewKind, key: string): FindingReview[] =>
+  reviews.filter(item => !(item.kind === kind && item.key === key))
+
+// Every extracted item with its review, then the items the clinician added
+export const getReviewItems = (extraction: MedicalExtraction, reviews: FindingReview[]): ReviewItem[] => {
+  const reviewOf = (kind: ReviewKind, key: string) => reviews.find(item => item.kind === kind && item.key === key)
+  const item = (kind: ReviewKind, key: string, label: string, value = label): ReviewItem =>
+    ({ kind, key, label, value, review: reviewOf(kind, key) })
+
+  const symptoms = extraction.symptomFindings
+    ? extraction.symptomFindings.map(finding =>
+        item('symptoms', finding.symptom.toLowerCase(), finding.status === 'present' ? finding.symptom : `${finding.symptom} (${finding.status})`, finding.symptom))
+    : extraction.symptoms.map(symptom => item('symptoms', symptom.toLowerCase(), symptom))
+  const medications = extraction.medicationDetails
+    ? extraction.medicationDetails.map(entry => item('medications', medicationKey(entry), MedicalExtractionService.formatMedication(entry)))
+    : extraction.medications.map(medication => item('medications', medication.toLowerCase(), medication))
+  const vitalSigns = (Object.entries(extraction.vitalSigns) as [VitalSign, string | undefined][])
+    .filter(([, display]) => display)
+    .map(([sign, display]) => item('vitalSigns', sign, `${VITAL_SIGN_LABELS[sign] || sign}: ${display}`, display))
+
+  return [
+    ...symptoms,
+    ...medications,
+    ...extraction.medicalHistory.allergies.map(allergy => item('allergies', allergy.toLowerCase(), allergy)),
+    ...vitalSigns,
+    ...extraction.diagnosis.map(diagnosis => item('diagnosis', diagnosis.toLowerCase(), diagnosis)),
+    ...reviews.filter(review => review.status === 'added').map(review => ({ kind: review.kind, key: review.key, label: review.value!, value: review.value!, review }))
+  ]
+}
+
+// The extraction as the clinician left it: rejected items removed, edits applied and added items included,
+// then severity, urgency and red flags scored again. An edited item keeps the provenance of what was extracted
+export const applyReview = (
+  extraction: MedicalExtraction,
+  reviews: FindingReview[],
+  options: {
+    patientInputs?: Array<string | ExtractionInput> // Red-flag phrases are matched against these
+    aiAssessed?: boolean // Keep the AI's acuity as a floor and its recommendations
+  } = {}
+): MedicalExtraction => {
+  // Confirming a finding changes nothing, so it never rescores
+  if (reviews.every(review => review.status === 'confirmed')) return extraction
+
+  const reviewOf = (kind: ReviewKind, key: string) => reviews.find(item => item.kind === kind && item.key === key)
+  const added = (kind: ReviewKind) => reviews.filter(item => item.kind === kind && item.status === 'added').map(item => item.value!)
+  const provenance = extraction.provenance && {
+    symptoms: { ...extraction.provenance.symptoms },
+    medications: { ...extraction.provenance.medications },
+    allergies: { ...extraction.provenance.allergies },
+    vitalSigns: { ...extraction.provenance.vitalSigns }
+  }
+  const carrySources = (kind: FindingKind, from: string, to: string) => {
+    if (provenance?.[kind][from]) provenance[kind][to.toLowerCase()] = provenance[kind][from]
+  }
+
+  // Plain lists: rejected items dropped, edits swapped in, additions appended
+  const reviewList = (kind: ReviewKind, items: string[]): string[] => [
+    ...items.flatMap(value => {
+      const review = reviewOf(kind, value.toLowerCase())
+      if (review?.status === 'rejected') return []
+      if (review?.status === 'edited') {
+        if (kind !== 'diagnosis') carrySources(kind, value.toLowerCase(), review.value!)
+        return [review.value!]
+      }
+      return [value]
+    }),
+    ...added(kind)
+  ]
+
+  const symptomFindings = extraction.symptomFindings && [
+    ...extraction.symptomFindings.flatMap(finding => {
+      const review = reviewOf('symptoms', finding.symptom.toLowerCase())
+      if (review?.status === 'rejected') return []
+      if (review?.status === 'edited') {
+        carrySources('symptoms', finding.symptom.toLowerCase(), review.value!)
+        return [{ ...finding, symptom: review.value! }]
+      }
+      return [finding]
+    }),
+    ...added('symptoms').map(symptom => ({ symptom, status: 'present' as const }))
+  ]
+
+  const medicationDetails = extraction.medicationDetails && [
+    ...extraction.medicationDetails.flatMap(entry => {
+      const review = reviewOf('medications', medicationKey(entry))
+      if (review?.status === 'rejected') return []
+      if (review?.status === 'edited') {
+        const edited = { ...parseMedication(review.value!), sources: entry.sources }
+        carrySources('medications', medicationKey(entry), medicationKey(edited))
+        return [edited]
+      }
+      return [entry]
+    }),
+    ...added('medications').map(parseMedication)
+  ]
+
+  // Edited vital signs are parsed again so their range flag matches the new value
+  const vitalSigns: MedicalExtraction['vitalSigns'] = {}
+  const vitalSignReadings = extraction.vitalSignReadings?.filter(reading => reviewOf('vitalSigns', reading.sign)?.status !== 'rejected')
+  for (const [sign, display] of Object.entries(extraction.vitalSigns) as [VitalSign, string | undefined][]) {
+    const review = reviewOf('vitalSigns', sign)
+    if (!display || review?.status === 'rejected') continue
+    if (review?.status !== 'edited') {
+      vitalSigns[sign] = display
+      continue
+    }
+
+    const parsed = parseVitalSigns([`${VITAL_SIGN_LABELS[sign]} ${review.value}`]).find(reading => reading.sign === sign)
+    vitalSigns[sign] = parsed?.display ?? review.value
+    const index = vitalSignReadings?.findIndex(reading => reading.sign === sign) ?? -1
+    if (index >= 0) {
+      vitalSignReadings![index] = parsed
+        ? { ...parsed, span: undefined }
+        : { sign, value: parseFloat(review.value!) || 0, display: review.value!, flag: 'normal' }
+    }
+  }
+
+  const symptoms = symptomFindings
+    ? symptomFindings.filter(finding => finding.status === 'present').map(finding => finding.symptom)
+    : reviewList('symptoms', extraction.symptoms)
+
+  // Pain scored from symptoms that were all rejected no longer counts; an added pain symptom is scored like a spoken one
+  const isPain = (symptom: string) => MedicalExtractionService.extractPainLevel(symptom) > 0
+  const painLevel = extraction.symptoms.some(isPain) && !symptoms.some(isPain)
+    ? 0
+    : extraction.painLevel || MedicalExtractionService.extractPainLevel(added('symptoms').join('. '))
+
+  const reviewed: MedicalExtraction = {
+    ...extraction,
+    painLevel,
+    symptomFindings,
+    symptoms,
+    medicationDetails,
+    medications: medicationDetails
+      ? medicationDetails.map(entry => MedicalExtractionService.formatMedication(entry))
+      : reviewList('medications', extraction.medications),
+    medicalHistory: { ...extraction.medicalHistory, allergies: reviewList('allergies', extraction.medicalHistory.allergies) },
+    vitalSigns,
+    vitalSignReadings,
+    diagnosis: reviewList('diagnosis', extraction.diagnosis),
+    provenance
+  }
+  MedicalExtractionService.reassess(reviewed, options.patientInputs ?? [], options.aiAssessed)
+  return reviewed
+}
+
+// e.g. '3 confirmed, 1 edited, 2 added'
+export const summarizeReview = (reviews: FindingReview[]): string => {
+  const counts = (['confirmed', 'edited', 'rejected', 'added'] as ReviewStatus[])
+    .map(status => [status, reviews.filter(review => review.status === status).length] as const)
+    .filter(([, count]) => count > 0)
+  return counts.map(([status, count]) => `${count} ${status}`).join(', ')
+}
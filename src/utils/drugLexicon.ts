@@ -0,0 +1,192 @@
+// Offline Drug Lexicon for Medical Translator
+// Common generic names, plus brand names mapped to their generic, used to validate extracted medications
+
+const GENERIC_NAMES = [
+  // Analgesics and anti-inflammatories
+  'acetaminophen', 'paracetamol', 'ibuprofen', 'naproxen', 'aspirin', 'diclofenac', 'celecoxib', 'meloxicam',
+  'ketorolac', 'indomethacin', 'tramadol', 'codeine', 'morphine', 'oxycodone', 'hydrocodone', 'hydromorphone',
+  'fentanyl', 'methadone', 'buprenorphine', 'gabapentin', 'pregabalin',
+  // Antibiotics and antivirals
+  'amoxicillin', 'amoxicillin-clavulanate', 'ampicillin', 'penicillin', 'cephalexin', 'cefuroxime', 'ceftriaxone',
+  'azithromycin', 'clarithromycin', 'erythromycin', 'doxycycline', 'tetracycline', 'ciprofloxacin', 'levofloxacin',
+  'moxifloxacin', 'metronidazole', 'nitrofurantoin', 'trimethoprim', 'sulfamethoxazole', 'clindamycin',
+  'vancomycin', 'linezolid', 'rifampin', 'isoniazid', 'acyclovir', 'valacyclovir', 'oseltamivir', 'fluconazole',
+  'nystatin', 'terbinafine',
+  // Cardiovascular
+  'lisinopril', 'enalapril', 'ramipril', 'captopril', 'losartan', 'valsartan', 'irbesartan', 'candesartan',
+  'amlodipine', 'nifedipine', 'diltiazem', 'verapamil', 'metoprolol', 'atenolol', 'bisoprolol', 'carvedilol',
+  'propranolol', 'hydrochlorothiazide', 'chlorthalidone', 'furosemide', 'bumetanide', 'torsemide',
+  'spironolactone', 'digoxin', 'amiodarone', 'nitroglycerin', 'isosorbide', 'hydralazine', 'clonidine',
+  'atorvastatin', 'simvastatin', 'rosuvastatin', 'pravastatin', 'ezetimibe', 'clopidogrel', 'ticagrelor',
+  'prasugrel', 'warfarin', 'heparin', 'enoxaparin', 'apixaban', 'rivaroxaban', 'dabigatran',
+  // Endocrine
+  'metformin', 'glipizide', 'glyburide', 'glimepiride', 'gliclazide', 'sitagliptin', 'empagliflozin',
+  'dapagliflozin', 'pioglitazone', 'liraglutide', 'semaglutide', 'dulaglutide', 'insulin', 'levothyroxine',
+  'methimazole', 'prednisone', 'prednisolone', 'methylprednisolone', 'dexamethasone', 'hydrocortisone',
+  // Respiratory and allergy
+  'albuterol', 'salbutamol', 'ipratropium', 'tiotropium', 'fluticasone', 'budesonide', 'beclomethasone',
+  'salmeterol', 'formoterol', 'montelukast', 'cetirizine', 'loratadine', 'fexofenadine', 'diphenhydramine',
+  'chlorpheniramine', 'pseudoephedrine', 'guaifenesin', 'dextromethorphan', 'epinephrine',
+  // Gastrointestinal
+  'omeprazole', 'esomeprazole', 'pantoprazole', 'lansoprazole', 'famotidine', 'ranitidine', 'ondansetron',
+  'metoclopramide', 'promethazine', 'loperamide', 'bisacodyl', 'senna', 'lactulose', 'docusate', 'simethicone',
+  // Psychiatric and neurological
+  'sertraline', 'fluoxetine', 'citalopram', 'escitalopram', 'paroxetine', 'venlafaxine', 'duloxetine',
+  'bupropion', 'mirtazapine', 'trazodone', 'amitriptyline', 'nortriptyline', 'quetiapine', 'olanzapine',
+  'risperidone', 'aripiprazole', 'haloperidol', 'lithium', 'lorazepam', 'diazepam', 'alprazolam', 'clonazepam',
+  'zolpidem', 'melatonin', 'levetiracetam', 'lamotrigine', 'valproate', 'carbamazepine', 'phenytoin',
+  'topiramate', 'sumatriptan', 'donepezil', 'levodopa', 'carbidopa',
+  // Urology and other
+  'tamsulosin', 'finasteride', 'sildenafil', 'tadalafil', 'oxybutynin', 'allopurinol', 'colchicine',
+  'alendronate', 'methotrexate', 'hydroxychloroquine', 'folic acid', 'ferrous sulfate', 'vitamin d',
+  'vitamin b12', 'calcium carbonate', 'potassium chloride', 'magnesium', 'naloxone'
+]
+
+// Brand name -> generic name
+const BRAND_NAMES: Record<string, string> = {
+  tylenol: 'acetaminophen',
+  panadol: 'paracetamol',
+  advil: 'ibuprofen',
+  motrin: 'ibuprofen',
+  aleve: 'naproxen',
+  voltaren: 'diclofenac',
+  celebrex: 'celecoxib',
+  ultram: 'tramadol',
+  percocet: 'oxycodone',
+  neurontin: 'gabapentin',
+  lyrica: 'pregabalin',
+  augmentin: 'amoxicillin-clavulanate',
+  keflex: 'cephalexin',
+  zithromax: 'azithromycin',
+  'z-pak': 'azithromycin',
+  cipro: 'ciprofloxacin',
+  levaquin: 'levofloxacin',
+  flagyl: 'metronidazole',
+  macrobid: 'nitrofurantoin',
+  bactrim: 'sulfamethoxazole',
+  valtrex: 'valacyclovir',
+  tamiflu: 'oseltamivir',
+  diflucan: 'fluconazole',
+  zestril: 'lisinopril',
+  prinivil: 'lisinopril',
+  cozaar: 'losartan',
+  diovan: 'valsartan',
+  norvasc: 'amlodipine',
+  lopressor: 'metoprolol',
+  toprol: 'metoprolol',
+  tenormin: 'atenolol',
+  coreg: 'carvedilol',
+  lasix: 'furosemide',
+  aldactone: 'spironolactone',
+  lipitor: 'atorvastatin',
+  zocor: 'simvastatin',
+  crestor: 'rosuvastatin',
+  plavix: 'clopidogrel',
+  brilinta: 'ticagrelor',
+  coumadin: 'warfarin',
+  lovenox: 'enoxaparin',
+  eliquis: 'apixaban',
+  xarelto: 'rivaroxaban',
+  glucophage: 'metformin',
+  januvia: 'sitagliptin',
+  jardiance: 'empagliflozin',
+  farxiga: 'dapagliflozin',
+  victoza: 'liraglutide',
+  ozempic: 'semaglutide',
+  trulicity: 'dulaglutide',
+  lantus: 'insulin',
+  humalog: 'insulin',
+  novolog: 'insulin',
+  synthroid: 'levothyroxine',
+  ventolin: 'albuterol',
+  proair: 'albuterol',
+  flovent: 'fluticasone',
+  pulmicort: 'budesonide',
+  advair: 'fluticasone',
+  symbicort: 'budesonide',
+  spiriva: 'tiotropium',
+  singulair: 'montelukast',
+  zyrtec: 'cetirizine',
+  claritin: 'loratadine',
+  allegra: 'fexofenadine',
+  benadryl: 'diphenhydramine',
+  sudafed: 'pseudoephedrine',
+  mucinex: 'guaifenesin',
+  epipen: 'epinephrine',
+  prilosec: 'omeprazole',
+  nexium: 'esomeprazole',
+  protonix: 'pantoprazole',
+  prevacid: 'lansoprazole',
+  pepcid: 'famotidine',
+  zantac: 'ranitidine',
+  zofran: 'ondansetron',
+  reglan: 'metoclopramide',
+  phenergan: 'promethazine',
+  imodium: 'loperamide',
+  dulcolax: 'bisacodyl',
+  zoloft: 'sertraline',
+  prozac: 'fluoxetine',
+  celexa: 'citalopram',
+  lexapro: 'escitalopram',
+  paxil: 'paroxetine',
+  effexor: 'venlafaxine',
+  cymbalta: 'duloxetine',
+  wellbutrin: 'bupropion',
+  remeron: 'mirtazapine',
+  seroquel: 'quetiapine',
+  zyprexa: 'olanzapine',
+  risperdal: 'risperidone',
+  abilify: 'aripiprazole',
+  ativan: 'lorazepam',
+  valium: 'diazepam',
+  xanax: 'alprazolam',
+  klonopin: 'clonazepam',
+  ambien: 'zolpidem',
+  keppra: 'levetiracetam',
+  lamictal: 'lamotrigine',
+  depakote: 'valproate',
+  tegretol: 'carbamazepine',
+  dilantin: 'phenytoin',
+  topamax: 'topiramate',
+  imitrex: 'sumatriptan',
+  aricept: 'donepezil',
+  sinemet: 'carbidopa',
+  flomax: 'tamsulosin',
+  proscar: 'finasteride',
+  viagra: 'sildenafil',
+  cialis: 'tadalafil',
+  zyloprim: 'allopurinol',
+  fosamax: 'alendronate',
+  plaquenil: 'hydroxychloroquine',
+  narcan: 'naloxone'
+}
+
+export interface DrugMatch {
+  name: string // As written in the text
+  genericName: string
+  start: number
+  end: number
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Longest names first so 'folic acid' wins over any shorter overlap
+const LEXICON_NAMES = [...GENERIC_NAMES, ...Object.keys(BRAND_NAMES)].sort((a, b) => b.length - a.length)
+const LEXICON_PATTERN = new RegExp(`\\b(?:${LEXICON_NAMES.map(escapeRegExp).join('|')})\\b`, 'gi')
+
+// Generic name for a known drug, or undefined when it isn't in the lexicon
+export const lookupDrug = (name: string): string | undefined => {
+  const normalized = name.trim().toLowerCase()
+  if (BRAND_NAMES[normalized]) return BRAND_NAMES[normalized]
+  return GENERIC_NAMES.includes(normalized) ? normalized : undefined
+}
+
+// Every lexicon drug mentioned in the text, in order
+export const findDrugs = (text: string): DrugMatch[] => {
+  return [...text.matchAll(LEXICON_PATTERN)].map(match => ({
+    name: match[0],
+    genericName: lookupDrug(match[0])!,
+    start: match.index!,
+    end: match.index! + match[0].length
+  }))
+}
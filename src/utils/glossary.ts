@@ -0,0 +1,367 @@
+// Clinical Glossary for Medical Translator
+// Mandated per-language-pair terms that are masked before translation and reinserted afterwards
+
+export interface GlossaryEntry {
+  id: string
+  sourceLanguage: string // Base language code, e.g. 'en'
+  targetLanguage: string
+  sourceTerm: string
+  targetTerm: string
+  note?: string
+}
+
+export interface GlossaryPlaceholder {
+  token: string
+  entry: GlossaryEntry
+}
+
+export interface MaskedText {
+  text: string
+  placeholders: GlossaryPlaceholder[]
+}
+
+export interface UnmaskResult {
+  text: string
+  missingTerms: string[] // Terms whose placeholder the provider dropped or mangled
+}
+
+// Languages written without spaces, where word boundaries don't apply
+const UNSEGMENTED_LANGUAGES = ['zh', 'ja']
+
+// Default terms, seeded on first run (previously the hardcoded medical dictionary)
+const DEFAULT_TERMS: Array<[string, string, string, string]> = [
+  ['en', 'fa', 'headache', 'سردرد'],
+  ['en', 'fa', 'stomach pain', 'درد معده'],
+  ['en', 'fa', 'fever', 'تب'],
+  ['en', 'fa', 'nausea', 'تهوع'],
+  ['en', 'fa', 'dizziness', 'سرگیجه'],
+  ['en', 'fa', 'chest pain', 'درد قفسه سینه'],
+  ['en', 'fa', 'shortness of breath', 'تنگی نفس'],
+  ['en', 'fa', 'fatigue', 'خستگی'],
+  ['en', 'fa', 'cough', 'سرفه'],
+  ['en', 'fa', 'sore throat', 'گلودرد'],
+  ['fa', 'en', 'سردرد', 'headache'],
+  ['fa', 'en', 'درد معده', 'stomach pain'],
+  ['fa', 'en', 'تب', 'fever'],
+  ['fa', 'en', 'تهوع', 'nausea'],
+  ['fa', 'en', 'سرگیجه', 'dizziness'],
+  ['fa', 'en', 'درد قفسه سینه', 'chest pain'],
+  ['fa', 'en', 'تنگی نفس', 'shortness of breath'],
+  ['fa', 'en', 'خستگی', 'fatigue'],
+  ['fa', 'en', 'سرفه', 'cough'],
+  ['fa', 'en', 'گلودرد', 'sore throat'],
+  ['ar', 'en', 'صداع', 'headache'],
+  ['ar', 'en', 'ألم في المعدة', 'stomach pain'],
+  ['ar', 'en', 'حمى', 'fever'],
+  ['ar', 'en', 'غثيان', 'nausea'],
+  ['ar', 'en', 'دوار', 'dizziness'],
+  ['ar', 'en', 'ألم في الصدر', 'chest pain'],
+  ['ar', 'en', 'ضيق في التنفس', 'shortness of breath'],
+  ['ar', 'en', 'إرهاق', 'fatigue'],
+  ['ar', 'en', 'سعال', 'cough'],
+  ['ar', 'en', 'التهاب الحلق', 'sore throat']
+]
+
+const CSV_HEADER = ['source_language', 'target_language', 'source_term', 'target_term', 'note']
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const escapeCsv = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+// Parse CSV text into rows, honouring quoted fields
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      if (row.some(value => value.trim() !== '')) rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  row.push(field)
+  if (row.some(value => value.trim() !== '')) rows.push(row)
+  return rows
+}
+
+class GlossaryService {
+  private static instance: GlossaryService
+  private entries: GlossaryEntry[] = []
+  private readonly STORAGE_KEY = 'medical_translator_glossary'
+
+  private constructor() {
+    this.loadEntries()
+  }
+
+  static getInstance(): GlossaryService {
+    if (!GlossaryService.instance) {
+      GlossaryService.instance = new GlossaryService()
+    }
+    return GlossaryService.instance
+  }
+
+  // Get entries, optionally filtered to one language pair
+  getEntries(sourceLanguage?: string, targetLanguage?: string): GlossaryEntry[] {
+    return this.entries.filter(entry =>
+      (!sourceLanguage || entry.sourceLanguage === sourceLanguage) &&
+      (!targetLanguage || entry.targetLanguage === targetLanguage)
+    )
+  }
+
+  addEntry(entry: Omit<GlossaryEntry, 'id'>): GlossaryEntry | null {
+    const sourceTerm = entry.sourceTerm.trim()
+    const targetTerm = entry.targetTerm.trim()
+    if (!sourceTerm || !targetTerm) return null
+
+    // Replace any existing mapping for the same source term and pair
+    const existing = this.findEntry(entry.sourceLanguage, entry.targetLanguage, sourceTerm)
+    if (existing) {
+      this.updateEntry(existing.id, { targetTerm, note: entry.note })
+      return { ...existing, targetTerm, note: entry.note }
+    }
+
+    const newEntry: GlossaryEntry = {
+      ...entry,
+      id: `gl_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      sourceTerm,
+      targetTerm
+    }
+    this.entries.push(newEntry)
+    this.saveEntries()
+    return newEntry
+  }
+
+  updateEntry(id: string, updates: Partial<Omit<GlossaryEntry, 'id'>>): void {
+    this.entries = this.entries.map(entry => entry.id === id ? { ...entry, ...updates } : entry)
+    this.saveEntries()
+  }
+
+  removeEntry(id: string): void {
+    this.entries = this.entries.filter(entry => entry.id !== id)
+    this.saveEntries()
+  }
+
+  // Replace glossary terms with placeholder tokens the provider must leave untouched
+  maskText(text: string, sourceLanguage: string, targetLanguage: string): MaskedText {
+    const candidates = this.getEntries(sourceLanguage, targetLanguage)
+      .sort((a, b) => b.sourceTerm.length - a.sourceTerm.length) // Longest match first
+    const placeholders: GlossaryPlaceholder[] = []
+    let masked = text
+
+    for (const entry of candidates) {
+      const term = escapeRegExp(entry.sourceTerm)
+      const pattern = UNSEGMENTED_LANGUAGES.includes(sourceLanguage)
+        ? new RegExp(term, 'giu')
+        : new RegExp(`(?<![\\p{L}\\p{N}])${term}(?![\\p{L}\\p{N}])`, 'giu')
+
+      masked = masked.replace(pattern, () => {
+        const token = `__GLS${placeholders.length}__`
+        placeholders.push({ token, entry })
+        return token
+      })
+    }
+
+    return { text: masked, placeholders }
+  }
+
+  // Put the approved target terms back in place of the placeholder tokens
+  unmaskText(text: string, placeholders: GlossaryPlaceholder[]): UnmaskResult {
+    let result = text
+    const missingTerms: string[] = []
+
+    for (const { token, entry } of placeholders) {
+      // Engines sometimes add spaces or change case inside the token
+      const index = token.match(/\d+/)![0]
+      const pattern = new RegExp(`_{1,2}\\s*GLS\\s*${index}\\s*_{1,2}`, 'i')
+      if (pattern.test(result)) {
+        result = result.replace(pattern, () => entry.targetTerm)
+      } else {
+        missingTerms.push(entry.sourceTerm)
+      }
+    }
+
+    return { text: result, missingTerms }
+  }
+
+  // Import entries from CSV (source_language,target_language,source_term,target_term[,note])
+  importCSV(text: string): number {
+    const rows = parseCsv(text)
+    if (rows.length === 0) return 0
+
+    const hasHeader = rows[0][0]?.trim().toLowerCase() === CSV_HEADER[0]
+    let imported = 0
+
+    for (const row of hasHeader ? rows.slice(1) : rows) {
+      const [sourceLanguage, targetLanguage, sourceTerm, targetTerm, note] = row.map(value => value.trim())
+      if (!sourceLanguage || !targetLanguage || !sourceTerm || !targetTerm) continue
+
+      if (this.addEntry({ sourceLanguage, targetLanguage, sourceTerm, targetTerm, note: note || undefined })) {
+        imported++
+      }
+    }
+
+    return imported
+  }
+
+  exportCSV(): string {
+    const lines = [CSV_HEADER.join(',')]
+    for (const entry of this.entries) {
+      lines.push([
+        entry.sourceLanguage,
+        entry.targetLanguage,
+        entry.sourceTerm,
+        entry.targetTerm,
+        entry.note || ''
+      ].map(escapeCsv).join(','))
+    }
+    return lines.join('\n')
+  }
+
+  // Import TBX (TBX-Basic v3 conceptEntry/langSec or v2 termEntry/langSet)
+  importTBX(xml: string): number {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml')
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('Invalid TBX file')
+    }
+
+    const concepts = [
+      ...Array.from(doc.getElementsByTagName('conceptEntry')),
+      ...Array.from(doc.getElementsByTagName('termEntry'))
+    ]
+    let imported = 0
+
+    for (const concept of concepts) {
+      const langSections = [
+        ...Array.from(concept.getElementsByTagName('langSec')),
+        ...Array.from(concept.getElementsByTagName('langSet'))
+      ]
+      const terms: Array<{ language: string; term: string }> = []
+
+      for (const section of langSections) {
+        const language = (section.getAttribute('xml:lang') || section.getAttribute('lang') || '').split('-')[0].toLowerCase()
+        const term = section.getElementsByTagName('term')[0]?.textContent?.trim()
+        if (language && term) terms.push({ language, term })
+      }
+
+      const note = concept.getElementsByTagName('note')[0]?.textContent?.trim() || undefined
+
+      // A concept applies in every direction between its languages
+      for (const source of terms) {
+        for (const target of terms) {
+          if (source.language === target.language) continue
+          if (this.addEntry({
+            sourceLanguage: source.language,
+            targetLanguage: target.language,
+            sourceTerm: source.term,
+            targetTerm: target.term,
+            note
+          })) {
+            imported++
+          }
+        }
+      }
+    }
+
+    return imported
+  }
+
+  exportTBX(): string {
+    const concepts = this.entries.map((entry, index) => `      <conceptEntry id="c${index + 1}">${
+      entry.note ? `\n        <note>${escapeXml(entry.note)}</note>` : ''
+    }
+        <langSec xml:lang="${escapeXml(entry.sourceLanguage)}">
+          <termSec><term>${escapeXml(entry.sourceTerm)}</term></termSec>
+        </langSec>
+        <langSec xml:lang="${escapeXml(entry.targetLanguage)}">
+          <termSec><term>${escapeXml(entry.targetTerm)}</term></termSec>
+        </langSec>
+      </conceptEntry>`)
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<tbx type="TBX-Basic" style="dca" xml:lang="en" xmlns="urn:iso:std:iso:30042:ed-2">
+  <tbxHeader>
+    <fileDesc>
+      <sourceDesc><p>Medical Translator clinical glossary</p></sourceDesc>
+    </fileDesc>
+  </tbxHeader>
+  <text>
+    <body>
+${concepts.join('\n')}
+    </body>
+  </text>
+</tbx>
+`
+  }
+
+  private findEntry(sourceLanguage: string, targetLanguage: string, sourceTerm: string): GlossaryEntry | undefined {
+    const normalized = sourceTerm.toLowerCase()
+    return this.entries.find(entry =>
+      entry.sourceLanguage === sourceLanguage &&
+      entry.targetLanguage === targetLanguage &&
+      entry.sourceTerm.toLowerCase() === normalized
+    )
+  }
+
+  private loadEntries(): void {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY)
+      if (stored) {
+        this.entries = JSON.parse(stored)
+        return
+      }
+    } catch (error) {
+      console.error('Error loading glossary:', error)
+    }
+
+    this.entries = DEFAULT_TERMS.map(([sourceLanguage, targetLanguage, sourceTerm, targetTerm], index) => ({
+      id: `gl_default_${index}`,
+      sourceLanguage,
+      targetLanguage,
+      sourceTerm,
+      targetTerm
+    }))
+    this.saveEntries()
+  }
+
+  private saveEntries(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.entries))
+    } catch (error) {
+      console.error('Failed to save glossary:', error)
+    }
+  }
+}
+
+// Export singleton instance
+export const glossary = GlossaryService.getInstance()
@@ -0,0 +1,94 @@
+// Language Detection for Medical Translator
+// Offline identification of the languages the app supports, used before translating an utterance
+
+export interface LanguageDetectionResult {
+  language: string // Base language code, e.g. 'fa'
+  confidence: number // 0-1
+  method: 'offline' | 'provider'
+}
+
+// What the app does when an utterance is not in the configured source language
+export type LanguageDetectionMode = 'off' | 'warn' | 'auto'
+
+// Below this, the result is only a hint and should not change the source language
+export const MIN_DETECTION_CONFIDENCE = 0.7
+
+// Shorter inputs ("ok", "yes") are too ambiguous to identify
+const MIN_LETTERS = 8
+
+// Frequent function words per language
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'i', 'you', 'my', 'it', 'have', 'has', 'do', 'does', 'not', 'what', 'with', 'for', 'in', 'of', 'to', 'a', 'pain', 'since', 'this', 'your', 'how'],
+  es: ['el', 'la', 'los', 'las', 'y', 'es', 'yo', 'tengo', 'mi', 'me', 'que', 'de', 'en', 'con', 'por', 'para', 'no', 'un', 'una', 'dolor', 'desde', 'usted', 'cómo', 'está', 'muy'],
+  pt: ['o', 'a', 'os', 'as', 'e', 'é', 'eu', 'tenho', 'meu', 'minha', 'que', 'de', 'em', 'com', 'não', 'um', 'uma', 'dor', 'desde', 'você', 'como', 'está', 'muito', 'do', 'da'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'je', 'tu', 'vous', 'mon', 'ma', 'que', 'de', 'des', 'en', 'avec', 'pour', 'pas', 'un', 'une', 'douleur', 'depuis', 'comment', 'très', 'j\'ai', 'ai'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'ich', 'du', 'sie', 'mein', 'meine', 'nicht', 'mit', 'für', 'ein', 'eine', 'habe', 'schmerzen', 'seit', 'wie', 'sehr', 'zu', 'auf', 'es', 'haben', 'bin'],
+  fa: ['است', 'من', 'را', 'که', 'این', 'از', 'به', 'با', 'در', 'دارم', 'درد', 'می', 'شما', 'چه', 'هست', 'خیلی', 'دارید', 'کنید', 'شده'],
+  ar: ['هل', 'من', 'في', 'على', 'أنا', 'هذا', 'هذه', 'الى', 'إلى', 'عن', 'لا', 'ما', 'أن', 'لدي', 'عندي', 'ألم', 'منذ', 'كيف', 'جدا', 'التي', 'الذي']
+}
+
+// Letters that only occur in one language of a script family
+const DISTINCT_LETTERS: Record<string, RegExp> = {
+  es: /[ñ¿¡]/g,
+  pt: /[ãõ]/g,
+  fr: /[èêëîïœùû]/g,
+  de: /[äöüß]/g,
+  fa: /[پچژگکی]/g, // Persian keheh and yeh; Arabic uses ك and ي
+  ar: /[ةيكىأإؤئ]/g
+}
+
+const SCRIPT_PATTERNS = {
+  han: /[㐀-鿿]/g,
+  arabic: /[؀-ۿ]/g,
+  latin: /[a-zà-ÿ]/gi
+}
+
+const countMatches = (text: string, pattern: RegExp): number => (text.match(pattern) || []).length
+
+// Score candidates by stopword hits and distinctive letters
+const scoreLanguages = (text: string, languages: string[]): Record<string, number> => {
+  const tokens = text.toLowerCase().split(/[^\p{L}']+/u).filter(Boolean)
+  const scores: Record<string, number> = {}
+
+  languages.forEach(language => {
+    const stopwords = STOPWORDS[language] || []
+    const stopwordHits = tokens.filter(token => stopwords.includes(token)).length
+    // Arabic definite article is a strong signal on its own
+    const articleHits = language === 'ar' ? tokens.filter(token => token.startsWith('ال') && token.length > 3).length : 0
+    const letterHits = DISTINCT_LETTERS[language] ? countMatches(text.toLowerCase(), DISTINCT_LETTERS[language]) : 0
+    scores[language] = stopwordHits + articleHits * 0.5 + letterHits * 0.5
+  })
+
+  return scores
+}
+
+// Identify the language of a short utterance without any network call; null if unsure
+export const detectLanguageOffline = (text: string): LanguageDetectionResult | null => {
+  const han = countMatches(text, SCRIPT_PATTERNS.han)
+  const arabic = countMatches(text, SCRIPT_PATTERNS.arabic)
+  const latin = countMatches(text, SCRIPT_PATTERNS.latin)
+  const letters = han + arabic + latin
+
+  // Chinese characters carry a word each, so a couple are enough
+  if (han >= 2 && han / letters > 0.5) {
+    return { language: 'zh', confidence: Math.min(1, 0.6 + han / letters * 0.4), method: 'offline' }
+  }
+  if (letters < MIN_LETTERS) return null
+
+  const candidates = arabic > latin ? ['fa', 'ar'] : ['en', 'es', 'pt', 'fr', 'de']
+  const scores = scoreLanguages(text, candidates)
+  const ranked = Object.entries(scores).sort((a, b) => b[1] - a[1])
+  const [best, bestScore] = ranked[0]
+  const runnerUpScore = ranked[1]?.[1] ?? 0
+
+  if (bestScore === 0) return null
+
+  // Confidence grows with the margin over the runner-up
+  const margin = (bestScore - runnerUpScore) / bestScore
+  const evidence = Math.min(1, bestScore / 3)
+  return {
+    language: best,
+    confidence: Math.round((0.4 + 0.6 * margin * evidence) * 100) / 100,
+    method: 'offline'
+  }
+}
@@ -0,0 +1,82 @@
+// LLM Response Contract for Medical Translator
+// Translations from chat models are requested as JSON and validated before use
+
+export interface LLMTranslationPayload {
+  translation: string
+  confidence: number // 0-1
+  medicalTerms: string[]
+  notes: string // Translator remarks, e.g. ambiguous terms; empty if none
+}
+
+export class LLMResponseParseError extends Error {
+  rawResponse: string
+
+  constructor(message: string, rawResponse: string) {
+    super(message)
+    this.name = 'LLMResponseParseError'
+    this.rawResponse = rawResponse
+  }
+}
+
+// Appended to translation system prompts; OpenAI's json_object mode requires the word "JSON" in the prompt
+export const TRANSLATION_JSON_INSTRUCTIONS = `Respond with a single JSON object and nothing else, using exactly these fields:
+{
+  "translation": "the complete translated text, every sentence included",
+  "confidence": 0-100,
+  "medicalTerms": ["medical terms found in the text"],
+  "notes": "ambiguities or remarks for the clinician, or an empty string"
+}`
+
+// Some local models wrap JSON in markdown fences or add a sentence before it
+const extractJsonObject = (content: string): string => {
+  const unfenced = content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/gi, '')
+  const start = unfenced.indexOf('{')
+  const end = unfenced.lastIndexOf('}')
+  if (start === -1 || end <= start) {
+    throw new LLMResponseParseError('Model response did not contain a JSON object', content)
+  }
+  return unfenced.slice(start, end + 1)
+}
+
+// Parse and validate a translation response; throws LLMResponseParseError instead of guessing
+export const parseTranslationResponse = (content: string): LLMTranslationPayload => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(extractJsonObject(content))
+  } catch (error) {
+    if (error instanceof LLMResponseParseError) throw error
+    throw new LLMResponseParseError('Model response was not valid JSON', content)
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new LLMResponseParseError('Model response was not a JSON object', content)
+  }
+  const payload = parsed as Record<string, unknown>
+
+  if (typeof payload.translation !== 'string' || !payload.translation.trim()) {
+    throw new LLMResponseParseError('Model response is missing "translation"', content)
+  }
+
+  // Accept 0-100 as instructed, or 0-1 from models that ignore the scale
+  const rawConfidence = typeof payload.confidence === 'string' ? parseFloat(payload.confidence) : payload.confidence
+  if (typeof rawConfidence !== 'number' || !Number.isFinite(rawConfidence) || rawConfidence < 0 || rawConfidence > 100) {
+    throw new LLMResponseParseError('Model response has an invalid "confidence"', content)
+  }
+
+  const medicalTerms = payload.medicalTerms ?? []
+  if (!Array.isArray(medicalTerms) || medicalTerms.some(term => typeof term !== 'string')) {
+    throw new LLMResponseParseError('Model response has an invalid "medicalTerms"', content)
+  }
+
+  const notes = payload.notes ?? ''
+  if (typeof notes !== 'string') {
+    throw new LLMResponseParseError('Model response has an invalid "notes"', content)
+  }
+
+  return {
+    translation: payload.translation.trim(),
+    confidence: rawConfidence > 1 ? rawConfidence / 100 : rawConfidence,
+    medicalTerms: medicalTerms.map((term: string) => term.trim()).filter(Boolean),
+    notes: notes.trim()
+  }
+}
@@ -1,9 +1,77 @@
 // Medical information extraction utilities
+import { findDrugs, lookupDrug } from './drugLexicon'
+import { parseVitalSigns, getWorstVitalFlag, toLatinDigits, type VitalSign, type VitalSignReading } from './vitalSigns'
+import { redFlagRules, type FiredRedFlag } from './redFlagRules'
+import { getClinicalLexicon, type ClinicalLexicon } from './clinicalLexicons'
+import { detectLanguageOffline, MIN_DETECTION_CONFIDENCE } from './languageDetection'
+import { decodeOutput } from './security'
+
+// Whether a mentioned symptom is affirmed, denied, hedged or in the past
+type SymptomStatus = 'present' | 'absent' | 'uncertain' | 'historical'
+
+// One piece of text to extract from, e.g. a message's original or its translation
+interface ExtractionInput {
+  text: string
+  language?: string // Detected offline when missing
+  messageId?: string
+  field?: 'text' | 'translatedText'
+}
+
+// Where a finding was read from
+interface FindingSource {
+  messageId?: string
+  field: 'text' | 'translatedText'
+  language: string
+  matched: string // Words as written, e.g. 'تب' or 'Tylenol'
+  start: number // Span of the words in the message field
+  end: number
+}
+
+// Sources of every displayed finding, keyed by the item in lowercase (vital signs by sign)
+interface FindingProvenance {
+  symptoms: Record<string, FindingSource[]>
+  medications: Record<string, FindingSource[]>
+  allergies: Record<string, FindingSource[]>
+  vitalSigns: Record<string, FindingSource[]>
+}
+
+type FindingKind = keyof FindingProvenance
+
+// Findings to trace back to the conversation, e.g. from an AI summary
+interface TraceableFindings {
+  symptoms?: string[]
+  medications?: string[]
+  allergies?: string[]
+  vitalSigns?: Partial<Record<string, string>>
+}
+
+interface SymptomFinding {
+  symptom: string // Canonical English name
+  status: SymptomStatus
+  cue?: string // Phrase that set the status, e.g. 'denies'
+  sources?: (FindingSource & { status: SymptomStatus })[] // Every mention, in either language
+}
+
+interface MedicationEntry {
+  name: string // As mentioned, e.g. 'Tylenol'
+  genericName?: string // From the drug lexicon
+  strength?: number
+  unit?: string // 'mg', 'mcg', 'ml', 'units', ...
+  route?: string // 'oral', 'IV', 'inhaled', ...
+  frequency?: string // Normalized, e.g. 'BID' or 'every 6 hours'
+  duration?: string // e.g. '7 days'
+  prn: boolean // Taken as needed
+  verified: boolean // Name found in the offline drug lexicon
+  sources?: FindingSource[]
+}
+
 interface MedicalExtraction {
   // Legacy fields for backward compatibility
   painLevel: number // 1-10 scale
-  symptoms: string[]
-  medications: string[]
+  symptoms: string[] // Present symptoms only
+  symptomFindings?: SymptomFinding[] // Every mentioned symptom with its status
+  medications: string[] // One-line summaries of medicationDetails
+  medicationDetails?: MedicationEntry[]
   medicalHistory: {
     conditions: string[]
     surgeries: string[]
@@ -15,9 +83,14 @@ interface MedicalExtraction {
     bloodPressure?: string
     temperature?: string
     heartRate?: string
+    oxygenSaturation?: string
+    respiratoryRate?: string
     weight?: string
     height?: string
   }
+  vitalSignReadings?: VitalSignReading[] // Normalized values with range flags
+  provenance?: FindingProvenance // Which messages each finding came from
+  redFlags?: FiredRedFlag[] // Red-flag rules that fired, with their explanation
   diagnosis: string[]
   severity: 'low' | 'medium' | 'high' | 'critical'
   recommendations: string[]
@@ -50,6 +123,8 @@ interface MedicalExtraction {
       bloodPressure?: string
       temperature?: string
       heartRate?: string
+      oxygenSaturation?: string
+      respiratoryRate?: string
       weight?: string
       height?: string
     }
@@ -147,11 +222,31 @@ const MEDICAL_PATTERNS = {
     ]
   },
   medications: {
-    patterns: [
-      /(?:taking|on|using|prescribed|medication|medicine|drug|pill|tablet|capsule|injection|cream|ointment)\s+([a-zA-Z\s-]+)/gi,
-      /(?:mg|mcg|g|ml|units?)\s+([a-zA-Z\s-]+)/gi,
-      /([a-zA-Z\s-]+)\s+(?:mg|mcg|g|ml|units?)/gi
-    ]
+    strength: /(\d+(?:[.,]\d+)?)\s*(%|(?:mg|mcg|µg|g|ml|iu|units?|puffs?|tablets?|tabs?|capsules?|caps?|drops?)\b)/i,
+    // A drug missing from the lexicon is still recorded, unverified, when introduced with a strength
+    unlisted: /\b(?:taking|take|takes|on|using|prescribed|started|start)\s+([a-z][a-z-]{3,})\s+\d+(?:[.,]\d+)?\s*(?:mg|mcg|µg|g|ml|iu|units?)\b/gi,
+    routes: [
+      { route: 'oral', pattern: /\b(?:by mouth|orally|oral|po|p\.o\.)(?![\w])/i },
+      { route: 'sublingual', pattern: /\b(?:sublingual(?:ly)?|under the tongue)\b/i },
+      { route: 'IV', pattern: /\b(?:iv|intravenous(?:ly)?|drip)\b/i },
+      { route: 'IM', pattern: /\b(?:im|intramuscular(?:ly)?)\b/i },
+      { route: 'subcutaneous', pattern: /\b(?:subcutaneous(?:ly)?|sc|subq|sub-q|injection|injected)\b/i },
+      { route: 'inhaled', pattern: /\b(?:inhaled|inhaler|inhalation|puffs?|nebuli[sz]ed|nebuli[sz]er)\b/i },
+      { route: 'topical', pattern: /\b(?:topical(?:ly)?|cream|ointment|gel|apply)\b/i },
+      { route: 'ophthalmic', pattern: /\b(?:eye drops?|ophthalmic)\b/i },
+      { route: 'rectal', pattern: /\b(?:rectal(?:ly)?|suppository)\b/i }
+    ],
+    frequencies: [
+      { frequency: 'BID', pattern: /\b(?:bid|b\.i\.d|twice (?:a |per )?day|twice daily|two times (?:a |per )?day)\b/i },
+      { frequency: 'TID', pattern: /\b(?:tid|t\.i\.d|three times (?:a |per )?day|three times daily)\b/i },
+      { frequency: 'QID', pattern: /\b(?:qid|q\.i\.d|four times (?:a |per )?day|four times daily)\b/i },
+      { frequency: 'at bedtime', pattern: /\b(?:qhs|at bedtime|before bed|at night)\b/i },
+      { frequency: 'weekly', pattern: /\b(?:weekly|once (?:a|per) week|every week)\b/i },
+      { frequency: 'daily', pattern: /\b(?:daily|once (?:a |per )?day|every day|each day|qd|od|every morning|in the morning)\b/i }
+    ],
+    interval: /\b(?:every (\d+) hours?|q(\d+)h)\b/i,
+    duration: /\b(?:for|x|times)\s*(\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten|fourteen)\s+(days?|weeks?|months?)\b/i,
+    prn: /\b(?:prn|p\.r\.n|as needed|when needed|if needed|as required|when necessary)\b/i
   },
   medicalHistory: {
     conditions: {
@@ -165,13 +260,135 @@ const MEDICAL_PATTERNS = {
   }
 }
 
+// When cues of different groups are equally near, the earlier group wins, so 'no longer' stays historical
+const CUE_ORDER: Exclude<SymptomStatus, 'present'>[] = ['historical', 'uncertain', 'absent']
+const CUE_WINDOW_WORDS = 6
+const CUE_WINDOW_CHARS = 8 // For languages written without spaces
+
+// A lexicon's terms and cues as regular expressions
+interface CompiledLexicon {
+  lexicon: ClinicalLexicon
+  symptoms: { symptom: string; pattern: RegExp }[]
+  cues: { status: Exclude<SymptomStatus, 'present'>; cue: string; pattern: RegExp }[]
+  postCues: { status: Exclude<SymptomStatus, 'present'>; cue: string; pattern: RegExp }[]
+  terminators: RegExp
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, fourteen: 14
+}
+
+// Words the unlisted-drug pattern must not mistake for a drug name
+const NON_DRUG_WORDS = ['about', 'around', 'maybe', 'only', 'just', 'like', 'over', 'under', 'nearly', 'almost']
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Lowercase and fold digits and Arabic-script letter variants ('ي'/'ی', 'ك'/'ک', hamza forms), one character for one
+const normalizeText = (text: string): string =>
+  toLatinDigits(text)
+    .toLowerCase()
+    .replace(/’/g, "'")
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/[ىی]/g, 'ي')
+    .replace(/ک/g, 'ك')
+
+// Language of text with no recorded language; short utterances fall back to their script
+const guessLanguage = (text: string): string => {
+  const detection = detectLanguageOffline(text)
+  if (detection && detection.confidence >= MIN_DETECTION_CONFIDENCE) return detection.language
+  if (/[㐀-鿿]/.test(text)) return 'zh'
+  // Letters Persian doesn't use mark Arabic
+  if (/[ةيكىؤإ]/.test(text)) return 'ar'
+  if (/[؀-ۿ]/.test(text)) return 'fa'
+  return 'en'
+}
+
+// Sentences with their offset, keeping the end mark so questions can be recognized
+const splitSentences = (text: string): { text: string; offset: number }[] =>
+  [...text.matchAll(/[^.!?;\n؟？。！；]+[.!?;؟？。！；]?/g)].map(match => ({ text: match[0], offset: match.index! }))
+
+// A whole-word pattern for a term, except in languages written without spaces
+const termPattern = (term: string, lexicon: ClinicalLexicon, inflected = false): string => {
+  const escaped = escapeRegExp(normalizeText(term))
+  if (lexicon.unsegmented) return escaped
+  const prefix = inflected ? normalizeText(lexicon.affixes?.prefix ?? '') : ''
+  const suffix = inflected ? normalizeText(lexicon.affixes?.suffix ?? '') : ''
+  const start = /^[\p{L}\p{N}]/u.test(term) ? '(?<![\\p{L}\\p{M}\\p{N}])' : ''
+  const end = /[\p{L}\p{N}]$/u.test(term) ? '(?![\\p{L}\\p{M}\\p{N}])' : ''
+  return `${start}${prefix}${escaped}${suffix}${end}`
+}
+
+// The message fields extraction reads; id and languages enable provenance
+interface ConversationMessage {
+  id?: string
+  text: string
+  translatedText?: string
+  language?: string // Language of translatedText
+  sourceLanguage?: string // Language of text
+  isDoctor: boolean
+}
+
+// Utterances where a single engine's mistranslation could harm the patient
+type HighRiskCategory = 'dosage' | 'allergy' | 'consent'
+
+// Multilingual cues, since the utterance may be in any supported language
+const HIGH_RISK_PATTERNS: Record<HighRiskCategory, RegExp[]> = {
+  dosage: [
+    /[\d٠-٩۰-۹]+(?:[.,][\d٠-٩۰-۹]+)?\s*(?:mg|mcg|µg|g|ml|cc|iu|units?|tablets?|pills?|capsules?|drops?|puffs?)\b/i,
+    /\b(?:dose|dosage|twice daily|three times|every \d+ hours|dosis|comprimidos?|gotas|posologie|comprimés?|dosierung|tabletten?)/i,
+    /(?:میلی‌?گرم|قرص|دوز|ملغ|حبة|جرعة|毫克|剂量)/
+  ],
+  allergy: [
+    /\b(?:allerg\w*|anaphyla\w*|alérgi\w*|alergi\w*)\b/i,
+    /(?:حساسیت|آلرژی|حساسية|过敏)/
+  ],
+  consent: [
+    /\b(?:consent\w*|authori[sz]e|sign (?:the|this) form|agree to (?:the )?(?:procedure|surgery|treatment)|consentimiento|consentimento|consentement|einwilligung|einverstanden)\b/i,
+    /(?:رضایت|موافقة|同意)/
+  ]
+}
+
+// 'Allergic to X' in each language; group 1 is the allergen list. Patterns are matched against
+// normalized text, so Persian is written with 'ي' and 'ا' in place of 'ی' and 'آ'
+const ALLERGY_PATTERNS: Record<string, RegExp[]> = {
+  en: [/allerg(?:ic|y|ies)\s+(?:to|from)\s+([^.;!?]+)/gu, /(?<![\p{L}-])([\p{L}-]+)\s+allerg(?:y|ies)\b/gu],
+  es: [/al[eé]rgic[oa]s?\s+(?:a|al)\s+([^.;!?]+)/gu, /alergias?\s+(?:a|al)\s+([^.;!?]+)/gu],
+  pt: [/al[eé]rgic[oa]s?\s+(?:a|à|ao|aos|às)\s+([^.;!?]+)/gu, /alergias?\s+(?:a|à|ao|aos|às)\s+([^.;!?]+)/gu],
+  fr: [/allergiques?\s+(?:à|au|aux)\s+([^.;!?]+)/gu, /allergies?\s+(?:à|au|aux)\s+([^.;!?]+)/gu],
+  de: [/allergisch\s+(?:gegen|auf)\s+([^.;!?]+)/gu, /allergien?\s+gegen\s+([^.;!?]+)/gu],
+  fa: [/(?:به|نسبت به)\s+([^.;!?،]+?)\s+(?:حساسيت|الرژي)/gu, /(?:حساسيت|الرژي)\s+(?:به|نسبت به)\s+([^.;!?،]+)/gu],
+  ar: [/حساسي[ةه]\s+(?:من|ضد|تجاه)\s+([^.;!?،]+)/gu, /(?:حساس|تحسس)\s+(?:من|ضد)\s+([^.;!?،]+)/gu],
+  zh: [/对([^，。！？；]{1,10}?)过敏/gu]
+}
+
+// Separators between allergens in a list, and words that aren't allergens
+const ALLERGEN_SEPARATOR = /\s*(?:,|،|、|，|\s(?:and|or|y|o|e|ou|et|und|oder|و|يا)\s)\s*/u
+const LEADING_ARTICLE = /^(?:the|a|an|some|al|la|el|los|las|à|au|aux|le|les|des|ao|aos|às|o|os|as|der|die|das|den)\s+/u
+const NON_ALLERGENS = ['any', 'anything', 'nothing', 'something', 'known', 'drug', 'drugs', 'no', 'an', 'my', 'his', 'her', 'some', 'severe', 'mild', 'seasonal', 'bad']
+const MAX_ALLERGEN_WORDS = 3
+
 class MedicalExtractionService {
-  // Extract pain level from text (1-10 scale)
+  // Lexicons compiled on first use, by language code
+  private static compiledLexicons = new Map<string, CompiledLexicon>()
+
+  // Extract pain level from text (1-10 scale), only from mentions that are not denied, hedged or past
   static extractPainLevel(text: string): number {
-    const lowerText = text.toLowerCase()
+    const compiled = this.compileLexicon('en')
+    const sentences = splitSentences(normalizeText(text)).map(sentence => sentence.text)
+
+    // First match, across the sentences, that the speaker affirms: 'no chest pain' never counts
+    const affirmed = (pattern: RegExp): RegExpExecArray | null => {
+      for (const sentence of sentences) {
+        for (const match of sentence.matchAll(pattern)) {
+          const finding = this.classifyMention('pain', sentence, match.index!, match.index! + match[0].length, compiled)
+          if (finding.status === 'present') return match as RegExpExecArray
+        }
+      }
+      return null
+    }
     
     // Direct pain level mentions
-    const painLevelMatch = lowerText.match(/(?:pain level|pain scale|hurts|pain)\s*(?:is\s*)?(\d+)(?:\s*out\s*of\s*10|\/10)?/i)
+    const painLevelMatch = affirmed(/(?:pain level|pain scale|hurts|pain)\s*(?:is\s*)?(\d+)(?:\s*out\s*of\s*10|\/10)?/g)
     if (painLevelMatch) {
       const level = parseInt(painLevelMatch[1])
       return Math.min(Math.max(level, 1), 10)
@@ -186,56 +403,431 @@ class MedicalExtractionService {
     }
     
     for (const [word, level] of Object.entries(intensityWords)) {
-      if (lowerText.includes(word)) {
+      if (affirmed(new RegExp(escapeRegExp(word), 'g'))) {
         return level
       }
     }
     
     // Default pain level if mentioned but no specific level
-    if (MEDICAL_PATTERNS.pain.keywords.some(keyword => lowerText.includes(keyword))) {
+    if (affirmed(new RegExp(MEDICAL_PATTERNS.pain.keywords.map(escapeRegExp).join('|'), 'g'))) {
       return 5 // Moderate pain as default
     }
     
     return 0 // No pain mentioned
   }
 
-  // Extract symptoms from text
+  // Extract symptoms that are present (not denied, hedged or historical)
   static extractSymptoms(text: string): string[] {
-    const lowerText = text.toLowerCase()
-    const symptoms: string[] = []
-    
-    // Check all symptom categories
-    Object.values(MEDICAL_PATTERNS.symptoms).forEach(category => {
-      category.forEach(symptom => {
-        if (lowerText.includes(symptom)) {
-          symptoms.push(symptom)
+    return this.extractSymptomFindings([text])
+      .filter(finding => finding.status === 'present')
+      .map(finding => finding.symptom)
+  }
+
+  // Classify every symptom mention in any supported language. Inputs are read in order and a later
+  // definite statement overrides an earlier one, while a question never overrides an answer; within
+  // one message the patient's own words outrank a translation that disagrees with them
+  static extractSymptomFindings(inputs: Array<string | ExtractionInput>): SymptomFinding[] {
+    const findings = new Map<string, SymptomFinding>()
+
+    for (const input of inputs.map(item => this.toExtractionInput(item))) {
+      const compiled = this.compileLexicon(input.language!)
+
+      for (const { text: sentence, offset } of splitSentences(normalizeText(input.text))) {
+        for (const { symptom, pattern } of compiled.symptoms) {
+          const match = pattern.exec(sentence)
+          if (!match) continue
+
+          const finding = this.classifyMention(symptom, sentence, match.index, match.index + match[0].length, compiled)
+          const source = { ...this.sourceAt(input, offset + match.index, match[0].length), status: finding.status }
+          const previous = findings.get(symptom)
+          const sources = [...(previous?.sources ?? []), source]
+
+          const overridden = previous && (
+            (finding.status === 'uncertain' && previous.status !== 'uncertain')
+            || (input.messageId !== undefined && input.field === 'translatedText'
+              && previous.sources?.some(item => item.messageId === input.messageId && item.field === 'text' && item.status === previous.status))
+          )
+          findings.set(symptom, overridden ? { ...previous, sources } : { ...finding, sources })
         }
+      }
+    }
+
+    return Array.from(findings.values())
+  }
+
+  private static sourceAt(input: ExtractionInput, start: number, length: number): FindingSource {
+    return {
+      messageId: input.messageId,
+      field: input.field!,
+      language: input.language!,
+      matched: input.text.slice(start, start + length),
+      start,
+      end: start + length
+    }
+  }
+
+  // A plain string is treated as an original utterance in whatever language it looks like
+  private static toExtractionInput(input: string | ExtractionInput): ExtractionInput {
+    const item = typeof input === 'string' ? { text: input } : input
+    return {
+      ...item,
+      language: item.language || guessLanguage(item.text),
+      field: item.field || 'text'
+    }
+  }
+
+  // Both sides of each message, decoded from their stored HTML-safe form
+  static getExtractionInputs(messages: ConversationMessage[]): ExtractionInput[] {
+    return messages.flatMap(msg => {
+      const inputs: ExtractionInput[] = [{
+        text: decodeOutput(msg.text),
+        language: msg.sourceLanguage || guessLanguage(decodeOutput(msg.text)),
+        messageId: msg.id,
+        field: 'text'
+      }]
+      if (msg.translatedText && msg.translatedText !== msg.text) {
+        inputs.push({
+          text: decodeOutput(msg.translatedText),
+          language: msg.language?.split('-')[0] || guessLanguage(decodeOutput(msg.translatedText)),
+          messageId: msg.id,
+          field: 'translatedText'
+        })
+      }
+      return inputs
+    })
+  }
+
+  private static compileLexicon(language: string): CompiledLexicon {
+    const lexicon = getClinicalLexicon(language)
+    const cached = this.compiledLexicons.get(language)
+    if (cached) return cached
+
+    // English terms are the canonical names themselves
+    const terms = lexicon === getClinicalLexicon('en')
+      ? Object.fromEntries([...new Set(Object.values(MEDICAL_PATTERNS.symptoms).flat())].map(symptom => [symptom, [symptom]]))
+      : lexicon.symptoms
+    const cues = (groups: ClinicalLexicon['postCues']) => CUE_ORDER.flatMap(status =>
+      (groups[status] ?? []).map(cue => ({ status, cue, pattern: new RegExp(termPattern(cue, lexicon), 'gu') }))
+    )
+
+    const compiled: CompiledLexicon = {
+      lexicon,
+      // Longest terms first, so the match reported is the most specific wording
+      symptoms: Object.entries(terms).map(([symptom, words]) => ({
+        symptom,
+        pattern: new RegExp(
+          [...words].sort((a, b) => b.length - a.length).map(word => termPattern(word, lexicon, true)).join('|'),
+          'u'
+        )
+      })),
+      cues: cues(lexicon.cues),
+      postCues: cues(lexicon.postCues),
+      terminators: new RegExp(lexicon.terminators.map(word => termPattern(word, lexicon)).join('|'), 'gu')
+    }
+    this.compiledLexicons.set(language, compiled)
+    return compiled
+  }
+
+  // Status of one mention from the cues nearest to it in its clause
+  private static classifyMention(symptom: string, sentence: string, start: number, end: number, compiled: CompiledLexicon): SymptomFinding {
+    const { lexicon } = compiled
+
+    // Only look back to the last scope terminator, and at most a few words
+    let before = sentence.slice(0, start)
+    const terminators = [...before.matchAll(compiled.terminators)]
+    if (terminators.length > 0) {
+      const last = terminators[terminators.length - 1]
+      before = before.slice(last.index! + last[0].length)
+    }
+    before = lexicon.unsegmented
+      ? before.slice(-CUE_WINDOW_CHARS)
+      : before.split(/\s+/).filter(Boolean).slice(-CUE_WINDOW_WORDS).join(' ')
+
+    // The cue ending nearest the symptom wins, so 'not sure' is read as uncertainty rather than negation
+    let nearest: { status: SymptomStatus; cue: string; position: number } | null = null
+    for (const { status, cue, pattern } of compiled.cues) {
+      const matches = [...before.matchAll(pattern)]
+      const last = matches[matches.length - 1]
+      const position = last ? last.index! + last[0].length : -1
+      if (position >= 0 && (!nearest || position > nearest.position)) {
+        nearest = { status, cue, position }
+      }
+    }
+    if (nearest) {
+      return { symptom, status: nearest.status, cue: nearest.cue }
+    }
+
+    // After the symptom, the cue starting nearest to it wins, e.g. Persian 'تب دیگه ندارم' is historical
+    let after = sentence.slice(end)
+    const terminator = [...after.matchAll(compiled.terminators)][0]
+    if (terminator) after = after.slice(0, terminator.index)
+    after = lexicon.unsegmented
+      ? after.slice(0, CUE_WINDOW_CHARS)
+      : after.split(/\s+/).filter(Boolean).slice(0, CUE_WINDOW_WORDS).join(' ')
+
+    let following: { status: SymptomStatus; cue: string; position: number } | null = null
+    for (const { status, cue, pattern } of compiled.postCues) {
+      const match = [...after.matchAll(pattern)][0]
+      if (match && (!following || match.index! < following.position)) {
+        following = { status, cue, position: match.index! }
+      }
+    }
+    if (following) {
+      return { symptom, status: following.status, cue: following.cue }
+    }
+
+    // A question ('Any fever?') mentions a symptom without confirming it
+    if (/[?؟？]$/.test(sentence.trim())) {
+      return { symptom, status: 'uncertain', cue: '?' }
+    }
+
+    return { symptom, status: 'present' }
+  }
+
+  // Allergens the speaker reports, with where each was said. When a message's original and translation
+  // name the same number of allergens they are paired in order, and the English name is kept
+  static extractAllergies(inputs: Array<string | ExtractionInput>): { allergen: string; sources: FindingSource[] }[] {
+    const allergies = new Map<string, { allergen: string; sources: FindingSource[] }>()
+    const found = inputs.map(item => this.toExtractionInput(item)).map(input => ({ input, allergens: this.findAllergens(input) }))
+
+    found.forEach(({ input, allergens }, index) => {
+      const original = input.field === 'translatedText' && input.messageId !== undefined
+        ? found.slice(0, index).find(other => other.input.messageId === input.messageId && other.input.field === 'text')
+        : undefined
+      const paired = original && original.allergens.length === allergens.length
+
+      allergens.forEach(({ allergen, source }, position) => {
+        const counterpart = paired ? original!.allergens[position].allergen : undefined
+        const name = counterpart && input.language !== 'en' ? counterpart : allergen
+        const merged = [counterpart, allergen].flatMap(key => (key && allergies.get(key.toLowerCase())?.sources) || [])
+        if (counterpart) allergies.delete(counterpart.toLowerCase())
+        allergies.delete(allergen.toLowerCase())
+        allergies.set(name.toLowerCase(), { allergen: name, sources: [...new Set(merged), source] })
       })
     })
-    
-    return [...new Set(symptoms)] // Remove duplicates
+
+    return Array.from(allergies.values())
+  }
+
+  private static findAllergens(input: ExtractionInput): { allergen: string; source: FindingSource }[] {
+    const compiled = this.compileLexicon(input.language!)
+    const patterns = ALLERGY_PATTERNS[input.language!.split('-')[0]] || ALLERGY_PATTERNS.en
+    const results: { allergen: string; source: FindingSource }[] = []
+
+    for (const { text: sentence, offset } of splitSentences(normalizeText(input.text))) {
+      for (const pattern of patterns) {
+        for (const match of sentence.matchAll(pattern)) {
+          // 'I'm not allergic to anything', 'به چیزی حساسیت ندارم'
+          if (this.classifyMention('allergy', sentence, match.index!, match.index! + match[0].length, compiled).status === 'absent') continue
+
+          // The list ends at the first scope terminator, e.g. 'but'
+          let list = match[1]
+          const terminator = [...list.matchAll(compiled.terminators)][0]
+          if (terminator) list = list.slice(0, terminator.index)
+          let position = match.index! + match[0].indexOf(match[1])
+
+          for (const part of list.split(ALLERGEN_SEPARATOR)) {
+            const start = sentence.indexOf(part, position)
+            position = start + part.length
+            const phrase = part.trim().replace(LEADING_ARTICLE, '')
+            if (!phrase || NON_ALLERGENS.includes(phrase) || phrase.split(/\s+/).length > MAX_ALLERGEN_WORDS) continue
+
+            const source = this.sourceAt(input, offset + start + part.indexOf(phrase), phrase.length)
+            results.push({ allergen: lookupDrug(phrase) || source.matched.trim(), source })
+          }
+        }
+      }
+    }
+
+    return results.sort((a, b) => a.source.start - b.source.start)
+  }
+
+  // Vital signs from each input in order; the same reading again, e.g. in the translation, adds a source
+  static extractVitalSigns(inputs: Array<string | ExtractionInput>): { readings: VitalSignReading[]; sources: Partial<Record<VitalSign, FindingSource[]>> } {
+    const readings = new Map<VitalSign, VitalSignReading>()
+    const sources: Partial<Record<VitalSign, FindingSource[]>> = {}
+
+    for (const input of inputs.map(item => this.toExtractionInput(item))) {
+      for (const reading of parseVitalSigns([input.text])) {
+        const previous = readings.get(reading.sign)
+        const source = this.sourceAt(input, reading.span!.start, reading.span!.end - reading.span!.start)
+        const repeated = previous && previous.value === reading.value && previous.secondary === reading.secondary
+        if (!repeated) readings.set(reading.sign, reading)
+        sources[reading.sign] = repeated ? [...sources[reading.sign]!, source] : [source]
+      }
+    }
+
+    return { readings: Array.from(readings.values()), sources }
+  }
+
+  // Sources of a displayed finding; empty when it can't be traced to the conversation
+  static getSources(extraction: MedicalExtraction, kind: FindingKind, item: string): FindingSource[] {
+    return extraction.provenance?.[kind]?.[item.toLowerCase()] ?? []
   }
 
-  // Extract medications from text
+  // Find where each finding was said, e.g. for a summary written by the AI. Findings already
+  // in known keep their sources; the rest are searched for in each message's original and translation
+  static traceProvenance(findings: TraceableFindings, messages: ConversationMessage[], known?: FindingProvenance): FindingProvenance {
+    const inputs = this.getExtractionInputs(messages)
+    const trace = (kind: FindingKind, items: [string, string][]) => Object.fromEntries(items.map(([key, item]) => {
+      const sources = known?.[kind]?.[key.toLowerCase()]
+      return [key.toLowerCase(), sources?.length ? sources : this.locateSources(kind, item, inputs)]
+    }))
+
+    return {
+      symptoms: trace('symptoms', (findings.symptoms ?? []).map(item => [item, item])),
+      medications: trace('medications', (findings.medications ?? []).map(item => [item, item])),
+      allergies: trace('allergies', (findings.allergies ?? []).map(item => [item, item])),
+      vitalSigns: trace('vitalSigns', Object.entries(findings.vitalSigns ?? {}).filter((entry): entry is [string, string] => Boolean(entry[1])))
+    }
+  }
+
+  // Provenance for every finding of an extraction, reusing what pattern extraction traced itself
+  static traceExtraction(extraction: MedicalExtraction, messages: ConversationMessage[]): FindingProvenance {
+    const known = extraction.provenance ?? this.extractFromConversation(messages).provenance
+    return this.traceProvenance({
+      symptoms: [...new Set([...extraction.symptoms, ...(extraction.currentSituation?.presentingSymptoms ?? [])])],
+      medications: [...new Set([
+        ...extraction.medications,
+        ...(extraction.patientBackground?.currentMedications ?? []),
+        ...(extraction.ongoingCare?.medications ?? [])
+      ])],
+      allergies: [...new Set([...extraction.medicalHistory.allergies, ...(extraction.patientBackground?.allergies ?? [])])],
+      vitalSigns: extraction.vitalSigns
+    }, messages, known)
+  }
+
+  private static locateSources(kind: FindingKind, item: string, inputs: ExtractionInput[]): FindingSource[] {
+    const generic = kind === 'medications' || kind === 'allergies' ? findDrugs(item)[0]?.genericName : undefined
+    const number = kind === 'vitalSigns' ? /\d+(?:[.,]\d+)?/.exec(toLatinDigits(item))?.[0] : undefined
+    if (kind === 'vitalSigns' && !number) return []
+
+    const sources: FindingSource[] = []
+    for (const input of inputs) {
+      // A drug is found under any of its names, so 'acetaminophen' traces to 'Tylenol'
+      const drug = generic ? findDrugs(input.text).find(match => match.genericName === generic) : undefined
+      if (drug) {
+        sources.push(this.sourceAt(input, drug.start, drug.end - drug.start))
+        continue
+      }
+
+      const { lexicon } = this.compileLexicon(input.language!)
+      const terms = number ? [number]
+        : kind === 'symptoms' ? [item, ...(lexicon.symptoms[item.toLowerCase()] ?? [])]
+        : kind === 'medications' ? [item, item.split(/\s+/)[0]]
+        : [item]
+      const pattern = new RegExp(terms.map(term => termPattern(term, lexicon, kind === 'symptoms')).join('|'), 'u')
+      const match = pattern.exec(normalizeText(input.text))
+      if (match) sources.push(this.sourceAt(input, match.index, match[0].length))
+    }
+    return sources
+  }
+
+  // Symptoms grouped by status; extractions without findings (e.g. from the AI) count as present
+  static groupSymptoms(extraction: MedicalExtraction): Record<SymptomStatus, string[]> {
+    const groups: Record<SymptomStatus, string[]> = { present: [], absent: [], uncertain: [], historical: [] }
+    if (!extraction.symptomFindings) {
+      groups.present = [...extraction.symptoms]
+      return groups
+    }
+    extraction.symptomFindings.forEach(finding => groups[finding.status].push(finding.symptom))
+    return groups
+  }
+
+  // Extract medications from text as one-line summaries
   static extractMedications(text: string): string[] {
-    const medications: string[] = []
-    
-    // Use regex patterns to find medications
-    MEDICAL_PATTERNS.medications.patterns.forEach(pattern => {
-      const matches = text.match(pattern)
-      if (matches) {
-        matches.forEach(match => {
-          const medication = match.replace(/(?:taking|on|using|prescribed|medication|medicine|drug|pill|tablet|capsule|injection|cream|ointment)\s+/gi, '')
-            .replace(/\s+(?:mg|mcg|g|ml|units?)/gi, '')
-            .trim()
-          if (medication && medication.length > 2) {
-            medications.push(medication)
+    return this.extractMedicationDetails([text]).map(entry => this.formatMedication(entry))
+  }
+
+  // Parse drug, strength, route, frequency, duration and PRN for each medication mentioned.
+  // Each drug's details are read from the text between it and the next drug in the sentence
+  static extractMedicationDetails(inputs: Array<string | ExtractionInput>): MedicationEntry[] {
+    const entries = new Map<string, MedicationEntry>()
+    const patterns = MEDICAL_PATTERNS.medications
+
+    for (const input of inputs.map(item => this.toExtractionInput(item))) {
+      const separators = [...input.text.matchAll(/[.;!?\n]+(?:\s|$)/g)]
+      const sentences = [...separators, null].map((separator, index) => {
+        const offset = index === 0 ? 0 : separators[index - 1].index! + separators[index - 1][0].length
+        return { sentence: input.text.slice(offset, separator ? separator.index : input.text.length), offset }
+      })
+
+      for (const { sentence, offset } of sentences) {
+        const mentions: { name: string; genericName?: string; start: number; end: number }[] = findDrugs(sentence)
+
+        for (const match of sentence.matchAll(patterns.unlisted)) {
+          const name = match[1]
+          const start = match.index! + match[0].indexOf(name, match[0].search(/\s/))
+          if (lookupDrug(name) || NON_DRUG_WORDS.includes(name.toLowerCase())) continue
+          if (mentions.some(mention => start >= mention.start && start < mention.end)) continue
+          mentions.push({ name, start, end: start + name.length })
+        }
+        mentions.sort((a, b) => a.start - b.start)
+
+        mentions.forEach((mention, index) => {
+          const next = mentions[index + 1]
+          const details = sentence.slice(mention.end, next ? next.start : sentence.length)
+          // A strength can also come first, as in '500 mg of metformin'
+          const before = sentence.slice(index > 0 ? mentions[index - 1].end : 0, mention.start)
+          const strengthBefore = new RegExp(`${patterns.strength.source}\\s+(?:of\\s+)?$`, 'i').exec(before)
+          const strength = patterns.strength.exec(details) || strengthBefore
+
+          const interval = patterns.interval.exec(details)
+          const duration = patterns.duration.exec(details)
+          const entry: MedicationEntry = {
+            name: mention.name,
+            genericName: mention.genericName,
+            strength: strength ? parseFloat(strength[1].replace(',', '.')) : undefined,
+            unit: strength ? strength[2].toLowerCase() : undefined,
+            route: patterns.routes.find(({ pattern }) => pattern.test(details))?.route,
+            frequency: patterns.frequencies.find(({ pattern }) => pattern.test(details))?.frequency
+              || (interval ? `every ${interval[1] || interval[2]} hours` : undefined),
+            duration: duration ? this.formatDuration(duration[1], duration[2]) : undefined,
+            prn: patterns.prn.test(details),
+            verified: Boolean(mention.genericName),
+            sources: [this.sourceAt(input, offset + mention.start, mention.end - mention.start)]
           }
+
+          // Later mentions fill in details the first one left out
+          const key = (mention.genericName || mention.name).toLowerCase()
+          const previous = entries.get(key)
+          entries.set(key, previous ? {
+            ...previous,
+            strength: previous.strength ?? entry.strength,
+            unit: previous.unit ?? entry.unit,
+            route: previous.route ?? entry.route,
+            frequency: previous.frequency ?? entry.frequency,
+            duration: previous.duration ?? entry.duration,
+            prn: previous.prn || entry.prn,
+            sources: [...(previous.sources ?? []), ...entry.sources!]
+          } : entry)
         })
       }
-    })
-    
-    return [...new Set(medications)]
+    }
+
+    return Array.from(entries.values())
+  }
+
+  // '2 weeks', '1 day'
+  private static formatDuration(count: string, unit: string): string {
+    const value = NUMBER_WORDS[count.toLowerCase()] ?? parseInt(count)
+    const singular = unit.toLowerCase().replace(/s$/, '')
+    return `${value} ${value === 1 ? singular : `${singular}s`}`
+  }
+
+  // e.g. 'Tylenol (acetaminophen) 500 mg oral every 6 hours PRN'
+  static formatMedication(entry: MedicationEntry): string {
+    const name = entry.genericName && entry.genericName !== entry.name.toLowerCase()
+      ? `${entry.name} (${entry.genericName})`
+      : entry.name
+    return [
+      name,
+      entry.strength !== undefined ? `${entry.strength} ${entry.unit}` : '',
+      entry.route || '',
+      entry.frequency || '',
+      entry.duration ? `for ${entry.duration}` : '',
+      entry.prn ? 'PRN' : ''
+    ].filter(Boolean).join(' ')
   }
 
   // Extract medical history from text
@@ -259,6 +851,13 @@ class MedicalExtractionService {
     return history
   }
 
+  // Detect content that warrants a multi-provider consensus translation
+  static detectHighRiskContent(text: string): HighRiskCategory[] {
+    return (Object.keys(HIGH_RISK_PATTERNS) as HighRiskCategory[]).filter(category =>
+      HIGH_RISK_PATTERNS[category].some(pattern => pattern.test(text))
+    )
+  }
+
   // Determine severity level
   static determineSeverity(painLevel: number, symptoms: string[]): 'low' | 'medium' | 'high' {
     if (painLevel >= 8 || symptoms.length >= 5) return 'high'
@@ -266,6 +865,72 @@ class MedicalExtractionService {
     return 'low'
   }
 
+  // Record parsed vital signs and raise severity and urgency for out-of-range values
+  static applyVitalSigns(extraction: MedicalExtraction, readings: VitalSignReading[]): void {
+    extraction.vitalSignReadings = readings
+    extraction.vitalSigns = Object.fromEntries(readings.map(reading => [reading.sign, reading.display]))
+    extraction.ongoingCare = {
+      ...getMedicalExtractionDefaults().ongoingCare,
+      ...extraction.ongoingCare,
+      vitalSigns: extraction.vitalSigns
+    }
+
+    const abnormal = readings.filter(reading => reading.flag !== 'normal')
+    if (getWorstVitalFlag(readings) === 'critical') {
+      this.raiseAcuity(extraction, 'critical', 'emergency')
+    } else if (abnormal.length >= 2) {
+      this.raiseAcuity(extraction, 'high', 'urgent')
+    } else if (abnormal.length === 1) {
+      this.raiseAcuity(extraction, 'medium', 'routine')
+    }
+  }
+
+  // Evaluate the red-flag rules against what the patient said; each fired rule can only raise severity and urgency
+  static applyRedFlags(extraction: MedicalExtraction, patientInputs: Array<string | ExtractionInput>): void {
+    // Phrases are matched per sentence so a denial in one never reaches the next
+    const sentences = patientInputs.map(item => this.toExtractionInput(item)).flatMap(input => {
+      const compiled = this.compileLexicon(input.language!)
+      return splitSentences(normalizeText(input.text)).map(sentence => ({ text: sentence.text, compiled }))
+    })
+    extraction.redFlags = redFlagRules.evaluate({
+      texts: sentences.map(sentence => sentence.text),
+      // 'Maybe I want to kill myself' is still a warning sign; only a denial suppresses a phrase
+      isDenied: (index, start, end) => {
+        const { text, compiled } = sentences[index]
+        return this.classifyMention(text.slice(start, end), text, start, end, compiled).status === 'absent'
+      },
+      presentSymptoms: this.groupSymptoms(extraction).present.map(symptom => symptom.toLowerCase()),
+      vitalSigns: extraction.vitalSignReadings || []
+    })
+    extraction.redFlags.forEach(flag => this.raiseAcuity(extraction, flag.severity, flag.urgency))
+  }
+
+  // Score severity and urgency again from the findings, e.g. once a clinician has reviewed them.
+  // An AI assessment isn't derived from the rules, so it is only ever raised and its recommendations stay
+  static reassess(extraction: MedicalExtraction, patientInputs: Array<string | ExtractionInput>, aiAssessed = false): void {
+    const severity = this.determineSeverity(extraction.painLevel, extraction.symptoms)
+    if (aiAssessed) {
+      this.raiseAcuity(extraction, severity, 'routine')
+    } else {
+      extraction.severity = severity
+      extraction.urgency = 'routine'
+    }
+    if (extraction.vitalSignReadings?.length) {
+      this.applyVitalSigns(extraction, extraction.vitalSignReadings)
+    }
+    this.applyRedFlags(extraction, patientInputs)
+    if (!aiAssessed) {
+      extraction.recommendations = this.generateRecommendations(extraction)
+    }
+  }
+
+  private static raiseAcuity(extraction: MedicalExtraction, severity: MedicalExtraction['severity'], urgency: MedicalExtraction['urgency']): void {
+    const severityOrder: MedicalExtraction['severity'][] = ['low', 'medium', 'high', 'critical']
+    const urgencyOrder: MedicalExtraction['urgency'][] = ['routine', 'urgent', 'emergency']
+    if (severityOrder.indexOf(severity) > severityOrder.indexOf(extraction.severity)) extraction.severity = severity
+    if (urgencyOrder.indexOf(urgency) > urgencyOrder.indexOf(extraction.urgency)) extraction.urgency = urgency
+  }
+
   // Generate recommendations based on extracted information
   static generateRecommendations(extraction: MedicalExtraction): string[] {
     const recommendations: string[] = []
@@ -289,6 +954,10 @@ class MedicalExtractionService {
     if (extraction.symptoms.includes('fever') && extraction.symptoms.includes('cough')) {
       recommendations.push('Consider COVID-19 testing if symptoms persist')
     }
+
+    if (extraction.vitalSignReadings?.some(reading => reading.flag === 'critical')) {
+      recommendations.push('Critical vital sign values require immediate reassessment')
+    }
     
     return recommendations
   }
@@ -296,9 +965,12 @@ class MedicalExtractionService {
   // Main extraction function
   static extractMedicalInfo(text: string): MedicalExtraction {
     const painLevel = this.extractPainLevel(text)
-    const symptoms = this.extractSymptoms(text)
-    const medications = this.extractMedications(text)
-    const medicalHistory = this.extractMedicalHistory(text)
+    const symptomFindings = this.extractSymptomFindings([text])
+    const symptoms = symptomFindings.filter(finding => finding.status === 'present').map(finding => finding.symptom)
+    const allergies = this.extractAllergies([text])
+    const medicationDetails = this.withoutAllergens(this.extractMedicationDetails([text]), allergies)
+    const medications = medicationDetails.map(entry => this.formatMedication(entry))
+    const medicalHistory = { ...this.extractMedicalHistory(text), allergies: allergies.map(item => item.allergen) }
     const severity = this.determineSeverity(painLevel, symptoms)
     const recommendations = this.generateRecommendations({ 
       painLevel, 
@@ -319,10 +991,12 @@ class MedicalExtractionService {
       1
     )
     
-    return {
+    const extraction: MedicalExtraction = {
       painLevel,
       symptoms,
+      symptomFindings,
       medications,
+      medicationDetails,
       medicalHistory,
       vitalSigns: {},
       diagnosis: [],
@@ -331,12 +1005,49 @@ class MedicalExtractionService {
       urgency: 'routine',
       confidence: Math.round(confidence * 100) / 100
     }
+
+    const vitalSigns = this.extractVitalSigns([text])
+    if (vitalSigns.readings.length > 0) {
+      this.applyVitalSigns(extraction, vitalSigns.readings)
+      extraction.recommendations = this.generateRecommendations(extraction)
+    }
+    this.applyRedFlags(extraction, [text])
+    extraction.provenance = this.buildProvenance(extraction, allergies, vitalSigns.sources)
+
+    return extraction
+  }
+
+  private static buildProvenance(
+    extraction: MedicalExtraction,
+    allergies: { allergen: string; sources: FindingSource[] }[],
+    vitalSigns: Partial<Record<VitalSign, FindingSource[]>>
+  ): FindingProvenance {
+    return {
+      symptoms: Object.fromEntries((extraction.symptomFindings ?? []).map(finding => [finding.symptom, finding.sources ?? []])),
+      medications: Object.fromEntries((extraction.medicationDetails ?? []).map(entry => [(entry.genericName || entry.name).toLowerCase(), entry.sources ?? []])),
+      allergies: Object.fromEntries(allergies.map(item => [item.allergen.toLowerCase(), item.sources])),
+      vitalSigns: Object.fromEntries(Object.entries(vitalSigns).map(([sign, sources]) => [sign.toLowerCase(), sources]))
+    }
+  }
+
+  // 'Allergic to penicillin' names a drug the patient must not take, not one they take
+  private static withoutAllergens(
+    medications: MedicationEntry[],
+    allergies: { allergen: string; sources: FindingSource[] }[]
+  ): MedicationEntry[] {
+    const allergenSources = allergies.flatMap(item => item.sources)
+    return medications.filter(entry => !entry.sources?.every(source => allergenSources.some(allergen =>
+      allergen.messageId === source.messageId && allergen.field === source.field
+      && allergen.start < source.end && source.start < allergen.end
+    )))
   }
 
   // Extract medical information from conversation
-  static extractFromConversation(messages: Array<{ text: string; isDoctor: boolean }>): MedicalExtraction {
+  static extractFromConversation(messages: ConversationMessage[]): MedicalExtraction {
     const doctorMessages = messages.filter(msg => msg.isDoctor)
-    // Removed unused patientMessages variable
+    // Original and translated text of every message, so findings don't depend on which side is English
+    const inputs = this.getExtractionInputs(messages)
+    const texts = inputs.map(input => input.text)
     
     // Initialize extraction with defaults
     const extraction: MedicalExtraction = {
@@ -363,26 +1074,39 @@ class MedicalExtractionService {
     }
     
     // Extract pain level
-    if (doctorMessages.some(msg => msg.text.toLowerCase().includes('pain'))) {
-      extraction.painLevel = this.extractPainLevel(messages.map(msg => msg.text).join(' '))
+    if (doctorMessages.some(msg => `${msg.text} ${msg.translatedText ?? ''}`.toLowerCase().includes('pain'))) {
+      extraction.painLevel = this.extractPainLevel(texts.join(' '))
       extraction.confidence = Math.min(extraction.confidence + 0.1, 1)
     }
     
-    // Extract symptoms
-    const allText = messages.map(msg => msg.text).join(' ')
-    extraction.symptoms = this.extractSymptoms(allText)
+    // Extract symptoms per message so negation scope never crosses speakers
+    const allText = texts.join(' ')
+    extraction.symptomFindings = this.extractSymptomFindings(inputs)
+    extraction.symptoms = extraction.symptomFindings
+      .filter(finding => finding.status === 'present')
+      .map(finding => finding.symptom)
     extraction.confidence = Math.min(extraction.confidence + 0.1, 1)
     
     // Extract medications
-    extraction.medications = this.extractMedications(allText)
+    const allergies = this.extractAllergies(inputs)
+    extraction.medicationDetails = this.withoutAllergens(this.extractMedicationDetails(inputs), allergies)
+    extraction.medications = extraction.medicationDetails.map(entry => this.formatMedication(entry))
     extraction.confidence = Math.min(extraction.confidence + 0.1, 1)
     
     // Extract medical history
-    extraction.medicalHistory = this.extractMedicalHistory(allText)
+    extraction.medicalHistory = { ...this.extractMedicalHistory(allText), allergies: allergies.map(item => item.allergen) }
     extraction.confidence = Math.min(extraction.confidence + 0.1, 1)
     
     // Determine severity
     extraction.severity = this.determineSeverity(extraction.painLevel, extraction.symptoms)
+
+    // Vital signs can only raise severity and urgency
+    const vitalSigns = this.extractVitalSigns(inputs)
+    if (vitalSigns.readings.length > 0) {
+      this.applyVitalSigns(extraction, vitalSigns.readings)
+    }
+    this.applyRedFlags(extraction, this.getExtractionInputs(messages.filter(msg => !msg.isDoctor)))
+    extraction.provenance = this.buildProvenance(extraction, allergies, vitalSigns.sources)
     
     // Generate recommendations
     extraction.recommendations = this.generateRecommendations(extraction)
@@ -399,5 +1123,17 @@ class MedicalExtractionService {
 }
 
 export { MedicalExtractionService }
-export type { MedicalExtraction }
+export type {
+  MedicalExtraction,
+  HighRiskCategory,
+  SymptomStatus,
+  SymptomFinding,
+  MedicationEntry,
+  ExtractionInput,
+  FindingSource,
+  FindingProvenance,
+  FindingKind,
+  TraceableFindings,
+  ConversationMessage
+}
 export default MedicalExtractionService
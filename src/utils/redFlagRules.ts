@@ -0,0 +1,267 @@
+// Red-Flag Clinical Rules for Medical Translator
+// Declarative symptom/phrase/vital-sign combinations that demand urgent attention, editable as JSON
+import type { VitalSign, VitalSignReading } from './vitalSigns'
+
+// One condition in a rule: a present symptom, any of a set of phrases, or a vital sign past a threshold
+export type RedFlagMatcher =
+  | { symptom: string }
+  | { phrases: string[] }
+  | { vital: VitalSign; below?: number; above?: number }
+
+export interface RedFlagRule {
+  id: string
+  name: string
+  explanation: string // Shown in the summary when the rule fires
+  severity: 'high' | 'critical'
+  urgency: 'urgent' | 'emergency'
+  all?: RedFlagMatcher[] // Every matcher must match
+  any?: RedFlagMatcher[] // At least one must match
+}
+
+export interface FiredRedFlag {
+  ruleId: string
+  name: string
+  explanation: string
+  severity: RedFlagRule['severity']
+  urgency: RedFlagRule['urgency']
+  evidence: string[] // What matched, e.g. 'chest pain', '"worst headache of my life"'
+}
+
+// What the rules are evaluated against
+export interface RedFlagContext {
+  texts: string[] // What the patient said
+  // Whether the phrase at start..end of texts[index] is denied; hedged and past mentions still count
+  isDenied?: (index: number, start: number, end: number) => boolean
+  presentSymptoms: string[]
+  vitalSigns: VitalSignReading[]
+}
+
+export const DEFAULT_RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    id: 'chest-pain-dyspnea',
+    name: 'Chest pain with shortness of breath',
+    explanation: 'Chest pain together with breathlessness can indicate acute coronary syndrome or pulmonary embolism.',
+    severity: 'critical',
+    urgency: 'emergency',
+    all: [{ symptom: 'chest pain' }],
+    any: [
+      { symptom: 'shortness of breath' },
+      { symptom: 'difficulty breathing' },
+      { phrases: ["can't breathe", 'cannot breathe', 'short of breath', 'breathless', 'out of breath'] }
+    ]
+  },
+  {
+    id: 'thunderclap-headache',
+    name: 'Worst headache of life',
+    explanation: 'A sudden, worst-ever headache is a warning sign of subarachnoid hemorrhage.',
+    severity: 'critical',
+    urgency: 'emergency',
+    any: [
+      {
+        phrases: [
+          'worst headache of my life', 'worst headache ever', "worst headache i've ever", 'worst headache i have ever',
+          'thunderclap headache', 'sudden severe headache', 'headache came on suddenly'
+        ]
+      }
+    ]
+  },
+  {
+    id: 'suicidal-ideation',
+    name: 'Suicidal ideation',
+    explanation: 'The patient mentioned thoughts of suicide or self-harm; assess safety before they leave.',
+    severity: 'critical',
+    urgency: 'emergency',
+    any: [
+      {
+        phrases: [
+          'kill myself', 'killing myself', 'suicide', 'suicidal', 'end my life', 'take my own life', 'want to die',
+          'better off dead', 'self-harm', 'no reason to live',
+          // Intent wording only, since 'I hurt myself playing football' is an injury
+          'want to hurt myself', 'want to harm myself', 'going to hurt myself', 'going to harm myself',
+          'thinking of hurting myself', 'thinking of harming myself', 'thinking about hurting myself',
+          'thinking about harming myself', 'thoughts of hurting myself', 'thoughts of harming myself'
+        ]
+      }
+    ]
+  },
+  {
+    id: 'anaphylaxis',
+    name: 'Signs of anaphylaxis',
+    explanation: 'Swelling of the throat, tongue or lips, or trouble breathing after an exposure, can be anaphylaxis.',
+    severity: 'critical',
+    urgency: 'emergency',
+    any: [
+      {
+        phrases: [
+          'anaphylaxis', 'anaphylactic', 'throat is closing', 'throat closing', 'throat is swelling', 'throat swelling',
+          'swollen throat', 'tongue is swelling', 'swollen tongue', 'tongue swelling', 'lips are swelling',
+          'swollen lips', 'used my epipen', 'used an epipen'
+        ]
+      }
+    ]
+  },
+  {
+    id: 'stroke-fast',
+    name: 'Stroke signs (FAST)',
+    explanation: 'Face drooping, arm weakness or speech difficulty can be a stroke; note the time symptoms started.',
+    severity: 'critical',
+    urgency: 'emergency',
+    any: [
+      {
+        phrases: [
+          'face drooping', 'face is drooping', 'facial droop', 'drooping face', 'one side of my face',
+          'arm weakness', 'weakness in one arm', "can't lift my arm", 'cannot lift my arm', 'weakness on one side',
+          'numbness on one side', 'slurred speech', 'speech is slurred', 'slurring', 'trouble speaking',
+          "can't speak properly", 'cannot find my words'
+        ]
+      }
+    ]
+  }
+]
+
+// Throws with a message suitable for the rules editor
+const validateRules = (value: unknown): RedFlagRule[] => {
+  if (!Array.isArray(value)) {
+    throw new Error('Rules must be a JSON array')
+  }
+
+  const ids = new Set<string>()
+  value.forEach((rule, index) => {
+    const label = rule?.id ? `Rule "${rule.id}"` : `Rule ${index + 1}`
+    if (typeof rule !== 'object' || rule === null) throw new Error(`${label} must be an object`)
+    if (typeof rule.id !== 'string' || !rule.id) throw new Error(`${label} needs an id`)
+    if (ids.has(rule.id)) throw new Error(`${label} is defined twice`)
+    ids.add(rule.id)
+    if (typeof rule.name !== 'string' || typeof rule.explanation !== 'string') {
+      throw new Error(`${label} needs a name and an explanation`)
+    }
+    if (!['high', 'critical'].includes(rule.severity)) throw new Error(`${label}: severity must be "high" or "critical"`)
+    if (!['urgent', 'emergency'].includes(rule.urgency)) throw new Error(`${label}: urgency must be "urgent" or "emergency"`)
+
+    const matchers = [...(rule.all ?? []), ...(rule.any ?? [])]
+    if (matchers.length === 0) throw new Error(`${label} needs "all" or "any" conditions`)
+    matchers.forEach((matcher: Record<string, unknown>) => {
+      const valid = typeof matcher?.symptom === 'string'
+        || (Array.isArray(matcher?.phrases) && matcher.phrases.every(phrase => typeof phrase === 'string'))
+        || (typeof matcher?.vital === 'string' && (typeof matcher.below === 'number' || typeof matcher.above === 'number'))
+      if (!valid) {
+        throw new Error(`${label} has an invalid condition: ${JSON.stringify(matcher)}`)
+      }
+    })
+  })
+
+  return value as RedFlagRule[]
+}
+
+class RedFlagRuleEngine {
+  private static instance: RedFlagRuleEngine
+  private rules: RedFlagRule[] = DEFAULT_RED_FLAG_RULES
+  private readonly STORAGE_KEY = 'medical_translator_red_flag_rules'
+
+  private constructor() {
+    this.loadRules()
+  }
+
+  static getInstance(): RedFlagRuleEngine {
+    if (!RedFlagRuleEngine.instance) {
+      RedFlagRuleEngine.instance = new RedFlagRuleEngine()
+    }
+    return RedFlagRuleEngine.instance
+  }
+
+  getRules(): RedFlagRule[] {
+    return this.rules
+  }
+
+  getRulesJson(): string {
+    return JSON.stringify(this.rules, null, 2)
+  }
+
+  // Replace the rules from edited JSON; throws if it doesn't parse or validate
+  setRulesFromJson(json: string): void {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(json)
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`)
+    }
+    this.rules = validateRules(parsed)
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.rules))
+  }
+
+  resetRules(): void {
+    this.rules = DEFAULT_RED_FLAG_RULES
+    localStorage.removeItem(this.STORAGE_KEY)
+  }
+
+  // Rules whose conditions hold, with what matched
+  evaluate(context: RedFlagContext): FiredRedFlag[] {
+    const texts = context.texts.map(text => text.toLowerCase())
+    const fired: FiredRedFlag[] = []
+
+    for (const rule of this.rules) {
+      const evidence: string[] = []
+      const allMatched = (rule.all ?? []).every(matcher => this.match(matcher, texts, context, evidence))
+      if (!allMatched) continue
+
+      const anyMatched = !rule.any?.length || rule.any.some(matcher => this.match(matcher, texts, context, evidence))
+      if (!anyMatched) continue
+
+      fired.push({
+        ruleId: rule.id,
+        name: rule.name,
+        explanation: rule.explanation,
+        severity: rule.severity,
+        urgency: rule.urgency,
+        evidence
+      })
+    }
+
+    return fired
+  }
+
+  private match(matcher: RedFlagMatcher, texts: string[], context: RedFlagContext, evidence: string[]): boolean {
+    if ('symptom' in matcher) {
+      const found = context.presentSymptoms.includes(matcher.symptom.toLowerCase())
+      if (found) evidence.push(matcher.symptom)
+      return found
+    }
+
+    if ('phrases' in matcher) {
+      const phrase = matcher.phrases.find(candidate => this.mentions(texts, candidate.toLowerCase(), context))
+      if (phrase) evidence.push(`"${phrase}"`)
+      return Boolean(phrase)
+    }
+
+    const reading = context.vitalSigns.find(item => item.sign === matcher.vital)
+    const found = Boolean(reading)
+      && (matcher.below === undefined || reading!.value < matcher.below)
+      && (matcher.above === undefined || reading!.value > matcher.above)
+    if (found) evidence.push(reading!.display)
+    return found
+  }
+
+  // 'No facial droop' or 'not the worst headache of my life' doesn't count as a mention
+  private mentions(texts: string[], phrase: string, context: RedFlagContext): boolean {
+    return texts.some((text, index) => {
+      for (let start = text.indexOf(phrase); start >= 0; start = text.indexOf(phrase, start + 1)) {
+        if (!context.isDenied?.(index, start, start + phrase.length)) return true
+      }
+      return false
+    })
+  }
+
+  private loadRules(): void {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY)
+      if (stored) {
+        this.rules = validateRules(JSON.parse(stored))
+      }
+    } catch (error) {
+      console.error('Error loading red-flag rules, using defaults:', error)
+      this.rules = DEFAULT_RED_FLAG_RULES
+    }
+  }
+}
+
+export const redFlagRules = RedFlagRuleEngine.getInstance()
@@ -1,5 +1,6 @@
 // Secure storage utilities for API keys
 // Uses Web Crypto API to encrypt sensitive data before storing in localStorage
+// Larger encrypted record collections (e.g. translation memory) live in IndexedDB
 
 export interface EncryptedData {
   data: string
@@ -13,6 +14,13 @@ export interface StorageResult {
   error?: string
 }
 
+// Encrypted record as stored in the IndexedDB 'records' store
+interface StoredRecord {
+  id: string // "<collection>:<record id>"
+  collection: string
+  payload: string
+}
+
 class SecureStorage {
   private static instance: SecureStorage
   private encryptionKey: CryptoKey | null = null
@@ -20,6 +28,9 @@ class SecureStorage {
   private readonly STORAGE_PREFIX = 'encrypted_'
   private readonly VERSION = '1.0'
   private readonly KEY_EXPIRY_DAYS = 30
+  private readonly DB_NAME = 'MedicalTranslatorDB'
+  private readonly DB_VERSION = 2
+  private readonly RECORD_STORE = 'records'
 
   private constructor() {}
 
@@ -118,7 +129,7 @@ class SecureStorage {
   // Open IndexedDB
   private async openIndexedDB(): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open('MedicalTranslatorDB', 1)
+      const request = indexedDB.open(this.DB_NAME, this.DB_VERSION)
       
       request.onerror = () => reject(request.error)
       request.onsuccess = () => resolve(request.result)
@@ -128,10 +139,99 @@ class SecureStorage {
         if (!db.objectStoreNames.contains('keys')) {
           db.createObjectStore('keys', { keyPath: 'name' })
         }
+        if (!db.objectStoreNames.contains(this.RECORD_STORE)) {
+          const store = db.createObjectStore(this.RECORD_STORE, { keyPath: 'id' })
+          store.createIndex('collection', 'collection', { unique: false })
+        }
       }
     })
   }
 
+  // Run a single request against the records store
+  private async withRecordStore<T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openIndexedDB()
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(this.RECORD_STORE, mode)
+        const request = action(transaction.objectStore(this.RECORD_STORE))
+        transaction.oncomplete = () => resolve(request.result)
+        transaction.onerror = () => reject(transaction.error)
+        transaction.onabort = () => reject(transaction.error)
+      })
+    } finally {
+      db.close()
+    }
+  }
+
+  // Store an encrypted record in a named collection
+  async putRecord(collection: string, id: string, data: unknown): Promise<StorageResult> {
+    try {
+      const payload = await this.encrypt(JSON.stringify(data))
+      const record: StoredRecord = { id: `${collection}:${id}`, collection, payload }
+      await this.withRecordStore('readwrite', store => store.put(record))
+      return { success: true }
+    } catch (error) {
+      console.error('Failed to store record:', error)
+      return { success: false, error: 'Failed to store record' }
+    }
+  }
+
+  // Load and decrypt every record in a collection (records that no longer decrypt are skipped)
+  async getAllRecords<T>(collection: string): Promise<T[]> {
+    try {
+      const records = await this.withRecordStore<StoredRecord[]>('readonly', store =>
+        store.index('collection').getAll(collection)
+      )
+
+      const results: T[] = []
+      for (const record of records) {
+        try {
+          results.push(JSON.parse(await this.decrypt(record.payload)))
+        } catch {
+          console.warn(`Skipping unreadable record ${record.id}`)
+        }
+      }
+      return results
+    } catch (error) {
+      console.error('Failed to load records:', error)
+      return []
+    }
+  }
+
+  // Remove a single record
+  async removeRecord(collection: string, id: string): Promise<StorageResult> {
+    try {
+      await this.withRecordStore('readwrite', store => store.delete(`${collection}:${id}`))
+      return { success: true }
+    } catch (error) {
+      console.error('Failed to remove record:', error)
+      return { success: false, error: 'Failed to remove record' }
+    }
+  }
+
+  // Remove all records, or only those in one collection
+  async clearRecords(collection?: string): Promise<StorageResult> {
+    try {
+      if (collection) {
+        const keys = await this.withRecordStore<IDBValidKey[]>('readonly', store =>
+          store.index('collection').getAllKeys(collection)
+        )
+        for (const key of keys) {
+          await this.withRecordStore('readwrite', store => store.delete(key))
+        }
+      } else {
+        await this.withRecordStore('readwrite', store => store.clear())
+      }
+      return { success: true }
+    } catch (error) {
+      console.error('Failed to clear records:', error)
+      return { success: false, error: 'Failed to clear records' }
+    }
+  }
+
   // Encrypt data
   async encrypt(data: string): Promise<string> {
     if (!this.encryptionKey) {
@@ -293,6 +393,9 @@ class SecureStorage {
         await this.removeApiKey(key)
       }
       
+      // Encrypted records can't be read without the key
+      await this.clearRecords()
+      
       // Also clear the encryption key
       localStorage.removeItem(this.KEY_NAME)
       
@@ -82,3 +82,15 @@ export function encodeOutput(text: string): string {
     .replace(/"/g, '&quot;')
     .replace(/'/g, '&#x27;')
 }
+
+// Reverse of encodeOutput, for code that reads stored message text rather than rendering it
+export function decodeOutput(text: string): string {
+  if (!text || typeof text !== 'string') return ''
+
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;/g, "'")
+    .replace(/&amp;/g, '&')
+}
@@ -0,0 +1,197 @@
+// Speaker Diarization for Medical Translator
+// Splits the utterances of an uploaded recording between two voices, without sending audio anywhere
+import { UTTERANCE_GAP_S, type TranscriptSegment } from './speechEngines'
+
+export interface VoiceFeatures {
+  pitch: number // Median fundamental frequency in Hz
+  brightness: number // Zero-crossing rate, higher for brighter voices
+}
+
+export interface SpeakerClusters {
+  speakers: number[] // 0 or 1 per utterance
+  confidence: number[] // 0-1; low when the utterance sits between both voices
+}
+
+// Below this, the voice split is only a guess and should be reviewed
+export const MIN_SPEAKER_CONFIDENCE = 0.3
+
+const ANALYSIS_SAMPLE_RATE = 8000 // Enough for voice pitch, and keeps analysis fast on long recordings
+const FRAME_SIZE = 320 // 40 ms
+const MAX_FRAMES_PER_UTTERANCE = 60
+const MIN_PITCH_HZ = 70
+const MAX_PITCH_HZ = 400
+const VOICED_RMS = 0.01
+
+// Autocorrelation pitch estimate for one frame; null when unvoiced
+const estimatePitch = (frame: Float32Array): number | null => {
+  const rms = Math.sqrt(frame.reduce((sum, sample) => sum + sample * sample, 0) / frame.length)
+  if (rms < VOICED_RMS) return null
+
+  const minLag = Math.floor(ANALYSIS_SAMPLE_RATE / MAX_PITCH_HZ)
+  const maxLag = Math.ceil(ANALYSIS_SAMPLE_RATE / MIN_PITCH_HZ)
+  let bestLag = 0
+  let bestCorrelation = 0
+
+  for (let lag = minLag; lag <= maxLag && lag < frame.length; lag++) {
+    let correlation = 0
+    for (let i = 0; i + lag < frame.length; i++) {
+      correlation += frame[i] * frame[i + lag]
+    }
+    if (correlation > bestCorrelation) {
+      bestCorrelation = correlation
+      bestLag = lag
+    }
+  }
+
+  return bestLag > 0 ? ANALYSIS_SAMPLE_RATE / bestLag : null
+}
+
+const zeroCrossingRate = (frame: Float32Array): number => {
+  let crossings = 0
+  for (let i = 1; i < frame.length; i++) {
+    if ((frame[i - 1] >= 0) !== (frame[i] >= 0)) crossings++
+  }
+  return crossings / frame.length
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+// Measure the voice of each utterance; null where there is too little voiced audio
+export const extractVoiceFeatures = async (audio: Blob, utterances: TranscriptSegment[]): Promise<(VoiceFeatures | null)[]> => {
+  // decodeAudioData resamples to the context's rate
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE)
+  const buffer = await context.decodeAudioData(await audio.arrayBuffer())
+  const samples = buffer.getChannelData(0)
+
+  return utterances.map(utterance => {
+    const start = Math.floor(utterance.start * ANALYSIS_SAMPLE_RATE)
+    const end = Math.min(samples.length, Math.floor(utterance.end * ANALYSIS_SAMPLE_RATE))
+    const frameCount = Math.floor((end - start) / FRAME_SIZE)
+    if (frameCount <= 0) return null
+
+    // Sample frames evenly so long utterances cost the same as short ones
+    const step = Math.max(1, Math.floor(frameCount / MAX_FRAMES_PER_UTTERANCE))
+    const pitches: number[] = []
+    const rates: number[] = []
+    for (let index = 0; index < frameCount; index += step) {
+      const frame = samples.subarray(start + index * FRAME_SIZE, start + (index + 1) * FRAME_SIZE)
+      const pitch = estimatePitch(frame)
+      if (pitch !== null) {
+        pitches.push(pitch)
+        rates.push(zeroCrossingRate(frame))
+      }
+    }
+
+    if (pitches.length < 3) return null
+    return { pitch: median(pitches), brightness: median(rates) }
+  })
+}
+
+// Two-means clustering of the voices; utterances without features follow the previous speaker
+export const clusterSpeakers = (features: (VoiceFeatures | null)[]): SpeakerClusters => {
+  const measured = features.filter((feature): feature is VoiceFeatures => feature !== null)
+  if (measured.length < 2) {
+    return { speakers: features.map(() => 0), confidence: features.map(() => 0) }
+  }
+
+  // Normalize so pitch (Hz) does not drown out the zero-crossing rate
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+  const spread = (values: number[], center: number) =>
+    Math.sqrt(mean(values.map(value => (value - center) ** 2))) || 1
+  const pitchMean = mean(measured.map(feature => feature.pitch))
+  const pitchSpread = spread(measured.map(feature => feature.pitch), pitchMean)
+  const brightnessMean = mean(measured.map(feature => feature.brightness))
+  const brightnessSpread = spread(measured.map(feature => feature.brightness), brightnessMean)
+  const normalize = (feature: VoiceFeatures): [number, number] => [
+    (feature.pitch - pitchMean) / pitchSpread,
+    (feature.brightness - brightnessMean) / brightnessSpread
+  ]
+  const points = measured.map(normalize)
+  const distance = (a: [number, number], b: [number, number]) => Math.hypot(a[0] - b[0], a[1] - b[1])
+
+  // Start from the lowest and highest voice
+  const byPitch = [...points].sort((a, b) => a[0] - b[0])
+  let centers: [number, number][] = [byPitch[0], byPitch[byPitch.length - 1]]
+  for (let iteration = 0; iteration < 20; iteration++) {
+    const groups: [number, number][][] = [[], []]
+    points.forEach(point => groups[distance(point, centers[0]) <= distance(point, centers[1]) ? 0 : 1].push(point))
+    const next = groups.map((group, index): [number, number] => group.length > 0
+      ? [mean(group.map(point => point[0])), mean(group.map(point => point[1]))]
+      : centers[index])
+    if (next.every((center, index) => distance(center, centers[index]) < 1e-6)) break
+    centers = next
+  }
+
+  const speakers: number[] = []
+  const confidence: number[] = []
+  features.forEach((feature, index) => {
+    if (!feature) {
+      speakers.push(index > 0 ? speakers[index - 1] : 0)
+      confidence.push(0)
+      return
+    }
+    const point = normalize(feature)
+    const near = distance(point, centers[0])
+    const far = distance(point, centers[1])
+    speakers.push(near <= far ? 0 : 1)
+    confidence.push(near + far > 0 ? Math.abs(near - far) / (near + far) : 0)
+  })
+
+  return { speakers, confidence }
+}
+
+// How speakers are assigned to the utterances of an uploaded recording
+export type RecordingSpeakers = 'alternate' | 'doctor' | 'patient' | 'language' | 'voice'
+
+export interface SpeakerAssignment {
+  isDoctor: boolean
+  method: 'manual' | 'language' | 'voice'
+  uncertain: boolean // Should be reviewed with the "this was the patient" correction
+}
+
+// Assign doctor/patient to each utterance; `languages` holds the confidently detected language per utterance
+export const assignSpeakers = (
+  utterances: TranscriptSegment[],
+  languages: (string | null)[],
+  mode: RecordingSpeakers,
+  roleLanguages: { doctor: string; patient: string },
+  clusters?: SpeakerClusters
+): SpeakerAssignment[] => {
+  if (mode === 'voice' && clusters) {
+    // The first voice is the doctor, unless the languages spoken by each voice say otherwise
+    let doctorCluster = clusters.speakers[0] ?? 0
+    const votes = [0, 0]
+    languages.forEach((language, index) => {
+      if (language === roleLanguages.doctor) votes[clusters.speakers[index]]++
+      if (language === roleLanguages.patient) votes[clusters.speakers[index]]--
+    })
+    if (roleLanguages.doctor !== roleLanguages.patient && votes[doctorCluster] < votes[1 - doctorCluster]) {
+      doctorCluster = 1 - doctorCluster
+    }
+
+    return clusters.speakers.map((speaker, index) => ({
+      isDoctor: speaker === doctorCluster,
+      method: 'voice',
+      uncertain: clusters.confidence[index] < MIN_SPEAKER_CONFIDENCE
+    }))
+  }
+
+  let isDoctor = mode !== 'patient'
+  return utterances.map((utterance, index) => {
+    if (mode === 'language' || mode === 'voice') {
+      const language = languages[index]
+      const known = language !== null && language !== undefined && (language === roleLanguages.doctor || language === roleLanguages.patient)
+      if (known) isDoctor = language === roleLanguages.doctor
+      return { isDoctor, method: 'language', uncertain: !known }
+    }
+
+    const previous = utterances[index - 1]
+    if (mode === 'alternate' && previous && utterance.start - previous.end >= UTTERANCE_GAP_S) {
+      isDoctor = !isDoctor
+    }
+    return { isDoctor, method: 'manual', uncertain: false }
+  })
+}
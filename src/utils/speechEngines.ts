@@ -0,0 +1,509 @@
+// Speech-to-Text Engines for Medical Translator
+// The browser's Web Speech API is one engine; a self-hosted Whisper server keeps audio on the local network
+import type { ProviderConfig } from './translationService'
+
+export type SpeechEngineId = 'webspeech' | 'whisper'
+
+// Error codes follow the Web Speech API's, plus 'transcription-failed' for server errors
+export class SpeechEngineError extends Error {
+  code: string
+
+  constructor(message: string, code: string) {
+    super(message)
+    this.name = 'SpeechEngineError'
+    this.code = code
+  }
+}
+
+export interface SpeechEngineOptions {
+  language: string // Recognition locale, e.g. 'en-US'
+  continuous: boolean // Keep listening until stopped instead of ending after one utterance
+}
+
+export interface SpeechEngineCallbacks {
+  onStart?: () => void
+  onInterim?: (transcript: string) => void
+  onFinal: (transcript: string) => void
+  onError: (error: SpeechEngineError) => void
+  onEnd?: () => void
+}
+
+// Timed piece of a transcribed recording, in seconds from the start
+export interface TranscriptSegment {
+  start: number
+  end: number
+  text: string
+}
+
+export interface SpeechSession {
+  stop(): void
+}
+
+export interface SpeechEngine {
+  id: SpeechEngineId
+  name: string
+  segmentsOnPause: boolean // Each final transcript already ends at a pause, so no extra segmenting is needed
+  isSupported(): boolean
+  start(options: SpeechEngineOptions, callbacks: SpeechEngineCallbacks): SpeechSession
+}
+
+// A pause this long between segments starts a new utterance
+export const UTTERANCE_GAP_S = 1
+
+// Long monologues are still split so each message stays readable
+const MAX_UTTERANCE_CHARS = 400
+
+// Merge Whisper's short segments into utterances separated by pauses
+export const groupUtterances = (segments: TranscriptSegment[]): TranscriptSegment[] => {
+  const utterances: TranscriptSegment[] = []
+
+  for (const segment of segments) {
+    const text = segment.text.trim()
+    if (!text) continue
+
+    const previous = utterances[utterances.length - 1]
+    if (previous && segment.start - previous.end < UTTERANCE_GAP_S && previous.text.length + text.length < MAX_UTTERANCE_CHARS) {
+      previous.text = `${previous.text} ${text}`
+      previous.end = segment.end
+    } else {
+      utterances.push({ start: segment.start, end: segment.end, text })
+    }
+  }
+
+  return utterances
+}
+
+// User-facing message for an engine error
+export const getSpeechErrorMessage = (error: SpeechEngineError, language: string): string => {
+  const errorMessages: Record<string, string> = {
+    'no-speech': 'No speech detected. Please speak clearly.',
+    'audio-capture': 'Microphone access denied. Please allow microphone access.',
+    'not-allowed': 'Microphone access denied. Please allow microphone access.',
+    'network': 'Network error. Please check your connection.',
+    'service-not-allowed': 'Speech recognition not available in this browser.',
+    'bad-grammar': 'Speech recognition error. Please try again.',
+    'language-not-supported': `Speech recognition not supported for ${language}. Try switching to English.`,
+    'transcription-failed': `Transcription server error: ${error.message}`
+  }
+  return errorMessages[error.code] || 'Speech recognition failed. Please try again.'
+}
+
+// Minimal Web Speech API shapes
+interface RecognitionResult {
+  isFinal: boolean
+  0: { transcript: string }
+}
+
+interface RecognitionResultEvent {
+  resultIndex: number
+  results: ArrayLike<RecognitionResult>
+}
+
+interface Recognizer {
+  lang: string
+  continuous: boolean
+  interimResults: boolean
+  onstart: (() => void) | null
+  onresult: ((event: RecognitionResultEvent) => void) | null
+  onerror: ((event: { error: string }) => void) | null
+  onend: (() => void) | null
+  start(): void
+  stop(): void
+}
+
+type RecognizerConstructor = new () => Recognizer
+
+// Chrome and Safari still prefix the constructor
+const getRecognizerConstructor = (): RecognizerConstructor | undefined => {
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: RecognizerConstructor
+    webkitSpeechRecognition?: RecognizerConstructor
+  }
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition
+}
+
+// Browser speech recognition; Chrome sends audio to Google, Firefox has no implementation
+class WebSpeechEngine implements SpeechEngine {
+  id: SpeechEngineId = 'webspeech'
+  name = 'Browser (Web Speech API)'
+  segmentsOnPause = false
+
+  isSupported(): boolean {
+    return getRecognizerConstructor() !== undefined
+  }
+
+  start(options: SpeechEngineOptions, callbacks: SpeechEngineCallbacks): SpeechSession {
+    const SpeechRecognition = getRecognizerConstructor()!
+    const recognition = new SpeechRecognition()
+    let stopped = false
+
+    recognition.lang = options.language
+    recognition.continuous = options.continuous
+    recognition.interimResults = options.continuous
+
+    recognition.onstart = () => callbacks.onStart?.()
+
+    recognition.onresult = (event) => {
+      let interim = ''
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i]
+        if (result.isFinal) {
+          callbacks.onFinal(result[0].transcript)
+        } else {
+          interim += result[0].transcript
+        }
+      }
+      callbacks.onInterim?.(interim)
+    }
+
+    recognition.onerror = (event) => {
+      // Silence is normal while listening continuously
+      if (options.continuous && event.error === 'no-speech') return
+      if (event.error === 'aborted') return
+      callbacks.onError(new SpeechEngineError(`Speech recognition error: ${event.error}`, event.error))
+    }
+
+    recognition.onend = () => {
+      // Browsers end continuous sessions after a while; keep listening until stopped
+      if (options.continuous && !stopped) {
+        try {
+          recognition.start()
+          return
+        } catch (error) {
+          console.error('Failed to restart speech recognition:', error)
+        }
+      }
+      callbacks.onEnd?.()
+    }
+
+    recognition.start()
+
+    return {
+      stop: () => {
+        stopped = true
+        recognition.stop()
+      }
+    }
+  }
+}
+
+// Voice activity detection for recorded audio
+const SPEECH_RMS_THRESHOLD = 0.02 // Microphone level that counts as speech
+const END_OF_UTTERANCE_MS = 1200 // Silence after speech that ends an utterance
+const NO_SPEECH_TIMEOUT_MS = 8000 // Give up on a single utterance if nobody speaks
+const MAX_SEGMENT_MS = 30000 // Whisper processes audio in 30 second windows
+const IDLE_RESTART_MS = 5000 // In continuous mode a silent recorder starts over, so silence never piles up ahead of speech
+const MAX_SPEECH_MS = MAX_SEGMENT_MS - IDLE_RESTART_MS // From the first speech, so leading silence plus speech fits one window
+const VAD_INTERVAL_MS = 100
+const TRANSCRIPTION_TIMEOUT_MS = 60000
+
+// Records with MediaRecorder and posts each utterance to a Whisper-compatible server
+// (whisper.cpp's /inference, or any OpenAI-style /v1/audio/transcriptions endpoint)
+class WhisperServerEngine implements SpeechEngine {
+  id: SpeechEngineId = 'whisper'
+  name = 'Whisper server (self-hosted)'
+  segmentsOnPause = true
+  private endpoint = ''
+  private model = 'whisper-1'
+
+  configure(config: ProviderConfig): void {
+    this.endpoint = config.baseUrl?.trim() || ''
+    this.model = config.model?.trim() || 'whisper-1'
+  }
+
+  isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && Boolean(navigator.mediaDevices?.getUserMedia)
+  }
+
+  // Transcribe one recorded utterance; the language hint avoids Whisper guessing on short clips
+  async transcribe(audio: Blob, language: string, signal?: AbortSignal): Promise<string> {
+    const data = await this.request(audio, 'speech', language, 'json', signal ?? AbortSignal.timeout(TRANSCRIPTION_TIMEOUT_MS))
+    if (typeof data.text !== 'string') {
+      throw new SpeechEngineError('Response did not contain a transcript', 'transcription-failed')
+    }
+    return data.text.trim()
+  }
+
+  // Transcribe a whole recording with timestamps; servers without segments return the text as one
+  async transcribeSegments(audio: Blob, fileName: string, language: string, signal?: AbortSignal): Promise<TranscriptSegment[]> {
+    const data = await this.request(audio, fileName, language, 'verbose_json', signal)
+
+    if (Array.isArray(data.segments)) {
+      return data.segments
+        .filter((segment: { text?: unknown }) => typeof segment.text === 'string')
+        .map((segment: { start?: number; end?: number; text: string }) => ({
+          start: Number(segment.start) || 0,
+          end: Number(segment.end) || 0,
+          text: segment.text.trim()
+        }))
+    }
+    if (typeof data.text !== 'string') {
+      throw new SpeechEngineError('Response did not contain a transcript', 'transcription-failed')
+    }
+    return [{ start: 0, end: Number(data.duration) || 0, text: data.text.trim() }]
+  }
+
+  private async request(audio: Blob, fileName: string, language: string, responseFormat: string, signal?: AbortSignal) {
+    if (!this.endpoint) {
+      throw new SpeechEngineError('Whisper server URL is not configured', 'service-not-allowed')
+    }
+
+    // Keep the extension so the server can pick a decoder
+    const extension = audio.type.includes('ogg') ? 'ogg' : audio.type.includes('mp4') ? 'mp4' : 'webm'
+    const formData = new FormData()
+    formData.append('file', audio, fileName.includes('.') ? fileName : `${fileName}.${extension}`)
+    formData.append('model', this.model)
+    if (language) {
+      formData.append('language', language.split('-')[0]) // Omitted to let Whisper detect it
+    }
+    formData.append('response_format', responseFormat)
+    formData.append('temperature', '0')
+
+    let response: Response
+    try {
+      response = await fetch(this.endpoint, {
+        method: 'POST',
+        body: formData,
+        signal
+      })
+    } catch (error) {
+      throw new SpeechEngineError(error instanceof Error ? error.message : 'Request failed', 'network')
+    }
+
+    if (!response.ok) {
+      throw new SpeechEngineError(`HTTP ${response.status}`, 'transcription-failed')
+    }
+    return response.json()
+  }
+
+  start(options: SpeechEngineOptions, callbacks: SpeechEngineCallbacks): SpeechSession {
+    let stopped = false
+    let ended = false
+    let stream: MediaStream | null = null
+    let audioContext: AudioContext | null = null
+    let recorder: MediaRecorder | null = null
+    let monitor: ReturnType<typeof setInterval> | null = null
+    let transcriptions = Promise.resolve()
+
+    const finish = () => {
+      if (ended) return
+      ended = true
+      if (monitor) clearInterval(monitor)
+      stream?.getTracks().forEach(track => track.stop())
+      audioContext?.close().catch(() => {})
+      // Report the end only after the last utterance has been transcribed
+      transcriptions.then(() => callbacks.onEnd?.())
+    }
+
+    const fail = (error: SpeechEngineError) => {
+      stopped = true
+      callbacks.onError(error)
+      if (recorder?.state === 'recording') {
+        recorder.stop()
+      } else {
+        finish()
+      }
+    }
+
+    const queueTranscription = (audio: Blob) => {
+      transcriptions = transcriptions
+        .then(async () => {
+          const transcript = await this.transcribe(audio, options.language)
+          if (transcript) callbacks.onFinal(transcript)
+        })
+        .catch(error => {
+          callbacks.onError(error instanceof SpeechEngineError
+            ? error
+            : new SpeechEngineError(error instanceof Error ? error.message : String(error), 'transcription-failed'))
+        })
+    }
+
+    // One MediaRecorder per utterance so every upload is a complete, decodable file
+    const recordUtterance = (source: MediaStream, analyser: AnalyserNode) => {
+      const chunks: Blob[] = []
+      const startedAt = Date.now()
+      let heardSpeech = false
+      let speechStartedAt = startedAt
+      let lastSpeechAt = startedAt
+      const samples = new Float32Array(analyser.fftSize)
+
+      recorder = new MediaRecorder(source)
+      const current = recorder
+      current.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data)
+      }
+      current.onstop = () => {
+        if (heardSpeech && chunks.length > 0) {
+          queueTranscription(new Blob(chunks, { type: current.mimeType }))
+        }
+        if (options.continuous && !stopped) {
+          recordUtterance(source, analyser)
+        } else {
+          finish()
+        }
+      }
+      current.start()
+
+      if (monitor) clearInterval(monitor)
+      monitor = setInterval(() => {
+        if (current.state !== 'recording') return
+
+        analyser.getFloatTimeDomainData(samples)
+        const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length)
+        const now = Date.now()
+        if (rms > SPEECH_RMS_THRESHOLD) {
+          if (!heardSpeech) speechStartedAt = now
+          heardSpeech = true
+          lastSpeechAt = now
+        }
+
+        if (heardSpeech && (now - lastSpeechAt > END_OF_UTTERANCE_MS || now - speechStartedAt > MAX_SPEECH_MS)) {
+          current.stop()
+        } else if (!heardSpeech && options.continuous && now - startedAt > IDLE_RESTART_MS) {
+          current.stop() // Nothing to upload; onstop starts a fresh recorder
+        } else if (!heardSpeech && !options.continuous && now - startedAt > NO_SPEECH_TIMEOUT_MS) {
+          fail(new SpeechEngineError('No speech detected', 'no-speech'))
+        }
+      }, VAD_INTERVAL_MS)
+    }
+
+    const begin = async () => {
+      if (!this.endpoint) {
+        fail(new SpeechEngineError('Whisper server URL is not configured', 'service-not-allowed'))
+        return
+      }
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+      } catch (error) {
+        const denied = error instanceof DOMException && error.name === 'NotAllowedError'
+        fail(new SpeechEngineError('Microphone unavailable', denied ? 'not-allowed' : 'audio-capture'))
+        return
+      }
+      if (stopped) {
+        finish()
+        return
+      }
+
+      audioContext = new AudioContext()
+      const analyser = audioContext.createAnalyser()
+      analyser.fftSize = 2048
+      audioContext.createMediaStreamSource(stream).connect(analyser)
+
+      callbacks.onStart?.()
+      recordUtterance(stream, analyser)
+    }
+
+    begin()
+
+    return {
+      stop: () => {
+        stopped = true
+        if (recorder?.state === 'recording') {
+          recorder.stop() // Transcribes what was said so far, then ends
+        } else {
+          finish()
+        }
+      }
+    }
+  }
+}
+
+// Main Speech Engine Service
+class SpeechEngineService {
+  private static instance: SpeechEngineService
+  private engines: Map<SpeechEngineId, SpeechEngine> = new Map()
+  private selectedEngine: SpeechEngineId = 'webspeech'
+  private engineConfigs: Partial<Record<SpeechEngineId, ProviderConfig>> = {}
+  private readonly ENGINE_KEY = 'medical_translator_speech_engine'
+  private readonly CONFIG_KEY = 'medical_translator_speech_engine_config'
+
+  private constructor() {
+    this.engines.set('webspeech', new WebSpeechEngine())
+    this.engines.set('whisper', new WhisperServerEngine())
+
+    this.loadSettings()
+  }
+
+  static getInstance(): SpeechEngineService {
+    if (!SpeechEngineService.instance) {
+      SpeechEngineService.instance = new SpeechEngineService()
+    }
+    return SpeechEngineService.instance
+  }
+
+  // The engine used for recording and dictation
+  getEngine(): SpeechEngine {
+    return this.engines.get(this.selectedEngine)!
+  }
+
+  getSelectedEngineId(): SpeechEngineId {
+    return this.selectedEngine
+  }
+
+  setSelectedEngine(engineId: SpeechEngineId): void {
+    if (!this.engines.has(engineId)) return
+    this.selectedEngine = engineId
+    localStorage.setItem(this.ENGINE_KEY, engineId)
+  }
+
+  // Engines with whether this browser can run them
+  getAvailableEngines(): { id: SpeechEngineId; name: string; supported: boolean }[] {
+    return Array.from(this.engines.values()).map(engine => ({
+      id: engine.id,
+      name: engine.name,
+      supported: engine.isSupported()
+    }))
+  }
+
+  // Set endpoint configuration for an engine and persist it
+  setEngineConfig(engineId: SpeechEngineId, config: ProviderConfig): void {
+    this.engineConfigs[engineId] = config
+    this.applyEngineConfig(engineId, config)
+
+    try {
+      localStorage.setItem(this.CONFIG_KEY, JSON.stringify(this.engineConfigs))
+    } catch (error) {
+      console.error('Failed to save speech engine config:', error)
+    }
+  }
+
+  getEngineConfig(engineId: SpeechEngineId): ProviderConfig {
+    return this.engineConfigs[engineId] || {}
+  }
+
+  // Transcribe an uploaded recording; only the Whisper server can process files
+  async transcribeRecording(audio: File, language: string, signal?: AbortSignal): Promise<TranscriptSegment[]> {
+    const whisper = this.engines.get('whisper') as WhisperServerEngine
+    return whisper.transcribeSegments(audio, audio.name, language, signal)
+  }
+
+  private loadSettings(): void {
+    try {
+      const engineId = localStorage.getItem(this.ENGINE_KEY) as SpeechEngineId | null
+      if (engineId && this.engines.has(engineId)) {
+        this.selectedEngine = engineId
+      }
+
+      const stored = localStorage.getItem(this.CONFIG_KEY)
+      if (!stored) return
+
+      const configs: Partial<Record<SpeechEngineId, ProviderConfig>> = JSON.parse(stored)
+      for (const [engineId, config] of Object.entries(configs)) {
+        this.engineConfigs[engineId as SpeechEngineId] = config
+        this.applyEngineConfig(engineId as SpeechEngineId, config)
+      }
+    } catch (error) {
+      console.error('Error loading speech engine settings:', error)
+    }
+  }
+
+  private applyEngineConfig(engineId: SpeechEngineId, config: ProviderConfig): void {
+    const engine = this.engines.get(engineId)
+    if (engine instanceof WhisperServerEngine) {
+      engine.configure(config)
+    }
+  }
+}
+
+export default SpeechEngineService
@@ -0,0 +1,166 @@
+// Streaming helpers for OpenAI-compatible chat completions
+// Reads server-sent events so partial answers can be shown while the model is still generating
+
+const JSON_ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f'
+}
+
+// Parse one SSE line; returns the content delta, null for non-content lines, or 'done' at the end marker
+const parseEventLine = (line: string): string | null | 'done' => {
+  const trimmed = line.trim()
+  if (!trimmed.startsWith('data:')) return null // Blank lines, comments and event names
+
+  const payload = trimmed.slice(5).trim()
+  if (payload === '[DONE]') return 'done'
+
+  try {
+    return JSON.parse(payload).choices?.[0]?.delta?.content || null
+  } catch (error) {
+    console.warn('Skipping malformed stream event:', error)
+    return null
+  }
+}
+
+// Read a streamed chat completion (`stream: true`), reporting the accumulated content after each delta
+export const readChatCompletionStream = async (
+  response: Response,
+  onContent: (content: string) => void
+): Promise<string> => {
+  if (!response.body) {
+    throw new Error('Streaming response has no body')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let content = ''
+
+  const consume = (line: string): boolean => {
+    const delta = parseEventLine(line)
+    if (delta === 'done') return true
+    if (delta) {
+      content += delta
+      onContent(content)
+    }
+    return false
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || '' // Keep an incomplete line for the next chunk
+
+    for (const line of lines) {
+      if (consume(line)) {
+        reader.cancel().catch(() => {})
+        return content
+      }
+    }
+  }
+
+  consume(buffer + decoder.decode())
+  return content
+}
+
+// Read a string field out of JSON that is still being generated, e.g. `{"translation": "Tome dos`
+export const extractPartialJsonString = (json: string, field: string): string | null => {
+  const start = new RegExp(`"${field}"\\s*:\\s*"`).exec(json)
+  if (!start) return null
+
+  let value = ''
+  for (let i = start.index + start[0].length; i < json.length; i++) {
+    const char = json[i]
+    if (char === '"') break
+    if (char !== '\\') {
+      value += char
+      continue
+    }
+
+    const next = json[i + 1]
+    if (next === undefined) break // Escape split across chunks
+    if (next === 'u') {
+      const hex = json.slice(i + 2, i + 6)
+      if (hex.length < 4) break
+      value += String.fromCharCode(parseInt(hex, 16))
+      i += 5
+    } else {
+      value += JSON_ESCAPES[next] ?? next
+      i++
+    }
+  }
+  return value
+}
+
+// Close the strings, objects and arrays left open in JSON that is still being generated.
+// Returns the index just past the top-level value when it is already complete
+const closeJson = (json: string): { closed: string; end?: number } => {
+  const stack: string[] = []
+  let inString = false
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i]
+    if (inString) {
+      if (char === '\\') i++
+      else if (char === '"') inString = false
+    } else if (char === '"') {
+      inString = true
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']')
+    } else if (char === '}' || char === ']') {
+      stack.pop()
+      if (stack.length === 0) return { closed: json.slice(0, i + 1), end: i + 1 }
+    }
+  }
+
+  let closed = inString ? `${json.replace(/\\$/, '')}"` : json
+  closed = closed.replace(/[\s,]+$/, '')
+  return { closed: closed + stack.reverse().join('') }
+}
+
+// Where a trailing, incomplete member can be cut off: the last comma or opening bracket outside a string
+const lastBoundary = (json: string): number => {
+  let boundary = -1
+  let inString = false
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i]
+    if (inString) {
+      if (char === '\\') i++
+      else if (char === '"') inString = false
+    } else if (char === '"') {
+      inString = true
+    } else if (char === ',') {
+      boundary = i
+    } else if (char === '{' || char === '[') {
+      boundary = i + 1
+    }
+  }
+  return boundary
+}
+
+// Parse as much of a streamed JSON object as has arrived, e.g. `{"urgency": "urgent", "keyPoints": ["Chest` ->
+// { urgency: 'urgent', keyPoints: ['Chest'] }; null until there is something parseable
+export const parsePartialJson = (json: string): Record<string, unknown> | null => {
+  const start = json.indexOf('{')
+  if (start < 0) return null
+
+  let text = json.slice(start)
+  while (text) {
+    const { closed, end } = closeJson(text)
+    try {
+      return JSON.parse(closed)
+    } catch {
+      if (end !== undefined) return null // Complete but invalid; more content won't fix it
+    }
+    const boundary = lastBoundary(text)
+    if (boundary <= 0 || boundary >= text.length) return null
+    text = text.slice(0, boundary)
+  }
+  return null
+}
@@ -0,0 +1,420 @@
+// Text-to-Speech for Medical Translator
+// Per-language voice settings and a playback queue; the browser's speechSynthesis is one engine,
+// a self-hosted TTS server (e.g. Piper) covers languages the browser has no voice for
+import type { ProviderConfig } from './translationService'
+
+export type TtsEngineId = 'browser' | 'server'
+
+export interface VoiceSettings {
+  voiceURI?: string // Preferred voice; the browser default for the language when unset
+  serverVoice?: string // Voice name sent to the TTS server, e.g. 'fa_IR-amir-medium'
+  rate: number // 0.5-2
+  pitch: number // 0-2
+  volume: number // 0-1
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  rate: 0.9,
+  pitch: 1,
+  volume: 1
+}
+
+// Short phrase for trying out a voice
+export const SAMPLE_PHRASES: Record<string, string> = {
+  en: 'How are you feeling today?',
+  es: '¿Cómo se siente hoy?',
+  pt: 'Como você está se sentindo hoje?',
+  fa: 'امروز حالتان چطور است؟',
+  ar: 'كيف تشعر اليوم؟',
+  zh: '您今天感觉怎么样？',
+  fr: 'Comment vous sentez-vous aujourd\'hui ?',
+  de: 'Wie fühlen Sie sich heute?'
+}
+
+// Playback locale for each base language code, used when no voice is chosen
+const PLAYBACK_LOCALES: Record<string, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  pt: 'pt-BR',
+  fa: 'fa-IR',
+  ar: 'ar-SA',
+  zh: 'zh-CN',
+  fr: 'fr-FR',
+  de: 'de-DE'
+}
+
+export interface PlaybackItem {
+  id: number
+  text: string
+  language: string // Base code of the text being read
+  messageId?: string
+}
+
+export interface PlaybackState {
+  current: PlaybackItem | null
+  queued: number
+}
+
+export interface PlaybackCallbacks {
+  onEnd: () => void
+  onError: (error: Error) => void
+}
+
+export interface PlaybackSession {
+  stop(): void
+}
+
+export interface TtsEngine {
+  id: TtsEngineId
+  name: string
+  isSupported(): boolean
+  speak(item: PlaybackItem, settings: VoiceSettings, callbacks: PlaybackCallbacks): PlaybackSession
+}
+
+// Installed browser voices for a base language code, local voices first
+const getBrowserVoices = (language: string): SpeechSynthesisVoice[] => {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return []
+  return speechSynthesis.getVoices()
+    .filter(voice => voice.lang.toLowerCase().replace('_', '-').split('-')[0] === language)
+    .sort((a, b) => Number(b.localService) - Number(a.localService))
+}
+
+// The browser's speechSynthesis; voice coverage depends on the OS
+class BrowserTtsEngine implements TtsEngine {
+  id: TtsEngineId = 'browser'
+  name = 'Browser voices'
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window
+  }
+
+  speak(item: PlaybackItem, settings: VoiceSettings, callbacks: PlaybackCallbacks): PlaybackSession {
+    const voice = getBrowserVoices(item.language).find(candidate => candidate.voiceURI === settings.voiceURI)
+
+    const utterance = new SpeechSynthesisUtterance(item.text)
+    utterance.lang = voice?.lang || PLAYBACK_LOCALES[item.language] || item.language
+    if (voice) utterance.voice = voice
+    utterance.rate = settings.rate
+    utterance.pitch = settings.pitch
+    utterance.volume = settings.volume
+
+    // Cancelled utterances still fire their events
+    let stopped = false
+    utterance.onend = () => {
+      if (!stopped) callbacks.onEnd()
+    }
+    utterance.onerror = (event) => {
+      if (stopped || event.error === 'interrupted' || event.error === 'canceled') return
+      callbacks.onError(new Error(`Speech synthesis error: ${event.error}`))
+    }
+
+    speechSynthesis.speak(utterance)
+
+    return {
+      stop: () => {
+        stopped = true
+        speechSynthesis.cancel()
+      }
+    }
+  }
+}
+
+const SYNTHESIS_TIMEOUT_MS = 30000
+
+// Posts text to a TTS server and plays the returned audio. The JSON body carries both
+// Piper's http_server fields (text, voice) and OpenAI-style /v1/audio/speech fields (input, voice)
+class ServerTtsEngine implements TtsEngine {
+  id: TtsEngineId = 'server'
+  name = 'TTS server (self-hosted)'
+  private endpoint = ''
+
+  configure(config: ProviderConfig): void {
+    this.endpoint = config.baseUrl?.trim() || ''
+  }
+
+  isSupported(): boolean {
+    return typeof Audio !== 'undefined'
+  }
+
+  speak(item: PlaybackItem, settings: VoiceSettings, callbacks: PlaybackCallbacks): PlaybackSession {
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), SYNTHESIS_TIMEOUT_MS)
+    let audio: HTMLAudioElement | null = null
+    let audioUrl = ''
+    let stopped = false
+
+    const cleanup = () => {
+      clearTimeout(timeout)
+      if (audioUrl) URL.revokeObjectURL(audioUrl)
+      audioUrl = ''
+    }
+
+    const fail = (error: Error) => {
+      cleanup()
+      if (!stopped) callbacks.onError(error)
+    }
+
+    const play = async () => {
+      if (!this.endpoint) {
+        throw new Error('TTS server URL is not configured')
+      }
+
+      const response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          text: item.text,
+          input: item.text,
+          voice: settings.serverVoice || undefined,
+          language: item.language,
+          model: 'tts-1',
+          response_format: 'wav'
+        }),
+        signal: controller.signal
+      })
+      if (!response.ok) {
+        throw new Error(`TTS server error: HTTP ${response.status}`)
+      }
+
+      const blob = await response.blob()
+      if (stopped) return
+      clearTimeout(timeout)
+
+      audioUrl = URL.createObjectURL(blob)
+      audio = new Audio(audioUrl)
+      audio.volume = settings.volume
+      audio.playbackRate = settings.rate // Pitch is not adjustable for recorded audio
+      audio.onended = () => {
+        cleanup()
+        if (!stopped) callbacks.onEnd()
+      }
+      audio.onerror = () => fail(new Error('TTS server returned audio the browser cannot play'))
+      await audio.play()
+    }
+
+    play().catch(error => fail(error instanceof Error ? error : new Error(String(error))))
+
+    return {
+      stop: () => {
+        stopped = true
+        controller.abort()
+        audio?.pause()
+        cleanup()
+      }
+    }
+  }
+}
+
+class TextToSpeechService {
+  private static instance: TextToSpeechService
+  private settings: Record<string, VoiceSettings> = {}
+  private engines: Map<TtsEngineId, TtsEngine> = new Map()
+  private selectedEngine: TtsEngineId = 'browser'
+  private engineConfigs: Partial<Record<TtsEngineId, ProviderConfig>> = {}
+  private queue: PlaybackItem[] = []
+  private current: PlaybackItem | null = null
+  private session: PlaybackSession | null = null
+  private listeners: Set<(state: PlaybackState) => void> = new Set()
+  private nextId = 1
+  private readonly SETTINGS_KEY = 'medical_translator_tts_settings'
+  private readonly ENGINE_KEY = 'medical_translator_tts_engine'
+  private readonly CONFIG_KEY = 'medical_translator_tts_engine_config'
+
+  private constructor() {
+    this.engines.set('browser', new BrowserTtsEngine())
+    this.engines.set('server', new ServerTtsEngine())
+
+    this.loadSettings()
+  }
+
+  static getInstance(): TextToSpeechService {
+    if (!TextToSpeechService.instance) {
+      TextToSpeechService.instance = new TextToSpeechService()
+    }
+    return TextToSpeechService.instance
+  }
+
+  isSupported(): boolean {
+    return this.getEngine().isSupported()
+  }
+
+  // The engine used for playback
+  getEngine(): TtsEngine {
+    return this.engines.get(this.selectedEngine)!
+  }
+
+  getSelectedEngineId(): TtsEngineId {
+    return this.selectedEngine
+  }
+
+  setSelectedEngine(engineId: TtsEngineId): void {
+    if (!this.engines.has(engineId)) return
+    this.stop()
+    this.selectedEngine = engineId
+    localStorage.setItem(this.ENGINE_KEY, engineId)
+  }
+
+  // Engines with whether this browser can run them
+  getAvailableEngines(): { id: TtsEngineId; name: string; supported: boolean }[] {
+    return Array.from(this.engines.values()).map(engine => ({
+      id: engine.id,
+      name: engine.name,
+      supported: engine.isSupported()
+    }))
+  }
+
+  // Set endpoint configuration for an engine and persist it
+  setEngineConfig(engineId: TtsEngineId, config: ProviderConfig): void {
+    this.engineConfigs[engineId] = config
+    this.applyEngineConfig(engineId, config)
+
+    try {
+      localStorage.setItem(this.CONFIG_KEY, JSON.stringify(this.engineConfigs))
+    } catch (error) {
+      console.error('Failed to save TTS engine config:', error)
+    }
+  }
+
+  getEngineConfig(engineId: TtsEngineId): ProviderConfig {
+    return this.engineConfigs[engineId] || {}
+  }
+
+  // Installed browser voices for a base language code, local voices first
+  getVoices(language: string): SpeechSynthesisVoice[] {
+    return getBrowserVoices(language)
+  }
+
+  // Voices load asynchronously in Chrome; returns an unsubscribe function
+  onVoicesChanged(callback: () => void): () => void {
+    if (typeof window === 'undefined' || !('speechSynthesis' in window)) return () => {}
+    speechSynthesis.addEventListener('voiceschanged', callback)
+    return () => speechSynthesis.removeEventListener('voiceschanged', callback)
+  }
+
+  getSettings(language: string): VoiceSettings {
+    return { ...DEFAULT_VOICE_SETTINGS, ...this.settings[language] }
+  }
+
+  setSettings(language: string, settings: VoiceSettings): void {
+    this.settings[language] = settings
+    try {
+      localStorage.setItem(this.SETTINGS_KEY, JSON.stringify(this.settings))
+    } catch (error) {
+      console.error('Failed to save voice settings:', error)
+    }
+  }
+
+  // Play now, dropping anything queued
+  speak(text: string, language: string, messageId?: string): void {
+    this.cancelPlayback()
+    this.enqueue(text, language, messageId)
+  }
+
+  // Play after whatever is already queued
+  enqueue(text: string, language: string, messageId?: string): void {
+    if (!this.isSupported() || !text.trim()) return
+    this.queue.push({ id: this.nextId++, text, language, messageId })
+    this.playNext()
+    this.emit()
+  }
+
+  stop(): void {
+    this.cancelPlayback()
+    this.emit()
+  }
+
+  getState(): PlaybackState {
+    return { current: this.current, queued: this.queue.length }
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: (state: PlaybackState) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private playNext(): void {
+    if (this.current || this.queue.length === 0) return
+
+    const item = this.queue.shift()!
+    this.current = item
+    const settings = this.getSettings(item.language)
+    const engine = this.getEngine()
+
+    // Only the current item advances the queue
+    const finish = () => {
+      if (this.current !== item) return
+      this.current = null
+      this.session = null
+      this.playNext()
+      this.emit()
+    }
+
+    this.session = engine.speak(item, settings, {
+      onEnd: finish,
+      onError: (error) => {
+        console.error('Speech playback error:', error)
+        // Fall back to a browser voice rather than leaving the patient with silence
+        const browser = this.engines.get('browser')!
+        if (engine.id !== 'browser' && browser.isSupported() && this.current === item) {
+          this.session = browser.speak(item, settings, {
+            onEnd: finish,
+            onError: (fallbackError) => {
+              console.error('Speech playback error:', fallbackError)
+              finish()
+            }
+          })
+          return
+        }
+        finish()
+      }
+    })
+  }
+
+  private cancelPlayback(): void {
+    this.queue = []
+    this.current = null
+    this.session?.stop()
+    this.session = null
+  }
+
+  private emit(): void {
+    const state = this.getState()
+    this.listeners.forEach(listener => listener(state))
+  }
+
+  private loadSettings(): void {
+    try {
+      const stored = localStorage.getItem(this.SETTINGS_KEY)
+      if (stored) {
+        this.settings = JSON.parse(stored)
+      }
+
+      const engineId = localStorage.getItem(this.ENGINE_KEY) as TtsEngineId | null
+      if (engineId && this.engines.has(engineId)) {
+        this.selectedEngine = engineId
+      }
+
+      const configs = localStorage.getItem(this.CONFIG_KEY)
+      if (configs) {
+        this.engineConfigs = JSON.parse(configs)
+        for (const [engineId, config] of Object.entries(this.engineConfigs)) {
+          this.applyEngineConfig(engineId as TtsEngineId, config)
+        }
+      }
+    } catch (error) {
+      console.error('Error loading voice settings:', error)
+    }
+  }
+
+  private applyEngineConfig(engineId: TtsEngineId, config: ProviderConfig): void {
+    const engine = this.engines.get(engineId)
+    if (engine instanceof ServerTtsEngine) {
+      engine.configure(config)
+    }
+  }
+}
+
+export const textToSpeech = TextToSpeechService.getInstance()
@@ -0,0 +1,220 @@
+// Translation Memory for Medical Translator
+// Encrypted cache of past translations, consulted before any provider is called
+
+import { secureStorage } from './secureStorage'
+
+export interface TranslationMemoryEntry {
+  id: string
+  sourceLanguage: string
+  targetLanguage: string
+  sourceText: string
+  normalizedSource: string
+  translatedText: string
+  provider: string // Provider that produced the translation
+  confidence: number
+  medicalTerms: string[]
+  ratingTotal: number
+  ratingCount: number
+  useCount: number
+  createdAt: string
+  lastUsedAt: string
+}
+
+export interface TranslationMemoryMatch {
+  entry: TranslationMemoryEntry
+  exact: boolean
+  similarity: number // 1 for exact matches
+}
+
+const COLLECTION = 'translation_memory'
+
+// Fuzzy matches must be at least this similar to the cached source; they are suggestions, never reused as-is
+const FUZZY_THRESHOLD = 0.9
+
+// Entries rated below this average are never reused
+const MIN_AVERAGE_RATING = 2.5
+
+// Unrated entries rank as if rated this
+const NEUTRAL_RATING = 3
+
+// Normalize for matching: case, whitespace, punctuation and Persian/Arabic digits
+export const normalizeSourceText = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06f0))
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+const extractNumbers = (text: string): string => (text.match(/\d+/g) || []).join(',')
+
+// Levenshtein similarity ratio (0-1)
+const similarity = (a: string, b: string): number => {
+  if (a === b) return 1
+  if (!a.length || !b.length) return 0
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length)
+}
+
+const averageRating = (entry: TranslationMemoryEntry): number =>
+  entry.ratingCount > 0 ? entry.ratingTotal / entry.ratingCount : NEUTRAL_RATING
+
+// Prefer highly rated entries, then the most reused
+const compareEntries = (a: TranslationMemoryEntry, b: TranslationMemoryEntry): number =>
+  averageRating(b) - averageRating(a) || b.useCount - a.useCount
+
+class TranslationMemory {
+  private static instance: TranslationMemory
+  private entries: Map<string, TranslationMemoryEntry> = new Map()
+  private loading: Promise<boolean> | null = null
+
+  private constructor() {}
+
+  static getInstance(): TranslationMemory {
+    if (!TranslationMemory.instance) {
+      TranslationMemory.instance = new TranslationMemory()
+    }
+    return TranslationMemory.instance
+  }
+
+  // Load entries from encrypted storage once; resolves false if storage is unavailable
+  private ensureLoaded(): Promise<boolean> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          if (!(await secureStorage.initialize())) return false
+
+          const stored = await secureStorage.getAllRecords<TranslationMemoryEntry>(COLLECTION)
+          stored.forEach(entry => this.entries.set(entry.id, entry))
+          return true
+        } catch (error) {
+          console.error('Failed to load translation memory:', error)
+          return false
+        }
+      })()
+    }
+    return this.loading
+  }
+
+  // Find the best cached translation for a source text and language pair
+  async lookup(text: string, sourceLanguage: string, targetLanguage: string): Promise<TranslationMemoryMatch | null> {
+    if (!(await this.ensureLoaded())) return null
+
+    const normalized = normalizeSourceText(text)
+    if (!normalized) return null
+
+    const candidates = Array.from(this.entries.values()).filter(entry =>
+      entry.sourceLanguage === sourceLanguage &&
+      entry.targetLanguage === targetLanguage &&
+      averageRating(entry) >= MIN_AVERAGE_RATING
+    )
+
+    const exactMatches = candidates
+      .filter(entry => entry.normalizedSource === normalized)
+      .sort(compareEntries)
+    if (exactMatches.length > 0) {
+      return { entry: exactMatches[0], exact: true, similarity: 1 }
+    }
+
+    // Fuzzy matches must keep every number, so a cached "50 mg" never answers "500 mg"
+    const numbers = extractNumbers(normalized)
+    let best: TranslationMemoryMatch | null = null
+
+    for (const entry of candidates) {
+      const lengthRatio = Math.min(entry.normalizedSource.length, normalized.length) /
+        Math.max(entry.normalizedSource.length, normalized.length)
+      if (lengthRatio < FUZZY_THRESHOLD || extractNumbers(entry.normalizedSource) !== numbers) continue
+
+      const score = similarity(entry.normalizedSource, normalized)
+      if (score < FUZZY_THRESHOLD) continue
+
+      if (!best || score > best.similarity || (score === best.similarity && compareEntries(entry, best.entry) < 0)) {
+        best = { entry, exact: false, similarity: score }
+      }
+    }
+
+    return best
+  }
+
+  // Record a provider translation; returns the entry id
+  async store(entry: Pick<TranslationMemoryEntry,
+    'sourceLanguage' | 'targetLanguage' | 'sourceText' | 'translatedText' | 'provider' | 'confidence' | 'medicalTerms'
+  >): Promise<string | null> {
+    if (!(await this.ensureLoaded())) return null
+
+    const normalizedSource = normalizeSourceText(entry.sourceText)
+    if (!normalizedSource) return null
+
+    const id = `${entry.sourceLanguage}|${entry.targetLanguage}|${normalizedSource}|${normalizeSourceText(entry.translatedText)}`
+    const now = new Date().toISOString()
+    const existing = this.entries.get(id)
+
+    const updated: TranslationMemoryEntry = existing
+      ? { ...existing, useCount: existing.useCount + 1, lastUsedAt: now }
+      : {
+          ...entry,
+          id,
+          normalizedSource,
+          ratingTotal: 0,
+          ratingCount: 0,
+          useCount: 1,
+          createdAt: now,
+          lastUsedAt: now
+        }
+
+    this.entries.set(id, updated)
+    await secureStorage.putRecord(COLLECTION, id, updated)
+    return id
+  }
+
+  // Count a reuse of a cached entry
+  async markUsed(id: string): Promise<void> {
+    const entry = this.entries.get(id)
+    if (!entry) return
+
+    const updated = { ...entry, useCount: entry.useCount + 1, lastUsedAt: new Date().toISOString() }
+    this.entries.set(id, updated)
+    await secureStorage.putRecord(COLLECTION, id, updated)
+  }
+
+  // Apply a clinician's star rating; pass the previous rating when it is being changed
+  async recordRating(id: string, rating: number, previousRating?: number): Promise<void> {
+    if (!(await this.ensureLoaded())) return
+
+    const entry = this.entries.get(id)
+    if (!entry) return
+
+    const updated = previousRating
+      ? { ...entry, ratingTotal: entry.ratingTotal - previousRating + rating }
+      : { ...entry, ratingTotal: entry.ratingTotal + rating, ratingCount: entry.ratingCount + 1 }
+
+    this.entries.set(id, updated)
+    await secureStorage.putRecord(COLLECTION, id, updated)
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+    await secureStorage.clearRecords(COLLECTION)
+  }
+
+  getSize(): number {
+    return this.entries.size
+  }
+}
+
+// Export singleton instance
+export const translationMemory = TranslationMemory.getInstance()
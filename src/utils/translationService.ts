@@ -1,13 +1,28 @@
 // Translation Service for Medical Translator
 // Handles multiple translation providers with fallback mechanisms
 
+import { computeAgreement, computeDivergence, type DivergenceResult } from './translationVerification'
+import { glossary } from './glossary'
+import { translationMemory, normalizeSourceText, type TranslationMemoryMatch } from './translationMemory'
+import { parseTranslationResponse, TRANSLATION_JSON_INSTRUCTIONS } from './llmResponse'
+import { extractPartialJsonString, readChatCompletionStream } from './streaming'
+import {
+  detectLanguageOffline,
+  MIN_DETECTION_CONFIDENCE,
+  type LanguageDetectionResult
+} from './languageDetection'
+
 export interface TranslationRequest {
   text: string
   sourceLanguage: string
   targetLanguage: string
   context: 'medical' | 'general'
-  provider: 'openai' | 'google' | 'deepl' | 'mymemory'
+  provider: 'openai' | 'google' | 'deepl' | 'mymemory' | 'local' | 'libretranslate'
   apiKey?: string
+  allowFallback?: boolean // Set to false to keep the request on the chosen provider only
+  useMemory?: boolean // Set to false to bypass the translation memory
+  signal?: AbortSignal // Set by the service to enforce per-provider timeouts
+  onPartial?: (partialText: string) => void // Receives partial translations from streaming (LLM) providers
 }
 
 export interface TranslationResponse {
@@ -15,31 +30,112 @@ export interface TranslationResponse {
   confidence: number
   provider: string
   medicalTerms: string[]
+  fallbackUsed?: boolean // True when a provider other than the requested one answered
+  glossaryTerms?: string[] // Source terms enforced from the clinical glossary
+  memoryMatch?: 'exact' // Set when the result came from the translation memory
+  memoryEntryId?: string
+  memorySuggestion?: MemorySuggestion // Similar past translation, for comparison only
+  notes?: string // Remarks from LLM providers, e.g. ambiguous terms
+  consensus?: ConsensusInfo // Set by translateWithConsensus
   error?: string
 }
 
+// A past translation of a similar sentence; never served in place of a provider translation
+export interface MemorySuggestion {
+  sourceText: string
+  translatedText: string
+  similarity: number
+}
+
+// When to cross-check a translation with several providers; 'auto' covers dosages, allergies and consent
+export type ConsensusMode = 'off' | 'auto' | 'always'
+
+// One provider's output in a consensus translation
+export interface ConsensusAlternative {
+  provider: string
+  translatedText: string
+  confidence: number
+  agreement: number // Mean similarity to the other providers' outputs (0-1)
+}
+
+export interface ConsensusInfo {
+  agreement: number // Mean pairwise similarity across providers (0-1)
+  alternatives: ConsensusAlternative[]
+  triggers?: string[] // Why consensus ran, e.g. 'dosage'; set by the caller
+}
+
 export interface TranslationProvider {
   name: string
   translate(request: TranslationRequest): Promise<TranslationResponse>
   isAvailable(): boolean
+  detectLanguage?(text: string, signal?: AbortSignal): Promise<LanguageDetectionResult | null>
+}
+
+// Result of translating the output back into the source language
+export interface BackTranslationResult {
+  backTranslation: string
+  divergence: DivergenceResult
+}
+
+// Endpoint settings for self-hosted providers
+export interface ProviderConfig {
+  baseUrl?: string
+  model?: string
+}
+
+// Language entry returned by LibreTranslate's /languages endpoint
+export interface LibreTranslateLanguage {
+  code: string
+  name: string
+  targets?: string[]
+}
+
+// Provider failure carrying the HTTP status, so the service can decide whether to retry
+export class TranslationProviderError extends Error {
+  status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = 'TranslationProviderError'
+    this.status = status
+  }
+
+  // Rate limits and server errors are worth retrying; auth and bad requests are not
+  get retryable(): boolean {
+    return this.status === 429 || (this.status !== undefined && this.status >= 500)
+  }
+}
+
+// Keep the original status when wrapping provider errors
+const toProviderError = (providerName: string, error: unknown): TranslationProviderError =>
+  error instanceof TranslationProviderError
+    ? error
+    : new TranslationProviderError(`${providerName} translation failed: ${error}`)
+
+// Strip trailing slashes and a trailing /v1 so users can paste either form
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '').replace(/\/v1$/, '')
 }
 
 // OpenAI Translation Provider
 class OpenAIProvider implements TranslationProvider {
   name = 'OpenAI GPT-3.5'
-  private apiKey: string | null = null
+  protected apiKey: string | null = null
+  protected baseUrl = 'https://api.openai.com'
+  protected model = 'gpt-3.5-turbo'
+  protected requiresApiKey = true
 
   initialize(apiKey: string): void {
     this.apiKey = apiKey
   }
 
   isAvailable(): boolean {
-    return this.apiKey !== null
+    return Boolean(this.apiKey)
   }
 
   async translate(request: TranslationRequest): Promise<TranslationResponse> {
-    if (!this.apiKey) {
-      throw new Error('OpenAI API key not configured')
+    if (this.requiresApiKey && !this.apiKey) {
+      throw new Error(`${this.name} API key not configured`)
     }
 
     try {
@@ -51,20 +147,21 @@ Requirements:
 2. Maintain the original meaning and tone
 3. Provide confidence score (0-100)
 4. Identify medical terms in the text
+5. Keep placeholder tokens such as __GLS0__ exactly as written
 
-Format your response as:
-Translation: [translated text]
-Confidence: [0-100]
-Medical Terms: [comma-separated medical terms]`
+${TRANSLATION_JSON_INSTRUCTIONS}`
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+      if (this.apiKey) {
+        headers['Authorization'] = `Bearer ${this.apiKey}`
+      }
+
+      const response = await fetch(`${this.baseUrl}/v1/chat/completions`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
+        signal: request.signal,
+        headers,
         body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
+          model: this.model,
           messages: [
             {
               role: 'system',
@@ -76,34 +173,59 @@ Medical Terms: [comma-separated medical terms]`
             }
           ],
           temperature: 0.3,
-          max_tokens: 500
+          max_tokens: 1000,
+          response_format: { type: 'json_object' },
+          stream: Boolean(request.onPartial)
         })
       })
 
       if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`)
+        throw new TranslationProviderError(`${this.name} API error: ${response.status}`, response.status)
       }
 
-      const data = await response.json()
-      const aiResponse = data.choices[0]?.message?.content || ''
+      // When streaming, surface the translation field as it is generated
+      const onPartial = request.onPartial
+      const aiResponse = onPartial
+        ? await readChatCompletionStream(response, content => {
+            const partial = extractPartialJsonString(content, 'translation')
+            if (partial) onPartial(partial)
+          })
+        : (await response.json()).choices[0]?.message?.content || ''
 
-      // Parse AI response
-      const translationMatch = aiResponse.match(/Translation:\s*(.+?)(?:\n|$)/i)
-      const confidenceMatch = aiResponse.match(/Confidence:\s*(\d+)/i)
-      const medicalTermsMatch = aiResponse.match(/Medical Terms:\s*(.+?)(?:\n|$)/i)
+      // Invalid JSON is a provider failure, never a translation
+      const payload = parseTranslationResponse(aiResponse)
 
       return {
-        translatedText: translationMatch?.[1]?.trim() || request.text,
-        confidence: confidenceMatch ? parseInt(confidenceMatch[1]) / 100 : 0.8,
+        translatedText: payload.translation,
+        confidence: payload.confidence,
         provider: this.name,
-        medicalTerms: medicalTermsMatch?.[1]?.split(',').map((t: string) => t.trim()) || []
+        medicalTerms: payload.medicalTerms,
+        notes: payload.notes || undefined
       }
     } catch (error) {
-      throw new Error(`OpenAI translation failed: ${error}`)
+      throw toProviderError(this.name, error)
     }
   }
 }
 
+// Local LLM Provider - any OpenAI-compatible /v1/chat/completions server
+// (llama.cpp, Ollama, vLLM) running on the clinic network, so PHI stays on-site
+class LocalLLMProvider extends OpenAIProvider {
+  name = 'Local LLM'
+  protected baseUrl = ''
+  protected model = ''
+  protected requiresApiKey = false
+
+  configure(config: ProviderConfig): void {
+    this.baseUrl = config.baseUrl ? normalizeBaseUrl(config.baseUrl) : ''
+    this.model = config.model?.trim() || ''
+  }
+
+  isAvailable(): boolean {
+    return this.baseUrl !== '' && this.model !== ''
+  }
+}
+
 // Google Translate Provider
 class GoogleProvider implements TranslationProvider {
   name = 'Google Translate'
@@ -114,7 +236,7 @@ class GoogleProvider implements TranslationProvider {
   }
 
   isAvailable(): boolean {
-    return this.apiKey !== null
+    return Boolean(this.apiKey)
   }
 
   async translate(request: TranslationRequest): Promise<TranslationResponse> {
@@ -127,6 +249,7 @@ class GoogleProvider implements TranslationProvider {
         `https://translation.googleapis.com/language/translate/v2?key=${this.apiKey}`,
         {
           method: 'POST',
+          signal: request.signal,
           headers: {
             'Content-Type': 'application/json'
           },
@@ -140,7 +263,7 @@ class GoogleProvider implements TranslationProvider {
       )
 
       if (!response.ok) {
-        throw new Error(`Google API error: ${response.status}`)
+        throw new TranslationProviderError(`Google API error: ${response.status}`, response.status)
       }
 
       const data = await response.json()
@@ -153,7 +276,37 @@ class GoogleProvider implements TranslationProvider {
         medicalTerms: this.extractMedicalTerms(request.text)
       }
     } catch (error) {
-      throw new Error(`Google translation failed: ${error}`)
+      throw toProviderError('Google', error)
+    }
+  }
+
+  async detectLanguage(text: string, signal?: AbortSignal): Promise<LanguageDetectionResult | null> {
+    if (!this.apiKey) return null
+
+    const response = await fetch(
+      `https://translation.googleapis.com/language/translate/v2/detect?key=${this.apiKey}`,
+      {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ q: text })
+      }
+    )
+
+    if (!response.ok) {
+      throw new TranslationProviderError(`Google API error: ${response.status}`, response.status)
+    }
+
+    const data = await response.json()
+    const detection = data.data?.detections?.[0]?.[0]
+    if (!detection?.language || detection.language === 'und') return null
+
+    return {
+      language: detection.language.split('-')[0],
+      confidence: typeof detection.confidence === 'number' ? detection.confidence : 0.8,
+      method: 'provider'
     }
   }
 
@@ -181,7 +334,7 @@ class DeepLProvider implements TranslationProvider {
   }
 
   isAvailable(): boolean {
-    return this.apiKey !== null
+    return Boolean(this.apiKey)
   }
 
   async translate(request: TranslationRequest): Promise<TranslationResponse> {
@@ -192,6 +345,7 @@ class DeepLProvider implements TranslationProvider {
     try {
       const response = await fetch('https://api-free.deepl.com/v2/translate', {
         method: 'POST',
+        signal: request.signal,
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
           'Authorization': `DeepL-Auth-Key ${this.apiKey}`
@@ -205,7 +359,7 @@ class DeepLProvider implements TranslationProvider {
       })
 
       if (!response.ok) {
-        throw new Error(`DeepL API error: ${response.status}`)
+        throw new TranslationProviderError(`DeepL API error: ${response.status}`, response.status)
       }
 
       const data = await response.json()
@@ -218,7 +372,7 @@ class DeepLProvider implements TranslationProvider {
         medicalTerms: this.extractMedicalTerms(request.text)
       }
     } catch (error) {
-      throw new Error(`DeepL translation failed: ${error}`)
+      throw toProviderError('DeepL', error)
     }
   }
 
@@ -236,6 +390,132 @@ class DeepLProvider implements TranslationProvider {
   }
 }
 
+// LibreTranslate Provider - self-hosted machine translation, API key is optional
+class LibreTranslateProvider implements TranslationProvider {
+  name = 'LibreTranslate'
+  private apiKey: string | null = null
+  private baseUrl = ''
+  private languages: LibreTranslateLanguage[] | null = null
+
+  initialize(apiKey: string): void {
+    this.apiKey = apiKey || null
+  }
+
+  configure(config: ProviderConfig): void {
+    this.baseUrl = config.baseUrl ? normalizeBaseUrl(config.baseUrl) : ''
+    this.languages = null
+  }
+
+  isAvailable(): boolean {
+    return this.baseUrl !== ''
+  }
+
+  // Discover the languages installed on the server (cached until reconfigured)
+  async getSupportedLanguages(signal?: AbortSignal): Promise<LibreTranslateLanguage[]> {
+    if (!this.baseUrl) {
+      throw new Error('LibreTranslate server URL not configured')
+    }
+    if (this.languages) {
+      return this.languages
+    }
+
+    const response = await fetch(`${this.baseUrl}/languages`, { signal })
+    if (!response.ok) {
+      throw new TranslationProviderError(`LibreTranslate API error: ${response.status}`, response.status)
+    }
+
+    this.languages = await response.json()
+    return this.languages || []
+  }
+
+  async translate(request: TranslationRequest): Promise<TranslationResponse> {
+    if (!this.baseUrl) {
+      throw new Error('LibreTranslate server URL not configured')
+    }
+
+    try {
+      // Fail fast when the server does not have the language pair installed
+      const languages = await this.getSupportedLanguages(request.signal).catch(() => null)
+      if (languages && languages.length > 0) {
+        const source = languages.find(lang => lang.code === request.sourceLanguage)
+        if (!source || (source.targets && !source.targets.includes(request.targetLanguage))) {
+          throw new Error(`Language pair ${request.sourceLanguage}-${request.targetLanguage} not installed on server`)
+        }
+      }
+
+      const response = await fetch(`${this.baseUrl}/translate`, {
+        method: 'POST',
+        signal: request.signal,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          q: request.text,
+          source: request.sourceLanguage,
+          target: request.targetLanguage,
+          format: 'text',
+          ...(this.apiKey ? { api_key: this.apiKey } : {})
+        })
+      })
+
+      if (!response.ok) {
+        throw new TranslationProviderError(`LibreTranslate API error: ${response.status}`, response.status)
+      }
+
+      const data = await response.json()
+      const translation = data.translatedText || request.text
+
+      return {
+        translatedText: translation,
+        confidence: 0.75, // LibreTranslate doesn't provide confidence scores
+        provider: this.name,
+        medicalTerms: this.extractMedicalTerms(request.text)
+      }
+    } catch (error) {
+      throw toProviderError('LibreTranslate', error)
+    }
+  }
+
+  async detectLanguage(text: string, signal?: AbortSignal): Promise<LanguageDetectionResult | null> {
+    if (!this.baseUrl) return null
+
+    const response = await fetch(`${this.baseUrl}/detect`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        q: text,
+        ...(this.apiKey ? { api_key: this.apiKey } : {})
+      })
+    })
+
+    if (!response.ok) {
+      throw new TranslationProviderError(`LibreTranslate API error: ${response.status}`, response.status)
+    }
+
+    // LibreTranslate reports confidence on a 0-100 scale
+    const [best] = await response.json() as Array<{ language: string; confidence: number }>
+    if (!best?.language) return null
+
+    return { language: best.language, confidence: best.confidence / 100, method: 'provider' }
+  }
+
+  private extractMedicalTerms(text: string): string[] {
+    // Same medical term extraction
+    const medicalTerms = [
+      'pain', 'fever', 'headache', 'nausea', 'vomiting', 'diarrhea', 'cough',
+      'sore throat', 'chest pain', 'shortness of breath', 'dizziness',
+      'medication', 'prescription', 'symptoms', 'diagnosis', 'treatment'
+    ]
+    
+    return medicalTerms.filter(term => 
+      text.toLowerCase().includes(term.toLowerCase())
+    )
+  }
+}
+
 // MyMemory Provider (Free)
 class MyMemoryProvider implements TranslationProvider {
   name = 'MyMemory (Free)'
@@ -253,11 +533,12 @@ class MyMemoryProvider implements TranslationProvider {
 
     try {
       const response = await fetch(
-        `https://api.mymemory.translated.net/get?q=${encodeURIComponent(request.text)}&langpair=${request.sourceLanguage}|${request.targetLanguage}`
+        `https://api.mymemory.translated.net/get?q=${encodeURIComponent(request.text)}&langpair=${request.sourceLanguage}|${request.targetLanguage}`,
+        { signal: request.signal }
       )
 
       if (!response.ok) {
-        throw new Error(`MyMemory API error: ${response.status}`)
+        throw new TranslationProviderError(`MyMemory API error: ${response.status}`, response.status)
       }
 
       const data = await response.json()
@@ -273,7 +554,7 @@ class MyMemoryProvider implements TranslationProvider {
         medicalTerms: this.extractMedicalTerms(request.text)
       }
     } catch (error) {
-      throw new Error(`MyMemory translation failed: ${error}`)
+      throw toProviderError('MyMemory', error)
     }
   }
 
@@ -291,18 +572,99 @@ class MyMemoryProvider implements TranslationProvider {
   }
 }
 
+// Circuit breaker state reported per provider
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface ProviderStatus {
+  available: boolean
+  name: string
+  breaker: CircuitState
+  consecutiveFailures: number
+  lastError?: string
+  lastErrorAt?: string
+}
+
+export interface BatchProgress {
+  completed: number
+  failed: number
+  total: number
+  index: number // Position of the request that just finished
+  result: TranslationResponse
+}
+
+export interface BatchTranslateOptions {
+  concurrency?: number
+  onProgress?: (progress: BatchProgress) => void
+  signal?: AbortSignal // Stops scheduling further requests; in-flight ones finish
+}
+
+interface CircuitBreaker {
+  failures: number
+  openedAt: number | null
+  trialInFlight: boolean
+  lastError?: string
+  lastErrorAt?: string
+}
+
+// Request timeouts in ms; LLMs on clinic hardware get longer
+const PROVIDER_TIMEOUTS: Record<string, number> = {
+  local: 30000,
+  openai: 20000,
+  libretranslate: 15000
+}
+const DEFAULT_TIMEOUT = 10000
+const DETECTION_TIMEOUT = 5000
+
+// Requests per minute each provider tolerates before throttling us
+const PROVIDER_RATE_LIMITS: Record<string, number> = {
+  openai: 60,
+  google: 300,
+  deepl: 60,
+  libretranslate: 80,
+  mymemory: 20
+}
+
+const DEFAULT_BATCH_CONCURRENCY = 4
+
+// Order in which providers are tried after the requested one fails
+const FALLBACK_ORDER = ['local', 'libretranslate', 'openai', 'google', 'deepl', 'mymemory']
+
+// Providers that keep text on-site; requests with allowFallback false never leave this set
+const SELF_HOSTED_PROVIDERS = ['local', 'libretranslate']
+
+const MAX_CONSENSUS_PROVIDERS = 3
+
+const MAX_RETRIES = 2 // Retries after the first attempt, only for 429/5xx
+const BASE_BACKOFF_MS = 500
+const MAX_BACKOFF_MS = 8000
+const FAILURE_THRESHOLD = 3 // Consecutive failures before the breaker opens
+const BREAKER_COOLDOWN_MS = 30000
+
+// Glossary violations are the provider's output, not its health, so they don't trip the breaker
+class GlossaryEnforcementError extends Error {}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
 // Main Translation Service
 class TranslationService {
   private static instance: TranslationService
   private providers: Map<string, TranslationProvider> = new Map()
   private apiKeys: Map<string, string> = new Map()
+  private providerConfigs: Record<string, ProviderConfig> = {}
+  private breakers: Map<string, CircuitBreaker> = new Map()
+  private nextRequestSlot: Map<string, number> = new Map()
+  private readonly CONFIG_KEY = 'medical_translator_provider_config'
 
   private constructor() {
     // Initialize providers
+    this.providers.set('local', new LocalLLMProvider())
     this.providers.set('openai', new OpenAIProvider())
     this.providers.set('google', new GoogleProvider())
     this.providers.set('deepl', new DeepLProvider())
+    this.providers.set('libretranslate', new LibreTranslateProvider())
     this.providers.set('mymemory', new MyMemoryProvider())
+
+    this.loadProviderConfigs()
   }
 
   static getInstance(): TranslationService {
@@ -322,6 +684,81 @@ class TranslationService {
     }
   }
 
+  // Register stored keys (named "<provider>_<name>"); the selected key wins for its provider
+  syncApiKeys(apiKeys: Record<string, string>, selectedApiKey?: string): void {
+    const keysByProvider: Record<string, string> = {}
+
+    for (const [keyName, key] of Object.entries(apiKeys)) {
+      const provider = keyName.split('_')[0]
+      if (this.providers.has(provider) && !keysByProvider[provider]) {
+        keysByProvider[provider] = key
+      }
+    }
+
+    if (selectedApiKey && apiKeys[selectedApiKey]) {
+      keysByProvider[selectedApiKey.split('_')[0]] = apiKeys[selectedApiKey]
+    }
+
+    // Providers without a stored key are reset so deleted keys stop being used
+    for (const provider of this.providers.keys()) {
+      this.setApiKey(provider, keysByProvider[provider] || '')
+    }
+  }
+
+  // Set endpoint configuration for a self-hosted provider and persist it
+  setProviderConfig(provider: string, config: ProviderConfig): void {
+    this.providerConfigs[provider] = config
+    this.applyProviderConfig(provider, config)
+
+    try {
+      localStorage.setItem(this.CONFIG_KEY, JSON.stringify(this.providerConfigs))
+    } catch (error) {
+      console.error('Failed to save provider config:', error)
+    }
+  }
+
+  // Get endpoint configuration for a provider
+  getProviderConfig(provider: string): ProviderConfig {
+    return this.providerConfigs[provider] || {}
+  }
+
+  // Get endpoint configuration for all providers
+  getProviderConfigs(): Record<string, ProviderConfig> {
+    return { ...this.providerConfigs }
+  }
+
+  // Load persisted endpoint configuration (URLs and model names, never API keys)
+  private loadProviderConfigs(): void {
+    try {
+      const stored = localStorage.getItem(this.CONFIG_KEY)
+      if (!stored) return
+
+      const configs: Record<string, ProviderConfig> = JSON.parse(stored)
+      for (const [provider, config] of Object.entries(configs)) {
+        this.providerConfigs[provider] = config
+        this.applyProviderConfig(provider, config)
+      }
+    } catch (error) {
+      console.error('Error loading provider config:', error)
+    }
+  }
+
+  private applyProviderConfig(provider: string, config: ProviderConfig): void {
+    const providerInstance = this.providers.get(provider)
+    if (providerInstance && 'configure' in providerInstance) {
+      (providerInstance as TranslationProvider & { configure(config: ProviderConfig): void }).configure(config)
+    }
+  }
+
+  // List the languages a provider supports (currently LibreTranslate via /languages)
+  async getSupportedLanguages(provider: string): Promise<LibreTranslateLanguage[]> {
+    const providerInstance = this.providers.get(provider)
+    if (providerInstance instanceof LibreTranslateProvider) {
+      return providerInstance.getSupportedLanguages()
+    }
+    throw new Error(`Language discovery not supported for ${provider}`)
+  }
+
   // Get available providers
   getAvailableProviders(): string[] {
     return Array.from(this.providers.entries())
@@ -329,33 +766,77 @@ class TranslationService {
       .map(([name, _]) => name)
   }
 
-  // Translate with fallback
+  // Translate with fallback. Only exact memory matches are reused: a similar sentence can differ
+  // in a word that matters ("left arm" vs "right arm"), so it is only shown next to the provider translation
   async translate(request: TranslationRequest): Promise<TranslationResponse> {
+    const match = request.useMemory !== false ? await this.lookupMemory(request) : null
+    if (match?.exact) {
+      translationMemory.markUsed(match.entry.id).catch(error => console.warn('Failed to update translation memory:', error))
+      return {
+        translatedText: match.entry.translatedText,
+        confidence: match.entry.confidence,
+        provider: match.entry.provider,
+        medicalTerms: match.entry.medicalTerms,
+        fallbackUsed: false,
+        memoryMatch: 'exact',
+        memoryEntryId: match.entry.id
+      }
+    }
+
+    const result = await this.translateWithProviders(request)
+    if (!match || result.error || normalizeSourceText(result.translatedText) === normalizeSourceText(match.entry.translatedText)) {
+      return result
+    }
+    return {
+      ...result,
+      memorySuggestion: {
+        sourceText: match.entry.sourceText,
+        translatedText: match.entry.translatedText,
+        similarity: match.similarity
+      }
+    }
+  }
+
+  private async translateWithProviders(request: TranslationRequest): Promise<TranslationResponse> {
     const preferredProvider = this.providers.get(request.provider)
+    let lastError = `Translation provider ${request.provider} failed`
     
     if (preferredProvider && preferredProvider.isAvailable()) {
       try {
-        return await preferredProvider.translate(request)
+        const result = await this.callProvider(request.provider, preferredProvider, request)
+        return await this.remember(request, { ...result, fallbackUsed: false })
       } catch (error) {
         console.warn(`Preferred provider ${request.provider} failed:`, error)
+        lastError = error instanceof Error ? error.message : String(error)
+      }
+    }
+
+    if (request.allowFallback === false) {
+      return {
+        translatedText: request.text,
+        confidence: 0,
+        provider: 'none',
+        medicalTerms: [],
+        error: lastError
       }
     }
 
-    // Try fallback providers
-    const fallbackOrder = ['openai', 'google', 'deepl', 'mymemory']
-    const availableProviders = fallbackOrder.filter(provider => 
-      provider !== request.provider && this.providers.get(provider)?.isAvailable()
+    // Try fallback providers, skipping any whose breaker is open
+    const availableProviders = FALLBACK_ORDER.filter(provider => 
+      provider !== request.provider &&
+      this.providers.get(provider)?.isAvailable() &&
+      this.getCircuitState(provider) !== 'open'
     )
 
     for (const providerName of availableProviders) {
       try {
         const provider = this.providers.get(providerName)!
-        const result = await provider.translate({
+        const result = await this.callProvider(providerName, provider, {
           ...request,
           provider: providerName as any
         })
         console.log(`Used fallback provider: ${providerName}`)
-        return result
+        return await this.remember(request, { ...result, fallbackUsed: true })
       } catch (error) {
         console.warn(`Fallback provider ${providerName} failed:`, error)
         continue
@@ -372,36 +853,355 @@ class TranslationService {
     }
   }
 
-  // Batch translate multiple texts
-  async batchTranslate(requests: TranslationRequest[]): Promise<TranslationResponse[]> {
-    const results: TranslationResponse[] = []
-    
-    for (const request of requests) {
-      try {
-        const result = await this.translate(request)
-        results.push(result)
-      } catch (error) {
-        results.push({
-          translatedText: request.text,
-          confidence: 0,
-          provider: 'none',
-          medicalTerms: [],
-          error: `Translation failed: ${error}`
-        })
+  // Translate with several providers in parallel and report how well they agree.
+  // Used for high-risk utterances (dosages, allergies, consent) where one engine's error could harm a patient.
+  async translateWithConsensus(
+    request: TranslationRequest,
+    maxProviders = MAX_CONSENSUS_PROVIDERS
+  ): Promise<TranslationResponse> {
+    // Requests pinned to a self-hosted provider only consult other self-hosted providers
+    const candidates = [request.provider, ...FALLBACK_ORDER.filter(name => name !== request.provider)]
+      .filter(name =>
+        (request.allowFallback !== false || SELF_HOSTED_PROVIDERS.includes(name)) &&
+        this.providers.get(name)?.isAvailable() &&
+        this.getCircuitState(name) !== 'open'
+      )
+      .slice(0, maxProviders)
+
+    if (candidates.length < 2) {
+      return this.translate(request)
+    }
+
+    const settled = await Promise.allSettled(candidates.map(name =>
+      // Parallel outputs are compared, not streamed into one bubble
+      this.callProvider(name, this.providers.get(name)!, {
+        ...request,
+        provider: name as TranslationRequest['provider'],
+        onPartial: undefined
+      })
+    ))
+    const succeeded = candidates.filter((name, index) => {
+      const outcome = settled[index]
+      if (outcome.status === 'rejected') {
+        console.warn(`Consensus provider ${name} failed:`, outcome.reason)
+      }
+      return outcome.status === 'fulfilled'
+    })
+    const results = settled.flatMap(outcome => outcome.status === 'fulfilled' ? [outcome.value] : [])
+
+    if (results.length === 0) {
+      return {
+        translatedText: request.text,
+        confidence: 0,
+        provider: 'none',
+        medicalTerms: [],
+        error: 'All consensus providers failed'
       }
     }
-    
+
+    const agreement = computeAgreement(results.map(result => result.translatedText), request.targetLanguage)
+    const alternatives: ConsensusAlternative[] = results.map((result, index) => ({
+      provider: result.provider,
+      translatedText: result.translatedText,
+      confidence: result.confidence,
+      agreement: agreement.perTranslation[index]
+    }))
+
+    // Prefer the output closest to the others; ties go to the requested provider's order
+    let bestIndex = 0
+    agreement.perTranslation.forEach((score, index) => {
+      if (score > agreement.perTranslation[bestIndex]) bestIndex = index
+    })
+    const best = results[bestIndex]
+
+    return {
+      ...best,
+      confidence: Math.min(best.confidence, agreement.score),
+      medicalTerms: [...new Set(results.flatMap(result => result.medicalTerms))],
+      fallbackUsed: succeeded[bestIndex] !== request.provider,
+      consensus: { agreement: agreement.score, alternatives }
+    }
+  }
+
+  // Find a cached translation that still satisfies the current glossary
+  private async lookupMemory(request: TranslationRequest): Promise<TranslationMemoryMatch | null> {
+    try {
+      const match = await translationMemory.lookup(request.text, request.sourceLanguage, request.targetLanguage)
+      if (!match) return null
+
+      const requiredTerms = glossary.maskText(request.text, request.sourceLanguage, request.targetLanguage).placeholders
+      if (requiredTerms.some(({ entry }) => !match.entry.translatedText.includes(entry.targetTerm))) {
+        return null
+      }
+
+      return match
+    } catch (error) {
+      console.warn('Translation memory lookup failed:', error)
+      return null
+    }
+  }
+
+  // Save a provider result to the translation memory
+  private async remember(request: TranslationRequest, result: TranslationResponse): Promise<TranslationResponse> {
+    if (request.useMemory === false) {
+      return result
+    }
+
+    try {
+      const memoryEntryId = await translationMemory.store({
+        sourceLanguage: request.sourceLanguage,
+        targetLanguage: request.targetLanguage,
+        sourceText: request.text,
+        translatedText: result.translatedText,
+        provider: result.provider,
+        confidence: result.confidence,
+        medicalTerms: result.medicalTerms
+      })
+      return memoryEntryId ? { ...result, memoryEntryId } : result
+    } catch (error) {
+      console.warn('Failed to store translation memory entry:', error)
+      return result
+    }
+  }
+
+  // Call a provider with a timeout, backoff on 429/5xx, and circuit breaker bookkeeping
+  private async callProvider(
+    providerName: string,
+    provider: TranslationProvider,
+    request: TranslationRequest
+  ): Promise<TranslationResponse> {
+    const state = this.getCircuitState(providerName)
+    const breaker = this.getBreaker(providerName)
+    if (state === 'open' || (state === 'half-open' && breaker.trialInFlight)) {
+      throw new Error(`${provider.name} temporarily disabled after repeated failures`)
+    }
+    if (state === 'half-open') {
+      breaker.trialInFlight = true
+    }
+
+    const timeout = PROVIDER_TIMEOUTS[providerName] || DEFAULT_TIMEOUT
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        await this.waitForRateLimit(providerName)
+        const controller = new AbortController()
+        const timer = setTimeout(() => controller.abort(), timeout)
+
+        try {
+          const result = await this.translateWithProvider(provider, { ...request, signal: controller.signal })
+          this.recordSuccess(providerName)
+          return result
+        } catch (error) {
+          const timedOut = controller.signal.aborted
+          const providerError = timedOut
+            ? new TranslationProviderError(`${provider.name} timed out after ${timeout / 1000}s`)
+            : error
+
+          if (providerError instanceof TranslationProviderError && providerError.retryable && attempt < MAX_RETRIES) {
+            const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt)
+            await sleep(backoff + Math.random() * backoff * 0.2)
+            continue
+          }
+
+          if (!(providerError instanceof GlossaryEnforcementError)) {
+            this.recordFailure(providerName, providerError)
+          }
+          throw providerError
+        } finally {
+          clearTimeout(timer)
+        }
+      }
+    } finally {
+      breaker.trialInFlight = false
+    }
+  }
+
+  // Space out request starts so concurrent callers stay under the provider's rate limit
+  private async waitForRateLimit(providerName: string): Promise<void> {
+    const perMinute = PROVIDER_RATE_LIMITS[providerName]
+    if (!perMinute) return
+
+    const now = Date.now()
+    const slot = Math.max(now, this.nextRequestSlot.get(providerName) || 0)
+    this.nextRequestSlot.set(providerName, slot + 60000 / perMinute)
+    if (slot > now) {
+      await sleep(slot - now)
+    }
+  }
+
+  private getBreaker(providerName: string): CircuitBreaker {
+    let breaker = this.breakers.get(providerName)
+    if (!breaker) {
+      breaker = { failures: 0, openedAt: null, trialInFlight: false }
+      this.breakers.set(providerName, breaker)
+    }
+    return breaker
+  }
+
+  // Open breakers move to half-open once the cooldown has passed, allowing one trial request
+  private getCircuitState(providerName: string): CircuitState {
+    const breaker = this.breakers.get(providerName)
+    if (!breaker || breaker.openedAt === null) return 'closed'
+    return Date.now() - breaker.openedAt >= BREAKER_COOLDOWN_MS ? 'half-open' : 'open'
+  }
+
+  private recordSuccess(providerName: string): void {
+    const breaker = this.getBreaker(providerName)
+    breaker.failures = 0
+    breaker.openedAt = null
+  }
+
+  private recordFailure(providerName: string, error: unknown): void {
+    const breaker = this.getBreaker(providerName)
+    breaker.failures++
+    breaker.lastError = error instanceof Error ? error.message : String(error)
+    breaker.lastErrorAt = new Date().toISOString()
+
+    // A failed half-open trial re-opens immediately
+    if (breaker.failures >= FAILURE_THRESHOLD || breaker.openedAt !== null) {
+      breaker.openedAt = Date.now()
+    }
+  }
+
+  // Run one provider with glossary terms masked, then reinsert the approved target terms
+  private async translateWithProvider(provider: TranslationProvider, request: TranslationRequest): Promise<TranslationResponse> {
+    const masked = glossary.maskText(request.text, request.sourceLanguage, request.targetLanguage)
+    if (masked.placeholders.length === 0) {
+      return provider.translate(request)
+    }
+
+    // Partial output still contains placeholders; show the approved terms instead
+    const onPartial = request.onPartial
+    const result = await provider.translate({
+      ...request,
+      text: masked.text,
+      onPartial: onPartial && (partial => onPartial(glossary.unmaskText(partial, masked.placeholders).text))
+    })
+    const unmasked = glossary.unmaskText(result.translatedText, masked.placeholders)
+
+    // A dropped placeholder means a mandated term would be lost, so try the next provider
+    if (unmasked.missingTerms.length > 0) {
+      throw new GlossaryEnforcementError(`${provider.name} dropped glossary terms: ${unmasked.missingTerms.join(', ')}`)
+    }
+
+    const glossaryTerms = Array.from(new Set(masked.placeholders.map(p => p.entry.sourceTerm)))
+    return {
+      ...result,
+      translatedText: unmasked.text,
+      medicalTerms: Array.from(new Set([...result.medicalTerms, ...glossaryTerms])),
+      glossaryTerms
+    }
+  }
+
+  // Identify the language of an utterance: offline first, then the selected provider if it can detect.
+  // Only the selected provider is asked, so text never reaches a service the user did not choose.
+  async detectLanguage(text: string, providerName?: string): Promise<LanguageDetectionResult | null> {
+    const offline = detectLanguageOffline(text)
+    if (offline && offline.confidence >= MIN_DETECTION_CONFIDENCE) return offline
+
+    const provider = providerName ? this.providers.get(providerName) : undefined
+    if (!providerName || !provider?.detectLanguage || !provider.isAvailable() || this.getCircuitState(providerName) === 'open') {
+      return offline
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), DETECTION_TIMEOUT)
+    try {
+      return (await provider.detectLanguage(text, controller.signal)) || offline
+    } catch (error) {
+      console.warn(`Language detection with ${provider.name} failed:`, error)
+      return offline
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  // Translate the output back into the source language and score how far it drifted
+  async verifyTranslation(request: TranslationRequest, translatedText: string): Promise<BackTranslationResult | null> {
+    // Bypass the memory so the check is an independent round trip
+    const result = await this.translate({
+      ...request,
+      text: translatedText,
+      sourceLanguage: request.targetLanguage,
+      targetLanguage: request.sourceLanguage,
+      useMemory: false,
+      onPartial: undefined
+    })
+
+    if (result.error) {
+      return null
+    }
+
+    return {
+      backTranslation: result.translatedText,
+      divergence: computeDivergence(request.text, result.translatedText, request.sourceLanguage)
+    }
+  }
+
+  // Batch translate multiple texts with limited concurrency; results keep request order
+  async batchTranslate(
+    requests: TranslationRequest[],
+    options: BatchTranslateOptions = {}
+  ): Promise<TranslationResponse[]> {
+    const results: TranslationResponse[] = new Array(requests.length)
+    const concurrency = Math.max(1, Math.min(options.concurrency || DEFAULT_BATCH_CONCURRENCY, requests.length))
+    let nextIndex = 0
+    let completed = 0
+    let failed = 0
+
+    // Each worker pulls the next request; results land at their original index
+    const worker = async () => {
+      while (nextIndex < requests.length) {
+        const index = nextIndex++
+        const request = requests[index]
+        let result: TranslationResponse
+
+        if (options.signal?.aborted) {
+          result = {
+            translatedText: request.text,
+            confidence: 0,
+            provider: 'none',
+            medicalTerms: [],
+            error: 'Translation cancelled'
+          }
+        } else {
+          try {
+            result = await this.translate(request)
+          } catch (error) {
+            result = {
+              translatedText: request.text,
+              confidence: 0,
+              provider: 'none',
+              medicalTerms: [],
+              error: `Translation failed: ${error}`
+            }
+          }
+        }
+
+        results[index] = result
+        completed++
+        if (result.error) failed++
+        options.onProgress?.({ completed, failed, total: requests.length, index, result })
+      }
+    }
+
+    await Promise.all(Array.from({ length: concurrency }, worker))
     return results
   }
 
-  // Get provider status
-  getProviderStatus(): Record<string, { available: boolean; name: string }> {
-    const status: Record<string, { available: boolean; name: string }> = {}
+  // Get provider status, including circuit breaker state and the last error
+  getProviderStatus(): Record<string, ProviderStatus> {
+    const status: Record<string, ProviderStatus> = {}
     
     for (const [key, provider] of this.providers.entries()) {
+      const breaker = this.breakers.get(key)
       status[key] = {
         available: provider.isAvailable(),
-        name: provider.name
+        name: provider.name,
+        breaker: this.getCircuitState(key),
+        consecutiveFailures: breaker?.failures || 0,
+        lastError: breaker?.lastError,
+        lastErrorAt: breaker?.lastErrorAt
       }
     }
     
@@ -0,0 +1,172 @@
+// Translation Verification for Medical Translator
+// Compares an utterance with its back-translation to catch mistranslated dosages and negations
+
+export interface DivergenceResult {
+  score: number // 0 = identical meaning, 1 = completely different
+  reasons: string[]
+}
+
+// Messages at or above this score are flagged for verification with the patient
+export const HIGH_DIVERGENCE_THRESHOLD = 0.5
+
+// Negation cues per language (base language codes)
+const NEGATION_CUES: Record<string, string[]> = {
+  en: ['no', 'not', 'never', 'none', 'nothing', 'without', "don't", "doesn't", "didn't", "isn't", "aren't", "wasn't", "can't", "won't", 'deny', 'denies'],
+  es: ['no', 'nunca', 'ningún', 'ninguna', 'ninguno', 'nada', 'sin', 'ni', 'jamás'],
+  pt: ['não', 'nunca', 'nenhum', 'nenhuma', 'nada', 'sem', 'nem', 'jamais'],
+  fr: ['ne', "n'", 'pas', 'jamais', 'aucun', 'aucune', 'sans', 'rien', 'ni'],
+  de: ['nicht', 'kein', 'keine', 'keinen', 'keiner', 'nie', 'niemals', 'ohne', 'nichts'],
+  fa: ['نه', 'هیچ', 'بدون'],
+  ar: ['لا', 'لم', 'لن', 'ليس', 'ليست', 'لست', 'بدون', 'غير'],
+  zh: ['不', '没', '没有', '无', '未', '别', '非']
+}
+
+// Negated verb prefixes (Persian marks negation on the verb itself)
+const NEGATION_PREFIXES: Record<string, string[]> = {
+  fa: ['نمی', 'ندار', 'نیست', 'نکرد', 'نبود', 'نشد', 'نخورد']
+}
+
+// Languages written without spaces between words
+const CHARACTER_LANGUAGES = ['zh']
+
+const normalize = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06f0))
+    .replace(/[^\p{L}\p{N}\s.'’]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+const tokenize = (text: string, language: string): string[] =>
+  CHARACTER_LANGUAGES.includes(language)
+    ? Array.from(text.replace(/\s/g, ''))
+    : text.split(' ').map(token => token.replace(/^[.'’]+|[.'’]+$/g, '')).filter(Boolean)
+
+// Token overlap F1 - tolerant of reordering
+const tokenOverlap = (a: string[], b: string[]): number => {
+  if (a.length === 0 && b.length === 0) return 1
+  if (a.length === 0 || b.length === 0) return 0
+
+  const counts = new Map<string, number>()
+  a.forEach(token => counts.set(token, (counts.get(token) || 0) + 1))
+
+  let common = 0
+  b.forEach(token => {
+    const count = counts.get(token) || 0
+    if (count > 0) {
+      common++
+      counts.set(token, count - 1)
+    }
+  })
+
+  const precision = common / b.length
+  const recall = common / a.length
+  return precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall)
+}
+
+// Character trigram similarity - tolerant of inflection and spelling variants
+const trigramSimilarity = (a: string, b: string): number => {
+  const trigrams = (text: string): Set<string> => {
+    const padded = `  ${text} `
+    const grams = new Set<string>()
+    for (let i = 0; i < padded.length - 2; i++) {
+      grams.add(padded.slice(i, i + 3))
+    }
+    return grams
+  }
+
+  const gramsA = trigrams(a)
+  const gramsB = trigrams(b)
+  if (gramsA.size === 0 && gramsB.size === 0) return 1
+
+  let intersection = 0
+  gramsA.forEach(gram => {
+    if (gramsB.has(gram)) intersection++
+  })
+  return intersection / (gramsA.size + gramsB.size - intersection)
+}
+
+const extractNumbers = (text: string): string[] =>
+  (text.match(/\d+(?:\.\d+)?/g) || []).map(n => String(parseFloat(n))).sort()
+
+const countNegations = (text: string, tokens: string[], language: string): number => {
+  const cues = NEGATION_CUES[language] || NEGATION_CUES.en
+  if (CHARACTER_LANGUAGES.includes(language)) {
+    return cues.filter(cue => cue.length === 1).reduce((total, cue) => total + text.split(cue).length - 1, 0)
+  }
+  const prefixes = NEGATION_PREFIXES[language] || []
+  return tokens.filter(token => cues.includes(token) || prefixes.some(prefix => token.startsWith(prefix))).length
+}
+
+// Score how far a back-translation drifted from the original utterance
+export const computeDivergence = (original: string, backTranslation: string, language: string): DivergenceResult => {
+  const baseLanguage = language.split('-')[0]
+  const normalizedOriginal = normalize(original)
+  const normalizedBack = normalize(backTranslation)
+  const originalTokens = tokenize(normalizedOriginal, baseLanguage)
+  const backTokens = tokenize(normalizedBack, baseLanguage)
+  const reasons: string[] = []
+
+  const similarity = Math.max(
+    tokenOverlap(originalTokens, backTokens),
+    trigramSimilarity(normalizedOriginal, normalizedBack)
+  )
+  let score = 1 - similarity
+
+  // Dosages, durations and vitals must survive the round trip exactly
+  const originalNumbers = extractNumbers(normalizedOriginal)
+  const backNumbers = extractNumbers(normalizedBack)
+  if (originalNumbers.join(',') !== backNumbers.join(',')) {
+    reasons.push(`Numbers changed (${originalNumbers.join(', ') || 'none'} → ${backNumbers.join(', ') || 'none'})`)
+    score = Math.max(score, 0.85)
+  }
+
+  // A negation that appears on only one side flips the meaning
+  const originalNegations = countNegations(normalizedOriginal, originalTokens, baseLanguage)
+  const backNegations = countNegations(normalizedBack, backTokens, baseLanguage)
+  if ((originalNegations > 0) !== (backNegations > 0)) {
+    reasons.push('Negation may have been lost or added')
+    score = Math.max(score, 0.8)
+  }
+
+  if (reasons.length === 0 && score >= HIGH_DIVERGENCE_THRESHOLD) {
+    reasons.push('Back-translation wording differs substantially')
+  }
+
+  return {
+    score: Math.round(Math.min(1, Math.max(0, score)) * 100) / 100,
+    reasons
+  }
+}
+
+// Consensus translations agreeing less than this are shown with their alternatives
+export const LOW_AGREEMENT_THRESHOLD = 0.6
+
+// Score how closely several translations of the same utterance agree with each other.
+// Each translation's agreement is its mean similarity to the others; numbers and negations count heavily.
+export const computeAgreement = (translations: string[], language: string): { score: number; perTranslation: number[] } => {
+  if (translations.length < 2) {
+    return { score: 1, perTranslation: translations.map(() => 1) }
+  }
+
+  const totals = translations.map(() => 0)
+  let pairTotal = 0
+  let pairCount = 0
+
+  for (let i = 0; i < translations.length; i++) {
+    for (let j = i + 1; j < translations.length; j++) {
+      const similarity = 1 - computeDivergence(translations[i], translations[j], language).score
+      totals[i] += similarity
+      totals[j] += similarity
+      pairTotal += similarity
+      pairCount++
+    }
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100
+  return {
+    score: round(pairTotal / pairCount),
+    perTranslation: totals.map(total => round(total / (translations.length - 1)))
+  }
+}
@@ -0,0 +1,266 @@
+// Vital Sign Parsing for Medical Translator
+// Rule-based extraction of BP, temperature, HR, SpO2, RR, weight and height, normalized and range-checked
+
+export type VitalSign = 'bloodPressure' | 'temperature' | 'heartRate' | 'oxygenSaturation' | 'respiratoryRate' | 'weight' | 'height'
+
+export type VitalFlag = 'normal' | 'low' | 'high' | 'critical'
+
+export interface VitalSignReading {
+  sign: VitalSign
+  value: number // Normalized: mmHg systolic, °C, bpm, %, breaths/min, kg, cm
+  secondary?: number // Diastolic for blood pressure
+  display: string // e.g. '130/85 mmHg', '101.3 °F (38.5 °C)'
+  flag: VitalFlag
+  span?: { start: number; end: number } // Where it was said, in the text it was parsed from
+}
+
+export const VITAL_SIGN_LABELS: Record<VitalSign, string> = {
+  bloodPressure: 'BP',
+  temperature: 'Temp',
+  heartRate: 'HR',
+  oxygenSaturation: 'SpO2',
+  respiratoryRate: 'RR',
+  weight: 'Weight',
+  height: 'Height'
+}
+
+// Adult reference ranges; a reading outside [low, high] is abnormal, outside the critical bounds needs action now
+interface VitalRange {
+  criticalLow: number
+  low: number
+  high: number
+  criticalHigh: number
+}
+
+const VITAL_RANGES: Partial<Record<VitalSign, VitalRange>> = {
+  temperature: { criticalLow: 32, low: 35, high: 37.9, criticalHigh: 40 },
+  heartRate: { criticalLow: 40, low: 50, high: 100, criticalHigh: 130 },
+  oxygenSaturation: { criticalLow: 90, low: 94, high: 100, criticalHigh: 101 },
+  respiratoryRate: { criticalLow: 8, low: 12, high: 20, criticalHigh: 30 }
+}
+
+const SYSTOLIC_RANGE: VitalRange = { criticalLow: 80, low: 90, high: 139, criticalHigh: 180 }
+const DIASTOLIC_RANGE: VitalRange = { criticalLow: 40, low: 60, high: 89, criticalHigh: 120 }
+
+// Values outside these are misheard or mistyped, not vital signs
+const PLAUSIBLE: Record<VitalSign, [number, number]> = {
+  bloodPressure: [50, 300],
+  temperature: [25, 45],
+  heartRate: [20, 250],
+  oxygenSaturation: [50, 100],
+  respiratoryRate: [4, 70],
+  weight: [1, 350],
+  height: [40, 250]
+}
+
+const FLAG_ORDER: VitalFlag[] = ['normal', 'low', 'high', 'critical']
+
+const rangeFlag = (value: number, range: VitalRange): VitalFlag => {
+  if (value < range.criticalLow || value >= range.criticalHigh) return 'critical'
+  if (value < range.low) return 'low'
+  if (value > range.high) return 'high'
+  return 'normal'
+}
+
+const worstFlag = (...flags: VitalFlag[]): VitalFlag =>
+  flags.reduce((worst, flag) => (FLAG_ORDER.indexOf(flag) > FLAG_ORDER.indexOf(worst) ? flag : worst), 'normal')
+
+// Persian and Arabic-Indic digits and decimal separators to ASCII, one character for one
+export const toLatinDigits = (text: string): string =>
+  text
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06f0))
+    .replace(/٫/g, '.')
+
+const round = (value: number, digits = 1): number => Math.round(value * 10 ** digits) / 10 ** digits
+
+const NUMBER = '(\\d{1,3}(?:[.,]\\d+)?)'
+
+// Phrases are English plus the Persian and Arabic words for the sign and its unit
+const PATTERNS = {
+  bloodPressure: new RegExp(`(\\d{2,3})\\s*(?:/|over|روی|بر|على)\\s*(\\d{2,3})(?!\\s*(?:[.,/]\\d|%|days?|weeks?|months?|years?))`, 'i'),
+  temperature: [
+    new RegExp(`${NUMBER}\\s*(?:°|º|degrees?|deg|درجه(?:\\s*سانتی‌?گراد)?|درجة(?:\\s*مئوية)?)?\\s*(c|f|celsius|fahrenheit|centigrade)\\b`, 'i'),
+    new RegExp(`(?:\\b(?:temperature|temp|fever of)|تب|دما|حرارت|الحرارة|درجة الحرارة)\\s*(?:is|was|of|:|=|at)?\\s*${NUMBER}`, 'i'),
+    new RegExp(`${NUMBER}\\s*(?:°|º|degrees?|درجه|درجة)`, 'i')
+  ],
+  heartRate: [
+    /(?:\b(?:heart rate|pulse|hr)|ضربان(?: قلب)?|نبض)\s*(?:is|was|of|:|=|at)?\s*(\d{2,3})/i,
+    /(\d{2,3})\s*(?:bpm|beats (?:per|a) minute|ضربه در دقیقه|نبضة)/i
+  ],
+  oxygenSaturation: [
+    /(?:\b(?:spo2|sp02|sao2|o2 sat(?:uration)?|oxygen(?: saturation| level| sat)?|sats?|saturation)|اکسیژن|اشباع|الأكسجين)\s*(?:is|was|of|:|=|at)?\s*(\d{2,3})\s*%?/i,
+    /(\d{2,3})\s*%\s*(?:on room air|room air|ra\b|on oxygen|o2)/i
+  ],
+  respiratoryRate: [
+    /(?:\b(?:respiratory rate|resp(?:iration|iratory)? rate|rr|breathing rate|respirations)|تنفس|معدل التنفس)\s*(?:is|was|of|:|=|at)?\s*(\d{1,2})(?!\d)/i,
+    /(\d{1,2})\s*(?:breaths(?: per|\/| a) ?min(?:ute)?|تنفس در دقیقه)/i
+  ],
+  weight: new RegExp(`${NUMBER}\\s*(kg|kgs|kilograms?|kilos?|lbs?|pounds?|کیلو(?:گرم)?|كيلو(?:غرام)?)(?![a-z])`, 'gi'),
+  height: [
+    new RegExp(`${NUMBER}\\s*(cm|centimet(?:er|re)s?|سانتی‌?متر|سانت|سم)(?![a-z])`, 'gi'),
+    /(?<!\d)(\d)\s*(?:'|’|ft|feet|foot)\s*(?:(\d{1,2})\s*(?:"|”|in|inches)?)?/gi,
+    /(?:\b(?:height|tall)|قد|الطول)\D{0,12}(\d(?:[.,]\d{1,2}))\s*(?:m|meters?|metres?|متر)?(?![a-z\d])/i
+  ]
+}
+
+// A weight or height has to be named as one, so 'I lost 10 pounds' or 'I walked 5 feet' isn't a reading.
+// The group is what lies between the naming words and the number
+const MEASUREMENT_CONTEXT = {
+  weight: /(?:\bweigh(?:s|ed|ing)?|\bweight|وزن)(\D{0,20})$/i,
+  height: /(?:\bheight|\btall|\bi['’]?m|\bi am|قد|الطول)(\D{0,12})$/i
+}
+
+// Changes and distances between the naming words and the number: 'my weight went up by 5 kg'
+const NOT_A_MEASUREMENT = /\b(?:lost|los(?:e|ing)|gain(?:s|ed|ing)?|put on|dropped|up|down|by|walk(?:s|ed|ing)?|ran|run)\b/i
+
+// First match of a global pattern that is named as a measurement, before it or, for height, by 'tall' after it
+const firstMeasurement = (sign: 'weight' | 'height', pattern: RegExp, text: string): RegExpExecArray | null => {
+  for (const match of text.matchAll(pattern)) {
+    const between = MEASUREMENT_CONTEXT[sign].exec(text.slice(0, match.index))?.[1]
+    const named = between !== undefined
+      ? !NOT_A_MEASUREMENT.test(between)
+      : sign === 'height' && /^\s*tall\b/i.test(text.slice(match.index! + match[0].length))
+    if (named) return match as RegExpExecArray
+  }
+  return null
+}
+
+const parseNumber = (value: string): number => parseFloat(value.replace(',', '.'))
+
+const plausible = (sign: VitalSign, value: number): boolean =>
+  !isNaN(value) && value >= PLAUSIBLE[sign][0] && value <= PLAUSIBLE[sign][1]
+
+const spanOf = (match: RegExpExecArray) => ({ start: match.index, end: match.index + match[0].length })
+
+const reading = (sign: VitalSign, value: number, display: string, match: RegExpExecArray): VitalSignReading => {
+  const range = VITAL_RANGES[sign]
+  return { sign, value, display, flag: range ? rangeFlag(value, range) : 'normal', span: spanOf(match) }
+}
+
+const firstMatch = (patterns: RegExp | RegExp[], text: string): RegExpExecArray | null => {
+  for (const pattern of Array.isArray(patterns) ? patterns : [patterns]) {
+    const match = pattern.exec(text)
+    if (match) return match
+  }
+  return null
+}
+
+const parseBloodPressure = (text: string): VitalSignReading | null => {
+  const match = PATTERNS.bloodPressure.exec(text)
+  if (!match) return null
+
+  const systolic = parseInt(match[1])
+  const diastolic = parseInt(match[2])
+  if (!plausible('bloodPressure', systolic) || diastolic < 20 || diastolic >= systolic) return null
+
+  return {
+    sign: 'bloodPressure',
+    value: systolic,
+    secondary: diastolic,
+    display: `${systolic}/${diastolic} mmHg`,
+    flag: worstFlag(rangeFlag(systolic, SYSTOLIC_RANGE), rangeFlag(diastolic, DIASTOLIC_RANGE)),
+    span: spanOf(match)
+  }
+}
+
+const parseTemperature = (text: string): VitalSignReading | null => {
+  const match = firstMatch(PATTERNS.temperature, text)
+  if (!match) return null
+
+  const value = parseNumber(match[1])
+  // Without a unit only body-temperature values count, so '90 degrees outside' is ignored
+  if (!match[2] && !((value >= 34 && value <= 43) || (value >= 93 && value <= 110))) return null
+  // Without a unit, anything above body-temperature range in Celsius must be Fahrenheit
+  const unit = match[2]?.toLowerCase().startsWith('f') || (!match[2] && value > 45) ? 'F' : 'C'
+  const celsius = round(unit === 'F' ? (value - 32) * 5 / 9 : value)
+  if (!plausible('temperature', celsius)) return null
+
+  return reading('temperature', celsius, unit === 'F' ? `${round(value)} °F (${celsius} °C)` : `${celsius} °C`, match)
+}
+
+const parseSimple = (sign: 'heartRate' | 'oxygenSaturation' | 'respiratoryRate', unit: string) => (text: string): VitalSignReading | null => {
+  const match = firstMatch(PATTERNS[sign], text)
+  if (!match) return null
+
+  const value = parseInt(match[1])
+  if (!plausible(sign, value)) return null
+  return reading(sign, value, `${value}${unit}`, match)
+}
+
+const parseWeight = (text: string): VitalSignReading | null => {
+  const match = firstMeasurement('weight', PATTERNS.weight, text)
+  if (!match) return null
+
+  const value = parseNumber(match[1])
+  const pounds = /^(?:lb|pound)/i.test(match[2])
+  const kilograms = round(pounds ? value * 0.4536 : value)
+  if (!plausible('weight', kilograms)) return null
+
+  return reading('weight', kilograms, pounds ? `${round(value)} lb (${kilograms} kg)` : `${kilograms} kg`, match)
+}
+
+const parseHeight = (text: string): VitalSignReading | null => {
+  const [centimeterPattern, imperialPattern, meterPattern] = PATTERNS.height
+
+  let centimeters: number | null = null
+  let display = ''
+  const metric = firstMeasurement('height', centimeterPattern, text)
+  const imperial = metric ? null : firstMeasurement('height', imperialPattern, text)
+  const meters = metric || imperial ? null : meterPattern.exec(text)
+
+  if (metric) {
+    centimeters = round(parseNumber(metric[1]), 0)
+    display = `${centimeters} cm`
+  } else if (imperial) {
+    const feet = parseInt(imperial[1])
+    const inches = imperial[2] ? parseInt(imperial[2]) : 0
+    centimeters = round((feet * 12 + inches) * 2.54, 0)
+    display = `${feet}'${inches}" (${centimeters} cm)`
+  } else if (meters) {
+    centimeters = round(parseNumber(meters[1]) * 100, 0)
+    display = `${centimeters} cm`
+  }
+
+  const match = metric || imperial || meters
+  if (!match || centimeters === null || !plausible('height', centimeters)) return null
+  return reading('height', centimeters, display, match)
+}
+
+const PARSERS: ((text: string) => VitalSignReading | null)[] = [
+  parseBloodPressure,
+  parseTemperature,
+  parseSimple('heartRate', ' bpm'),
+  parseSimple('oxygenSaturation', '%'),
+  parseSimple('respiratoryRate', ' /min'),
+  parseWeight,
+  parseHeight
+]
+
+// Parse vital signs from texts in order; a later reading of the same sign replaces an earlier one
+export const parseVitalSigns = (texts: string[]): VitalSignReading[] => {
+  const readings = new Map<VitalSign, VitalSignReading>()
+
+  for (const text of texts) {
+    const latin = toLatinDigits(text)
+    const separators = [...latin.matchAll(/[.;!?\n؟]+(?:\s|$)|،/g)]
+    let offset = 0
+    for (const separator of [...separators, null]) {
+      const end = separator ? separator.index! : latin.length
+      const sentence = latin.slice(offset, end)
+      for (const parse of PARSERS) {
+        const result = parse(sentence)
+        if (result) {
+          readings.set(result.sign, { ...result, span: { start: offset + result.span!.start, end: offset + result.span!.end } })
+        }
+      }
+      if (separator) offset = end + separator[0].length
+    }
+  }
+
+  return Array.from(readings.values())
+}
+
+// The most serious flag among the readings
+export const getWorstVitalFlag = (readings: VitalSignReading[]): VitalFlag =>
+  worstFlag(...readings.map(item => item.flag))